@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { listDatabaseTargets } from '@/lib/database-writer';
+
+export const runtime = 'nodejs';
+
+/** The databases the server can load processed rows into, without credentials. */
+export async function GET() {
+  return NextResponse.json(listDatabaseTargets(), { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { readArtifact } from '@/lib/job-store';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ jobId: string; name: string }> }
+) {
+  const { jobId, name } = await params;
+  const artifact = await readArtifact(jobId, name);
+  if (!artifact) {
+    return NextResponse.json({ error: 'Artefacto no encontrado.' }, { status: 404 });
+  }
+  return new NextResponse(new Uint8Array(artifact.content), {
+    headers: {
+      'Content-Type': artifact.contentType,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+    },
+  });
+}
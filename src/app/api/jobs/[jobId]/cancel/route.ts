@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { cancelJob } from '@/lib/job-queue';
+
+export const runtime = 'nodejs';
+
+export async function POST(_request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+  const job = await cancelJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Trabajo no encontrado.' }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { ensureQueueStarted } from '@/lib/job-queue';
+import { readJob, subscribeToJob } from '@/lib/job-store';
+import { isTerminalStatus, type JobStatus } from '@/lib/processing';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const RETRY_MS = 2_000;
+
+/**
+ * Server-Sent Events for one job. Each log entry is a `log` event whose id
+ * is its position in the job's log, so a reconnecting client (through
+ * `Last-Event-ID` or `?after=`) gets exactly the entries it missed. A
+ * `status` event carries the job without its logs whenever the status
+ * changes; the stream ends after a final status.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+  await ensureQueueStarted();
+  if (!(await readJob(jobId))) {
+    return NextResponse.json({ error: 'Trabajo no encontrado.' }, { status: 404 });
+  }
+
+  const lastEventId = request.headers.get('last-event-id') ?? new URL(request.url).searchParams.get('after');
+  let nextLogId = lastEventId && /^\d+$/.test(lastEventId) ? Number(lastEventId) + 1 : 0;
+  let sentStatus: JobStatus | undefined;
+  const encoder = new TextEncoder();
+  // Set once the stream starts; also run when the client cancels the stream.
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let flushing = Promise.resolve();
+
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: string, data: unknown, id?: number) =>
+        write(`${id === undefined ? '' : `id: ${id}\n`}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const flush = async () => {
+        const job = await readJob(jobId);
+        if (!job || closed) return;
+        job.logs.slice(nextLogId).forEach((entry, index) => send('log', entry, nextLogId + index));
+        nextLogId = Math.max(nextLogId, job.logs.length);
+        if (job.status !== sentStatus) {
+          sentStatus = job.status;
+          const { logs: _logs, ...snapshot } = job;
+          send('status', snapshot);
+        }
+        if (isTerminalStatus(job.status)) close();
+      };
+      // Changes are flushed one after another so events keep their order.
+      const scheduleFlush = () => {
+        flushing = flushing.then(flush).catch(() => undefined);
+      };
+
+      const unsubscribe = subscribeToJob(jobId, scheduleFlush);
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        request.signal.removeEventListener('abort', close);
+      };
+      const close = () => {
+        if (closed) return;
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client.
+        }
+      };
+      request.signal.addEventListener('abort', close);
+
+      write(`retry: ${RETRY_MS}\n\n`);
+      scheduleFlush();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
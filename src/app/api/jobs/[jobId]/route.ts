@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { ensureQueueStarted } from '@/lib/job-queue';
+import { readJob } from '@/lib/job-store';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+  await ensureQueueStarted();
+  const job = await readJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Trabajo no encontrado.' }, { status: 404 });
+  }
+  return NextResponse.json(job, { headers: { 'Cache-Control': 'no-store' } });
+}
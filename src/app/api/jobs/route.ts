@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { enqueueJob } from '@/lib/job-queue';
+import { createJob, createJobId } from '@/lib/job-store';
+import { processingOptionsSchema, processingRequestSchema, type ProcessingJob } from '@/lib/processing';
+
+export const runtime = 'nodejs';
+
+/**
+ * Queues an import for processing and answers right away with the job; its
+ * progress is read from `GET /api/jobs/:jobId`. Accepts either JSON with the
+ * parsed sheets and the processing options, or multipart form data with the
+ * raw `file` and the options as JSON in `options`.
+ */
+export async function POST(request: Request) {
+  try {
+    const jobId = createJobId();
+    let job: ProcessingJob;
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'Falta el archivo a procesar.' }, { status: 400 });
+      }
+      const options = processingOptionsSchema.parse(JSON.parse(String(form.get('options') ?? '{}')));
+      job = await createJob(jobId, { kind: 'file', fileName: file.name, options }, await file.arrayBuffer());
+    } else {
+      const { sheets, ...options } = processingRequestSchema.parse(await request.json());
+      job = await createJob(jobId, { kind: 'sheets', sheets, options });
+    }
+
+    await enqueueJob(job.id);
+    return NextResponse.json<ProcessingJob>(job, { status: 202 });
+  } catch (error) {
+    if (error instanceof ZodError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'La solicitud de procesamiento no es válida.' }, { status: 400 });
+    }
+    console.error('Could not queue job', error);
+    return NextResponse.json({ error: 'Error interno al crear el trabajo.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { AlertTriangle, CheckCircle2, Download, FolderOpen, Loader2, Play, Trash2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { JOB_STATUS_LABELS } from '@/components/job-status-panel';
+import type { BatchItem, BatchParseStatus } from '@/lib/batch';
+import type { ValidationResult } from '@/lib/import-schemas';
+import { findOutputArtifact, isTerminalStatus } from '@/lib/processing';
+import { downloadArtifact } from '@/lib/processing-client';
+
+const PARSE_STATUS_LABELS: Record<BatchParseStatus, string> = {
+  pending: 'En espera',
+  parsing: 'Analizando',
+  parsed: 'Analizado',
+  empty: 'Vacío',
+  error: 'Error',
+};
+
+type BatchQueueProps = {
+  items: BatchItem[];
+  /** Validation per item id, when an import schema is selected. */
+  validations: Map<string, ValidationResult | null>;
+  disabled?: boolean;
+  onOpen: (item: BatchItem) => void;
+  onProcess: (item: BatchItem) => void;
+  onRemove: (item: BatchItem) => void;
+};
+
+/**
+ * Files of a batch upload with their parse, validation and processing
+ * status. Each file can be opened in the preview, processed on its own or
+ * removed from the batch.
+ */
+export function BatchQueue({ items, validations, disabled, onOpen, onProcess, onRemove }: BatchQueueProps) {
+  const renderValidation = (item: BatchItem) => {
+    const result = validations.get(item.id);
+    if (!result) return <span className="text-muted-foreground">—</span>;
+    if (result.errorCount) {
+      return (
+        <span className="flex items-center gap-1 text-destructive">
+          <XCircle className="h-4 w-4" />
+          {result.errorCount} error(es)
+        </span>
+      );
+    }
+    if (result.warningCount) {
+      return (
+        <span className="flex items-center gap-1 text-yellow-700 dark:text-yellow-500">
+          <AlertTriangle className="h-4 w-4" />
+          {result.warningCount} advertencia(s)
+        </span>
+      );
+    }
+    return (
+      <span className="flex items-center gap-1 text-green-600">
+        <CheckCircle2 className="h-4 w-4" />
+        Válido
+      </span>
+    );
+  };
+
+  const renderJob = (item: BatchItem) => {
+    if (!item.job) return <span className="text-muted-foreground">—</span>;
+    const output = findOutputArtifact(item.job);
+    return (
+      <div className="flex items-center gap-2">
+        {!isTerminalStatus(item.job.status) && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+        <Badge variant={item.job.status === 'failed' ? 'destructive' : item.job.status === 'succeeded' ? 'default' : 'secondary'}>
+          {JOB_STATUS_LABELS[item.job.status]}
+        </Badge>
+        {output && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => downloadArtifact(output)} aria-label={`Descargar ${output.name}`}>
+            <Download className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Archivo</TableHead>
+          <TableHead>Hoja</TableHead>
+          <TableHead>Análisis</TableHead>
+          <TableHead>Validación</TableHead>
+          <TableHead>Procesamiento</TableHead>
+          <TableHead className="text-right">Acciones</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map(item => {
+          const blocked = !item.sheet || !!validations.get(item.id)?.errorCount;
+          const busy = !!item.job && !isTerminalStatus(item.job.status);
+          return (
+            <TableRow key={item.id}>
+              <TableCell className="max-w-[14rem]">
+                <p className="truncate font-medium" title={item.path}>{item.path}</p>
+                {item.profileName && <p className="truncate text-xs text-primary">Perfil «{item.profileName}»</p>}
+              </TableCell>
+              <TableCell className="text-sm">
+                {item.sheet ? (
+                  <>
+                    <p className="truncate">{item.sheet.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.sheet.rowCount.toLocaleString('es-ES')} filas × {item.sheet.columnCount} col.
+                      {item.sheetCount && item.sheetCount > 1 ? ` · ${item.sheetCount} hojas` : ''}
+                    </p>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </TableCell>
+              <TableCell className="text-sm">
+                <span className={item.status === 'error' || item.status === 'empty' ? 'text-destructive' : undefined} title={item.error}>
+                  {item.status === 'parsing' && <Loader2 className="mr-1 inline h-4 w-4 animate-spin" />}
+                  {PARSE_STATUS_LABELS[item.status]}
+                </span>
+              </TableCell>
+              <TableCell className="text-sm">{renderValidation(item)}</TableCell>
+              <TableCell>{renderJob(item)}</TableCell>
+              <TableCell>
+                <div className="flex justify-end gap-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onOpen(item)} disabled={disabled || !item.sheet} aria-label="Abrir en la previsualización" title="Abrir en la previsualización">
+                    <FolderOpen className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onProcess(item)} disabled={disabled || blocked || busy} aria-label="Procesar" title="Procesar">
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onRemove(item)} disabled={busy} aria-label="Quitar del lote" title="Quitar del lote">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { FileSpreadsheet, UploadCloud } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { BatchQueue } from '@/components/batch-queue';
+import { ImportSchemaSelect } from '@/components/import-schema-select';
+import { OutputFormatOptions } from '@/components/output-format-options';
+import type { BatchItem } from '@/lib/batch';
+import type { ImportSchema, ValidationResult } from '@/lib/import-schemas';
+import type { OutputOptions } from '@/lib/output-formats';
+
+type BatchViewProps = {
+  items: BatchItem[];
+  /** Validation per item id, when an import schema is selected. */
+  validations: Map<string, ValidationResult | null>;
+  schemaId: string;
+  schemas: ImportSchema[];
+  outputOptions: OutputOptions;
+  onSchemaChange: (id: string) => void;
+  onOutputOptionsChange: (options: OutputOptions) => void;
+  onAddFiles: () => void;
+  onOpen: (item: BatchItem) => void;
+  onProcess: (item: BatchItem) => void;
+  onRemove: (item: BatchItem) => void;
+};
+
+/**
+ * A batch upload: how many files parsed, are pending or fail validation,
+ * the import type and output format every file is processed with, and the
+ * queue itself.
+ */
+export function BatchView({
+  items,
+  validations,
+  schemaId,
+  schemas,
+  outputOptions,
+  onSchemaChange,
+  onOutputOptionsChange,
+  onAddFiles,
+  onOpen,
+  onProcess,
+  onRemove,
+}: BatchViewProps) {
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <FileSpreadsheet className="w-10 h-10 text-primary" />
+        <div>
+          <h3 className="text-lg font-bold">Lote de {items.length} archivo(s)</h3>
+          <p className="text-sm text-muted-foreground">
+            {items.filter(item => item.sheet).length} analizado(s)
+            {' · '}{items.filter(item => item.status === 'pending' || item.status === 'parsing').length} pendiente(s)
+            {' · '}{items.filter(item => validations.get(item.id)?.errorCount).length} con errores de validación.
+            {' '}Suelta más archivos aquí para añadirlos.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={onAddFiles}>
+          <UploadCloud className="mr-2 h-4 w-4" />
+          Añadir archivos
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <ImportSchemaSelect id="batch-import-schema" value={schemaId} schemas={schemas} onChange={onSchemaChange} />
+      </div>
+      <div className="mb-4">
+        <OutputFormatOptions value={outputOptions} sheetCount={1} onChange={onOutputOptionsChange} />
+      </div>
+      <Card>
+        <CardContent className="p-0">
+          <BatchQueue items={items} validations={validations} onOpen={onOpen} onProcess={onProcess} onRemove={onRemove} />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
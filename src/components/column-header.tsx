@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Filter } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ColumnFilter, SortDirection } from '@/lib/row-query';
+import { cn } from '@/lib/utils';
+
+type FilterKind = ColumnFilter['kind'];
+
+const FILTER_KIND_LABELS: Record<FilterKind, string> = {
+  contains: 'Contiene texto',
+  numberRange: 'Rango numérico',
+  dateRange: 'Rango de fechas',
+  empty: 'Vacío',
+  notEmpty: 'No vacío',
+};
+
+type ColumnHeaderProps = {
+  header: string;
+  subtitle?: string;
+  sortDirection?: SortDirection;
+  sortPriority?: number;
+  filter?: ColumnFilter;
+  disabled?: boolean;
+  onSort: (additive: boolean) => void;
+  onFilterChange: (filter: ColumnFilter | undefined) => void;
+};
+
+const parseOptionalNumber = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+/**
+ * Preview grid header: click to sort (Shift+click adds a sort level) and a
+ * popover to edit the column filter.
+ */
+export function ColumnHeader({
+  header,
+  subtitle,
+  sortDirection,
+  sortPriority,
+  filter,
+  disabled,
+  onSort,
+  onFilterChange,
+}: ColumnHeaderProps) {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<FilterKind>(filter?.kind ?? 'contains');
+  const [text, setText] = useState(filter?.kind === 'contains' ? filter.text : '');
+  const [min, setMin] = useState(filter?.kind === 'numberRange' ? String(filter.min ?? '') : '');
+  const [max, setMax] = useState(filter?.kind === 'numberRange' ? String(filter.max ?? '') : '');
+  const [from, setFrom] = useState(filter?.kind === 'dateRange' ? filter.from ?? '' : '');
+  const [to, setTo] = useState(filter?.kind === 'dateRange' ? filter.to ?? '' : '');
+
+  const applyFilter = () => {
+    switch (kind) {
+      case 'contains':
+        onFilterChange(text.trim() ? { kind, text } : undefined);
+        break;
+      case 'numberRange': {
+        const minValue = parseOptionalNumber(min);
+        const maxValue = parseOptionalNumber(max);
+        onFilterChange(minValue === undefined && maxValue === undefined ? undefined : { kind, min: minValue, max: maxValue });
+        break;
+      }
+      case 'dateRange':
+        onFilterChange(from || to ? { kind, from: from || undefined, to: to || undefined } : undefined);
+        break;
+      default:
+        onFilterChange({ kind });
+    }
+    setOpen(false);
+  };
+
+  const clearFilter = () => {
+    onFilterChange(undefined);
+    setOpen(false);
+  };
+
+  const SortIcon = sortDirection === 'desc' ? ArrowDown : ArrowUp;
+
+  return (
+    <div className="flex w-full items-center gap-1">
+      <button
+        type="button"
+        className="flex min-w-0 flex-1 flex-col items-start text-left disabled:cursor-default"
+        onClick={(e) => onSort(e.shiftKey)}
+        disabled={disabled}
+        title="Clic para ordenar; Mayús+clic para añadir un nivel de orden"
+      >
+        <span className="flex w-full items-center gap-1">
+          <span className="truncate">{header}</span>
+          {sortDirection && (
+            <span className="flex shrink-0 items-center text-primary">
+              <SortIcon className="h-3 w-3" />
+              {sortPriority !== undefined && <span className="text-[10px]">{sortPriority}</span>}
+            </span>
+          )}
+        </span>
+        {subtitle && <span className="text-[10px] font-normal">{subtitle}</span>}
+      </button>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('h-6 w-6 shrink-0', filter && 'text-primary')}
+            disabled={disabled}
+            aria-label={`Filtrar ${header}`}
+          >
+            <Filter className="h-3 w-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="space-y-3" align="start">
+          <p className="text-sm font-semibold truncate">Filtrar «{header}»</p>
+          <Select value={kind} onValueChange={(value) => setKind(value as FilterKind)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FILTER_KIND_LABELS) as FilterKind[]).map(option => (
+                <SelectItem key={option} value={option}>{FILTER_KIND_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {kind === 'contains' && (
+            <Input value={text} onChange={(e) => setText(e.target.value)} placeholder="Texto a buscar" />
+          )}
+          {kind === 'numberRange' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Mínimo</Label>
+                <Input type="number" value={min} onChange={(e) => setMin(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Máximo</Label>
+                <Input type="number" value={max} onChange={(e) => setMax(e.target.value)} />
+              </div>
+            </div>
+          )}
+          {kind === 'dateRange' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Desde</Label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Hasta</Label>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={clearFilter}>Quitar</Button>
+            <Button size="sm" onClick={applyFilter}>Aplicar</Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { findDuplicateTargets, type ColumnMapping, type MappingProfile } from '@/lib/column-mapping';
+import type { ImportSchema } from '@/lib/import-schemas';
+import type { SheetRow } from '@/lib/workbook';
+import { cn } from '@/lib/utils';
+
+type ColumnMappingStepProps = {
+  mapping: ColumnMapping;
+  sampleRow?: SheetRow;
+  schema?: ImportSchema;
+  profiles: MappingProfile[];
+  activeProfileId?: string;
+  disabled?: boolean;
+  onChange: (mapping: ColumnMapping) => void;
+  onSaveProfile: (name: string) => void;
+  onApplyProfile: (id: string) => void;
+  onDeleteProfile: (id: string) => void;
+};
+
+/**
+ * Mapping step between preview and processing: each source column gets a
+ * target field name or is dropped, and target fields without a source take
+ * a default value. Mappings can be saved as named profiles.
+ */
+export function ColumnMappingStep({
+  mapping,
+  sampleRow,
+  schema,
+  profiles,
+  activeProfileId,
+  disabled,
+  onChange,
+  onSaveProfile,
+  onApplyProfile,
+  onDeleteProfile,
+}: ColumnMappingStepProps) {
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+  const [profileName, setProfileName] = useState(activeProfile?.name ?? '');
+  const duplicates = new Set(findDuplicateTargets(mapping));
+  const targetSuggestions = schema?.columns.map(column => column.header) ?? [];
+
+  const updateField = (index: number, changes: Partial<ColumnMapping['fields'][number]>) => {
+    onChange({
+      ...mapping,
+      fields: mapping.fields.map((field, i) => (i === index ? { ...field, ...changes } : field)),
+    });
+  };
+
+  const updateDefault = (index: number, changes: Partial<ColumnMapping['defaults'][number]>) => {
+    onChange({
+      ...mapping,
+      defaults: mapping.defaults.map((field, i) => (i === index ? { ...field, ...changes } : field)),
+    });
+  };
+
+  const addDefault = () => {
+    onChange({ ...mapping, defaults: [...mapping.defaults, { target: `campo_${mapping.defaults.length + 1}`, value: '' }] });
+  };
+
+  const removeDefault = (index: number) => {
+    onChange({ ...mapping, defaults: mapping.defaults.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="mapping-profile">Perfil de mapeo</Label>
+          <Select value={activeProfileId ?? ''} onValueChange={onApplyProfile} disabled={disabled || !profiles.length}>
+            <SelectTrigger id="mapping-profile" className="w-56">
+              <SelectValue placeholder={profiles.length ? 'Selecciona un perfil' : 'Sin perfiles guardados'} />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {activeProfile && (
+          <Button variant="ghost" size="sm" onClick={() => onDeleteProfile(activeProfile.id)} disabled={disabled}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Eliminar perfil
+          </Button>
+        )}
+        <div className="space-y-1 sm:ml-auto">
+          <Label htmlFor="mapping-profile-name">Guardar como</Label>
+          <div className="flex gap-2">
+            <Input
+              id="mapping-profile-name"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Nombre del perfil"
+              className="w-48"
+              disabled={disabled}
+            />
+            <Button
+              variant="outline"
+              onClick={() => onSaveProfile(profileName.trim())}
+              disabled={disabled || !profileName.trim() || duplicates.size > 0}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Guardar
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <datalist id="mapping-targets">
+        {targetSuggestions.map(target => <option key={target} value={target} />)}
+      </datalist>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Incluir</TableHead>
+              <TableHead>Columna de origen</TableHead>
+              <TableHead>Ejemplo</TableHead>
+              <TableHead>Campo de destino</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {mapping.fields.map((field, index) => (
+              <TableRow key={`${field.source}-${index}`} className={cn(!field.include && 'opacity-50')}>
+                <TableCell className="py-2">
+                  <Checkbox
+                    checked={field.include}
+                    onCheckedChange={(checked) => updateField(index, { include: checked === true })}
+                    aria-label={`Incluir ${field.source}`}
+                    disabled={disabled}
+                  />
+                </TableCell>
+                <TableCell className="py-2 font-medium">{field.source}</TableCell>
+                <TableCell className="py-2 text-muted-foreground max-w-[12rem] truncate">
+                  {String(sampleRow?.[field.source] ?? '')}
+                </TableCell>
+                <TableCell className="py-2">
+                  <Input
+                    value={field.target}
+                    onChange={(e) => updateField(index, { target: e.target.value })}
+                    list="mapping-targets"
+                    className={cn('h-8', field.include && duplicates.has(field.target.trim()) && 'border-destructive')}
+                    disabled={disabled || !field.include}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold">Campos de destino sin columna de origen</p>
+          <Button variant="outline" size="sm" onClick={addDefault} disabled={disabled}>
+            <Plus className="mr-2 h-4 w-4" />
+            Añadir campo
+          </Button>
+        </div>
+        {mapping.defaults.length === 0 && (
+          <p className="text-xs text-muted-foreground">Todos los campos de destino tienen una columna de origen.</p>
+        )}
+        {mapping.defaults.map((field, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={field.target}
+              onChange={(e) => updateDefault(index, { target: e.target.value })}
+              list="mapping-targets"
+              className={cn('h-8 w-56', duplicates.has(field.target.trim()) && 'border-destructive')}
+              aria-label="Campo de destino"
+              disabled={disabled}
+            />
+            <Input
+              value={field.value}
+              onChange={(e) => updateDefault(index, { value: e.target.value })}
+              placeholder="Valor por defecto (vacío = null)"
+              className="h-8 flex-1"
+              aria-label={`Valor por defecto de ${field.target}`}
+              disabled={disabled}
+            />
+            <Button variant="ghost" size="icon" onClick={() => removeDefault(index)} aria-label="Quitar campo" disabled={disabled}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {duplicates.size > 0 && (
+        <p className="text-sm text-destructive">
+          Hay campos de destino repetidos: {Array.from(duplicates).join(', ')}.
+        </p>
+      )}
+    </div>
+  );
+}
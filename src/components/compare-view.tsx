@@ -0,0 +1,344 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { writeFile } from 'xlsx';
+import { AlertTriangle, Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { DataGrid } from '@/components/data-grid';
+import { isWorkbookCancelled, useWorkbookWorker } from '@/hooks/use-workbook-worker';
+import { isSpreadsheetFile } from '@/lib/batch';
+import { diffSheets, diffToJson, ROW_CHANGE_LABELS, type DiffAlignment, type RowChange } from '@/lib/diff';
+import { buildDiffReport } from '@/lib/diff-report';
+import type { LogDetails, LogLevel } from '@/lib/logs';
+import { downloadText } from '@/lib/processing-client';
+import { cn } from '@/lib/utils';
+import type { ParsedSheet, SheetRow, ValueMode } from '@/lib/workbook';
+
+type Side = 'before' | 'after';
+
+type CompareVersion = {
+  fileName: string;
+  sheets: ParsedSheet[];
+  sheetName: string;
+};
+
+type CompareViewProps = {
+  valueMode: ValueMode;
+  onLog: (message: string, level?: LogLevel, details?: LogDetails) => void;
+};
+
+const SIDE_LABELS: Record<Side, string> = { before: 'Versión anterior', after: 'Versión nueva' };
+
+// Not a valid header text, so it never collides with a column of the sheets.
+const CHANGE_HEADER = '\u0000cambio';
+
+const ROW_CLASSES: Partial<Record<RowChange, string>> = {
+  added: 'bg-green-50 dark:bg-green-950/40',
+  removed: 'bg-red-50 text-muted-foreground line-through dark:bg-red-950/40',
+};
+
+const CHANGE_CLASSES: Record<RowChange, string> = {
+  added: 'text-green-700 dark:text-green-500',
+  removed: 'text-destructive',
+  modified: 'text-yellow-700 dark:text-yellow-500',
+  unchanged: 'text-muted-foreground',
+};
+
+const sheetOf = (version: CompareVersion | null) => version?.sheets.find(s => s.name === version.sheetName);
+
+const displayValue = (value: unknown) => (value === null || value === undefined || value === '' ? '(vacío)' : String(value));
+
+/**
+ * Comparison of two versions of a workbook: rows aligned by key columns or
+ * by position, added and removed rows and modified cells highlighted, and
+ * the result downloadable as JSON or as a workbook with a change log.
+ */
+export function CompareView({ valueMode, onLog }: CompareViewProps) {
+  const { parse } = useWorkbookWorker();
+  const inputRefs = { before: useRef<HTMLInputElement>(null), after: useRef<HTMLInputElement>(null) };
+  const [versions, setVersions] = useState<Record<Side, CompareVersion | null>>({ before: null, after: null });
+  const [loading, setLoading] = useState<Side | null>(null);
+  const [alignment, setAlignment] = useState<DiffAlignment>({ mode: 'position' });
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const beforeSheet = sheetOf(versions.before);
+  const afterSheet = sheetOf(versions.after);
+  const sharedHeaders = useMemo(
+    () => (beforeSheet && afterSheet ? afterSheet.headers.filter(header => beforeSheet.headers.includes(header)) : []),
+    [beforeSheet, afterSheet]
+  );
+  const missingKey = alignment.mode === 'key' && (!alignment.keys.length || alignment.keys.some(key => !sharedHeaders.includes(key)));
+
+  const diff = useMemo(
+    () => (beforeSheet && afterSheet && !missingKey ? diffSheets(beforeSheet, afterSheet, alignment) : null),
+    [beforeSheet, afterSheet, alignment, missingKey]
+  );
+  const displayRows = useMemo<SheetRow[]>(() => diff?.rows.map(row => row.after ?? row.before ?? {}) ?? [], [diff]);
+  const rowOrder = useMemo(
+    () => diff?.rows.flatMap((row, index) => (showUnchanged || row.change !== 'unchanged' ? [index] : [])) ?? [],
+    [diff, showUnchanged]
+  );
+
+  const defaultAlignment = (before: ParsedSheet | undefined, after: ParsedSheet | undefined): DiffAlignment => {
+    const key = before && after ? after.headers.find(header => before.headers.includes(header)) : undefined;
+    return key ? { mode: 'key', keys: [key] } : { mode: 'position' };
+  };
+
+  const updateVersion = (side: Side, version: CompareVersion) => {
+    const next = { ...versions, [side]: version };
+    setVersions(next);
+    setAlignment(defaultAlignment(sheetOf(next.before), sheetOf(next.after)));
+  };
+
+  const handleLoad = async (side: Side, file: File) => {
+    if (!isSpreadsheetFile(file)) {
+      onLog(`Tipo de archivo inválido para la comparación: ${file.name}.`, 'error', { step: 'compare' });
+      return;
+    }
+    setLoading(side);
+    try {
+      const parsed = await parse(file, { valueMode });
+      const sheet = parsed.find(s => s.rowCount > 0);
+      if (!sheet) {
+        onLog(`"${file.name}" no tiene datos.`, 'error', { step: 'compare' });
+        return;
+      }
+      updateVersion(side, { fileName: file.name, sheets: parsed, sheetName: sheet.name });
+      onLog(`${SIDE_LABELS[side]}: "${file.name}", hoja "${sheet.name}" con ${sheet.rowCount} filas.`, 'info', {
+        step: 'compare',
+        context: { file: file.name, sheets: parsed.map(s => s.name) },
+      });
+    } catch (error) {
+      if (!isWorkbookCancelled(error)) onLog(`No se pudo analizar "${file.name}".`, 'error', { step: 'compare' });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleSheetChange = (side: Side, sheetName: string) => {
+    const version = versions[side];
+    if (version) updateVersion(side, { ...version, sheetName });
+  };
+
+  const toggleKey = (header: string, checked: boolean) => {
+    const keys = alignment.mode === 'key' ? alignment.keys : [];
+    setAlignment({
+      mode: 'key',
+      keys: checked ? sharedHeaders.filter(h => h === header || keys.includes(h)) : keys.filter(key => key !== header),
+    });
+  };
+
+  const download = (format: 'json' | 'xlsx') => {
+    if (!diff || !versions.before || !versions.after) return;
+    const names = {
+      before: `${versions.before.fileName} · ${versions.before.sheetName}`,
+      after: `${versions.after.fileName} · ${versions.after.sheetName}`,
+    };
+    const baseName = `${versions.after.fileName.replace(/\.[^.]+$/, '')}_diferencias`;
+    try {
+      if (format === 'json') {
+        downloadText(JSON.stringify(diffToJson(diff, { ...names, alignment }), null, 2), `${baseName}.json`, 'application/json');
+      } else {
+        writeFile(buildDiffReport(diff, names), `${baseName}.xlsx`);
+      }
+      onLog(`Comparación descargada (${format.toUpperCase()}): ${diff.counts.added} añadida(s), ${diff.counts.removed} eliminada(s), ${diff.counts.modified} modificada(s).`, 'info', {
+        step: 'compare',
+      });
+    } catch (error) {
+      onLog('No se pudo generar el archivo de la comparación.', 'error', { step: 'compare' });
+    }
+  };
+
+  const renderPicker = (side: Side) => {
+    const version = versions[side];
+    return (
+      <div className="space-y-2 rounded-lg border p-4">
+        <div className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5 text-primary" />
+          <p className="text-sm font-semibold">{SIDE_LABELS[side]}</p>
+        </div>
+        <p className="truncate text-sm text-muted-foreground" title={version?.fileName}>
+          {version?.fileName ?? 'Ningún archivo seleccionado'}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => inputRefs[side].current?.click()} disabled={loading !== null}>
+            {loading === side && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {version ? 'Cambiar archivo' : 'Elegir archivo'}
+          </Button>
+          {version && version.sheets.length > 1 && (
+            <Select value={version.sheetName} onValueChange={(sheetName) => handleSheetChange(side, sheetName)}>
+              <SelectTrigger className="h-9 w-48" aria-label={`Hoja de la ${SIDE_LABELS[side].toLowerCase()}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {version.sheets.map(s => (
+                  <SelectItem key={s.name} value={s.name}>{s.name} ({s.rowCount} filas)</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <Input
+          ref={inputRefs[side]}
+          type="file"
+          className="hidden"
+          accept=".xlsx,.xls,.csv,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/csv"
+          onChange={(e) => {
+            const selected = e.target.files?.[0];
+            if (selected) handleLoad(side, selected);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {renderPicker('before')}
+        {renderPicker('after')}
+      </div>
+      {beforeSheet && afterSheet && (
+        <>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="compare-alignment">Alinear filas</Label>
+              <Select
+                value={alignment.mode}
+                onValueChange={(mode) => setAlignment(mode === 'key' ? { mode: 'key', keys: sharedHeaders.slice(0, 1) } : { mode: 'position' })}
+              >
+                <SelectTrigger id="compare-alignment" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="key" disabled={!sharedHeaders.length}>Por columnas clave</SelectItem>
+                  <SelectItem value="position">Por posición</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="compare-show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+              <Label htmlFor="compare-show-unchanged">Mostrar filas sin cambios</Label>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="ml-auto" disabled={!diff}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Descargar comparación
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => download('json')}>JSON (.json)</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => download('xlsx')}>Excel con registro de cambios (.xlsx)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          {alignment.mode === 'key' && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Columnas clave (presentes en ambas versiones)</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {sharedHeaders.map((header, index) => (
+                  <div key={header} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`compare-key-${index}`}
+                      checked={alignment.keys.includes(header)}
+                      onCheckedChange={(checked) => toggleKey(header, checked === true)}
+                    />
+                    <Label htmlFor={`compare-key-${index}`} className="font-normal">{header}</Label>
+                  </div>
+                ))}
+              </div>
+              {missingKey && <p className="text-xs text-destructive">Elige al menos una columna clave.</p>}
+            </div>
+          )}
+          {diff && (
+            <>
+              <div className="space-y-1 text-sm">
+                <p>
+                  {(Object.keys(ROW_CHANGE_LABELS) as RowChange[]).map((change, index) => (
+                    <span key={change}>
+                      {index > 0 && ' · '}
+                      <span className={CHANGE_CLASSES[change]}>
+                        {diff.counts[change].toLocaleString('es-ES')} {ROW_CHANGE_LABELS[change].toLowerCase()}
+                      </span>
+                    </span>
+                  ))}
+                </p>
+                {diff.addedColumns.length > 0 && (
+                  <p className="text-xs text-green-700 dark:text-green-500">Columnas añadidas: {diff.addedColumns.join(', ')}</p>
+                )}
+                {diff.removedColumns.length > 0 && (
+                  <p className="text-xs text-destructive">Columnas eliminadas: {diff.removedColumns.join(', ')}</p>
+                )}
+              </div>
+              {diff.duplicateKeys.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4 !text-yellow-600" />
+                  <AlertTitle>{diff.duplicateKeys.length} clave(s) repetidas</AlertTitle>
+                  <AlertDescription className="break-words text-xs">
+                    Las repeticiones se emparejan en orden de aparición: {diff.duplicateKeys.join(', ')}
+                  </AlertDescription>
+                </Alert>
+              )}
+              <Card>
+                <CardContent className="p-0">
+                  {rowOrder.length ? (
+                    <DataGrid
+                      headers={[CHANGE_HEADER, ...diff.headers]}
+                      rows={displayRows}
+                      rowOrder={rowOrder}
+                      renderHeader={(header) => (
+                        <span
+                          className={cn(
+                            'truncate',
+                            diff.addedColumns.includes(header) && 'text-green-700 dark:text-green-500',
+                            diff.removedColumns.includes(header) && 'text-destructive line-through'
+                          )}
+                        >
+                          {header === CHANGE_HEADER ? 'Cambio' : header}
+                        </span>
+                      )}
+                      renderCell={(row, header, rowIndex) => {
+                        const diffRow = diff.rows[rowIndex];
+                        if (header === CHANGE_HEADER) {
+                          return (
+                            <span className={cn('truncate font-medium', CHANGE_CLASSES[diffRow.change])}>
+                              {ROW_CHANGE_LABELS[diffRow.change]}
+                            </span>
+                          );
+                        }
+                        return <span className="truncate">{String(row[header] ?? '')}</span>;
+                      }}
+                      cellClassName={(rowIndex, header) => {
+                        const diffRow = diff.rows[rowIndex];
+                        if (diffRow.changedHeaders.includes(header)) return 'bg-yellow-100 dark:bg-yellow-900/40';
+                        return ROW_CLASSES[diffRow.change];
+                      }}
+                      cellTitle={(rowIndex, header) => {
+                        const diffRow = diff.rows[rowIndex];
+                        if (header === CHANGE_HEADER) return diffRow.key ? `Clave: ${diffRow.key}` : undefined;
+                        if (!diffRow.changedHeaders.includes(header)) return undefined;
+                        return `Antes: ${displayValue(diffRow.before?.[header])}\nAhora: ${displayValue(diffRow.after?.[header])}`;
+                      }}
+                    />
+                  ) : (
+                    <p className="p-6 text-center text-sm text-muted-foreground">Las dos versiones tienen las mismas filas.</p>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
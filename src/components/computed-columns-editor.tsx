@@ -0,0 +1,95 @@
+'use client';
+
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FUNCTIONS, type ComputedColumn, type ComputedColumnsResult } from '@/lib/expressions';
+import type { SheetRow } from '@/lib/workbook';
+import { cn } from '@/lib/utils';
+
+type ComputedColumnsEditorProps = {
+  columns: ComputedColumn[];
+  result: ComputedColumnsResult;
+  sampleRow?: SheetRow;
+  disabled?: boolean;
+  onChange: (columns: ComputedColumn[]) => void;
+};
+
+const FUNCTION_NAMES = Object.keys(FUNCTIONS).sort();
+
+/**
+ * Editor for computed columns. Each expression is checked as it is typed;
+ * valid ones show their value for the first row.
+ */
+export function ComputedColumnsEditor({ columns, result, sampleRow, disabled, onChange }: ComputedColumnsEditorProps) {
+  const updateColumn = (index: number, changes: Partial<ComputedColumn>) => {
+    onChange(columns.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+  };
+
+  const addColumn = () => {
+    onChange([...columns, { name: `calculada_${columns.length + 1}`, expression: '' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold">Columnas calculadas</p>
+        <Button variant="outline" size="sm" onClick={addColumn} disabled={disabled}>
+          <Plus className="mr-2 h-4 w-4" />
+          Añadir columna calculada
+        </Button>
+      </div>
+      {columns.map((column, index) => {
+        const error = result.errors[column.name];
+        const failedRows = result.rowErrors[column.name.trim()];
+        return (
+          <div key={index} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Input
+                value={column.name}
+                onChange={(e) => updateColumn(index, { name: e.target.value })}
+                className="h-8 w-44"
+                aria-label="Nombre de la columna"
+                disabled={disabled}
+              />
+              <span className="text-muted-foreground">=</span>
+              <Input
+                value={column.expression}
+                onChange={(e) => updateColumn(index, { expression: e.target.value })}
+                placeholder='p. ej. cantidad * precio o IF([Ventas.Q1] > 100, "alto", "bajo")'
+                className={cn('h-8 flex-1 font-mono text-xs', error && 'border-destructive')}
+                aria-label={`Expresión de ${column.name}`}
+                aria-invalid={!!error}
+                spellCheck={false}
+                disabled={disabled}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(columns.filter((_, i) => i !== index))}
+                aria-label="Quitar columna calculada"
+                disabled={disabled}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {error ? (
+              <p className="text-xs text-destructive">{error}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Fila 1: {String(sampleRow?.[column.name.trim()] ?? '(vacío)')}
+                {failedRows ? ` · ${failedRows} fila(s) no se pudieron calcular` : ''}
+              </p>
+            )}
+          </div>
+        );
+      })}
+      {columns.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Usa el nombre de la columna, o entre corchetes si tiene espacios o puntos ([Ventas.Q1]). Operadores: + - * / % ^ &amp;, comparaciones y &amp;&amp; ||.
+          Funciones: {FUNCTION_NAMES.join(', ')}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState, type ReactNode, type UIEvent } from 'react';
+import type { SheetRow } from '@/lib/workbook';
+import { cn } from '@/lib/utils';
+
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 44;
+const GUTTER_WIDTH = 56;
+const MIN_COLUMN_WIDTH = 80;
+const MAX_COLUMN_WIDTH = 320;
+const CHAR_WIDTH = 8;
+const WIDTH_SAMPLE_ROWS = 50;
+const OVERSCAN_ROWS = 8;
+const OVERSCAN_COLUMNS = 2;
+
+type DataGridProps = {
+  headers: string[];
+  rows: SheetRow[];
+  /** Indices into `rows` to display, in order. Defaults to every row. */
+  rowOrder?: number[];
+  className?: string;
+  renderHeader?: (header: string, columnIndex: number) => ReactNode;
+  renderCell?: (row: SheetRow, header: string, rowIndex: number) => ReactNode;
+  cellClassName?: (rowIndex: number, header: string) => string | undefined;
+  cellTitle?: (rowIndex: number, header: string) => string | undefined;
+};
+
+/**
+ * Estimates a width per column from the header and a sample of rows, so
+ * column offsets are known up front without measuring the DOM.
+ */
+function estimateColumnWidths(headers: string[], rows: SheetRow[]): number[] {
+  const sample = rows.slice(0, WIDTH_SAMPLE_ROWS);
+  return headers.map(header => {
+    const longest = sample.reduce(
+      (max, row) => Math.max(max, String(row[header] ?? '').length),
+      header.length
+    );
+    return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest * CHAR_WIDTH + 16));
+  });
+}
+
+/** Index of the last offset that is <= `position`. */
+function findOffsetIndex(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Windowed grid that only mounts the rows and columns inside the viewport
+ * (plus a small overscan), with a sticky header and row-number gutter.
+ */
+export function DataGrid({ headers, rows, rowOrder, className, renderHeader, renderCell, cellClassName, cellTitle }: DataGridProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+  const columnWidths = useMemo(() => estimateColumnWidths(headers, rows), [headers, rows]);
+  const columnOffsets = useMemo(() => {
+    const offsets: number[] = [];
+    let offset = GUTTER_WIDTH;
+    for (const width of columnWidths) {
+      offsets.push(offset);
+      offset += width;
+    }
+    return offsets;
+  }, [columnWidths]);
+
+  const totalWidth = GUTTER_WIDTH + columnWidths.reduce((sum, width) => sum + width, 0);
+  const rowCount = rowOrder ? rowOrder.length : rows.length;
+  const totalHeight = HEADER_HEIGHT + rowCount * ROW_HEIGHT;
+
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    viewportRef.current?.scrollTo({ top: 0 });
+  }, [headers]);
+
+  const handleScroll = (e: UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollLeft } = e.currentTarget;
+    setScroll({ top: scrollTop, left: scrollLeft });
+  };
+
+  const firstRow = Math.max(0, Math.floor(scroll.top / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(
+    rowCount - 1,
+    Math.ceil((scroll.top + viewport.height) / ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+  const firstColumn = headers.length
+    ? Math.max(0, findOffsetIndex(columnOffsets, scroll.left + GUTTER_WIDTH) - OVERSCAN_COLUMNS)
+    : 0;
+  const lastColumn = headers.length
+    ? Math.min(headers.length - 1, findOffsetIndex(columnOffsets, scroll.left + viewport.width) + OVERSCAN_COLUMNS)
+    : -1;
+
+  const visibleColumns: number[] = [];
+  for (let C = firstColumn; C <= lastColumn; ++C) visibleColumns.push(C);
+
+  const visibleRows: number[] = [];
+  for (let R = firstRow; R <= lastRow; ++R) visibleRows.push(R);
+  const rowIndexAt = (position: number) => (rowOrder ? rowOrder[position] : position);
+
+  return (
+    <div
+      ref={viewportRef}
+      onScroll={handleScroll}
+      className={cn('relative h-[500px] w-full overflow-auto text-sm', className)}
+      role="grid"
+      aria-rowcount={rowCount + 1}
+      aria-colcount={headers.length}
+    >
+      <div className="relative" style={{ width: totalWidth, height: totalHeight }}>
+        <div className="sticky top-0 z-20 border-b bg-card" style={{ width: totalWidth, height: HEADER_HEIGHT }} role="row">
+          <div
+            className="sticky left-0 z-30 h-full bg-card border-r"
+            style={{ width: GUTTER_WIDTH }}
+          />
+          {visibleColumns.map(C => (
+            <div
+              key={C}
+              role="columnheader"
+              className="absolute top-0 flex h-full flex-col justify-center overflow-hidden px-2 font-bold text-muted-foreground whitespace-nowrap"
+              style={{ left: columnOffsets[C], width: columnWidths[C] }}
+              title={headers[C]}
+            >
+              {renderHeader ? renderHeader(headers[C], C) : <span className="truncate">{headers[C]}</span>}
+            </div>
+          ))}
+        </div>
+        {visibleRows.map(R => {
+          const rowIndex = rowIndexAt(R);
+          const row = rows[rowIndex];
+          return (
+            <div
+              key={R}
+              role="row"
+              aria-rowindex={R + 2}
+              className="absolute left-0 border-b transition-colors hover:bg-muted/50"
+              style={{ top: HEADER_HEIGHT + R * ROW_HEIGHT, height: ROW_HEIGHT, width: totalWidth }}
+            >
+              <div
+                className="sticky left-0 z-10 flex h-full items-center justify-end border-r bg-card px-2 font-mono text-xs text-muted-foreground"
+                style={{ width: GUTTER_WIDTH }}
+              >
+                {rowIndex + 1}
+              </div>
+              {visibleColumns.map(C => (
+                <div
+                  key={C}
+                  role="gridcell"
+                  className={cn(
+                    'absolute top-0 flex h-full items-center overflow-hidden px-2 whitespace-nowrap',
+                    cellClassName?.(rowIndex, headers[C])
+                  )}
+                  style={{ left: columnOffsets[C], width: columnWidths[C] }}
+                  title={cellTitle?.(rowIndex, headers[C])}
+                >
+                  {renderCell
+                    ? renderCell(row, headers[C], rowIndex)
+                    : <span className="truncate">{String(row[headers[C]] ?? '')}</span>}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  LOAD_MODE_LABELS,
+  type DatabaseLoad,
+  type DatabaseTarget,
+  type DatabaseTargetId,
+  type LoadMode,
+} from '@/lib/database-load';
+import { sqlTableName } from '@/lib/sql';
+
+type DatabaseLoadOptionsProps = {
+  /** Null when the rows are not loaded into a database. */
+  value: DatabaseLoad | null;
+  targets: DatabaseTarget[];
+  sheetCount: number;
+  sheetName: string;
+  /** Output columns, candidates for the upsert key. */
+  headers: string[];
+  disabled?: boolean;
+  onChange: (load: DatabaseLoad | null) => void;
+};
+
+const MODE_DESCRIPTIONS: Record<LoadMode, string> = {
+  create: 'Falla si la tabla ya existe.',
+  append: 'Crea la tabla si no existe y añade las filas.',
+  replace: 'Borra la tabla existente y la vuelve a crear.',
+  upsert: 'Actualiza las filas con la misma clave e inserta las nuevas.',
+};
+
+/**
+ * Loading of the processed rows into one of the server's databases: the
+ * target, the table and how existing tables are treated. Every sheet is
+ * loaded in one transaction, so a failure leaves the database unchanged.
+ */
+export function DatabaseLoadOptions({
+  value,
+  targets,
+  sheetCount,
+  sheetName,
+  headers,
+  disabled,
+  onChange,
+}: DatabaseLoadOptionsProps) {
+  const update = (change: Partial<DatabaseLoad>) => value && onChange({ ...value, ...change });
+
+  const toggleEnabled = (enabled: boolean) => {
+    onChange(enabled ? { target: targets[0].id, mode: 'append', upsertKeys: [], batchSize: 500 } : null);
+  };
+
+  const toggleUpsertKey = (header: string, checked: boolean) => {
+    if (!value) return;
+    update({
+      upsertKeys: checked ? headers.filter(h => h === header || value.upsertKeys.includes(h)) : value.upsertKeys.filter(key => key !== header),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="database-load"
+          checked={!!value}
+          onCheckedChange={toggleEnabled}
+          disabled={disabled || !targets.length}
+        />
+        <Label htmlFor="database-load">Cargar también en una base de datos</Label>
+      </div>
+      {!targets.length && (
+        <p className="text-xs text-muted-foreground">El servidor no tiene bases de datos configuradas.</p>
+      )}
+      {value && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="database-load-target">Base de datos</Label>
+              <Select
+                value={value.target}
+                onValueChange={(target) => update({ target: target as DatabaseTargetId })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="database-load-target" className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map(target => (
+                    <SelectItem key={target.id} value={target.id}>{target.label} · {target.location}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="database-load-table">Tabla</Label>
+              <Input
+                id="database-load-table"
+                className="w-48"
+                placeholder={sheetCount > 1 ? 'Nombre de cada hoja' : sqlTableName({}, sheetName, 1, value.target)}
+                value={value.tableName ?? ''}
+                maxLength={60}
+                onChange={(e) => update({ tableName: e.target.value || undefined })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="database-load-mode">Si la tabla existe</Label>
+              <Select
+                value={value.mode}
+                onValueChange={(mode) => update({ mode: mode as LoadMode })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="database-load-mode" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LOAD_MODE_LABELS) as LoadMode[]).map(mode => (
+                    <SelectItem key={mode} value={mode}>{LOAD_MODE_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="database-load-batch">Filas por lote</Label>
+              <Input
+                id="database-load-batch"
+                type="number"
+                className="w-28"
+                min={1}
+                max={10000}
+                value={value.batchSize}
+                onChange={(e) => update({ batchSize: Math.min(10000, Math.max(1, Math.round(Number(e.target.value) || 1))) })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{MODE_DESCRIPTIONS[value.mode]}</p>
+          {value.mode === 'upsert' && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Columnas clave</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {headers.map((header, index) => (
+                  <div key={header} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`database-load-key-${index}`}
+                      checked={value.upsertKeys.includes(header)}
+                      onCheckedChange={(checked) => toggleUpsertKey(header, checked === true)}
+                      disabled={disabled}
+                    />
+                    <Label htmlFor={`database-load-key-${index}`} className="font-normal">{header}</Label>
+                  </div>
+                ))}
+              </div>
+              {!value.upsertKeys.length && (
+                <p className="text-xs text-destructive">Elige al menos una columna clave para el upsert.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
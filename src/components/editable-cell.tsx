@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+
+type EditableCellProps = {
+  value: any;
+  editing: boolean;
+  disabled?: boolean;
+  children: ReactNode;
+  onStartEdit: () => void;
+  onCommit: (text: string) => void;
+  onCancel: () => void;
+};
+
+type CellEditorProps = {
+  initialText: string;
+  onCommit: (text: string) => void;
+  onCancel: () => void;
+};
+
+function CellEditor({ initialText, onCommit, onCancel }: CellEditorProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState(initialText);
+  // Enter/Escape unmount the input, which may also fire blur; finish once.
+  const finishedRef = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const finish = (commit: boolean) => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    if (commit) onCommit(draft);
+    else onCancel();
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => finish(true)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          finish(true);
+        } else if (e.key === 'Escape') {
+          e.preventDefault();
+          finish(false);
+        }
+      }}
+      className="h-full w-full rounded-sm border border-primary bg-background px-1 outline-none"
+    />
+  );
+}
+
+/**
+ * Grid cell that switches to a text input on double-click, Enter or F2.
+ * Enter or blur commits, Escape cancels.
+ */
+export function EditableCell({ value, editing, disabled, children, onStartEdit, onCommit, onCancel }: EditableCellProps) {
+  if (editing) {
+    return <CellEditor initialText={String(value ?? '')} onCommit={onCommit} onCancel={onCancel} />;
+  }
+
+  return (
+    <div
+      className="flex h-full w-full min-w-0 items-center outline-none focus-visible:ring-1 focus-visible:ring-ring"
+      tabIndex={disabled ? undefined : 0}
+      onDoubleClick={disabled ? undefined : onStartEdit}
+      onKeyDown={(e) => {
+        if (!disabled && (e.key === 'Enter' || e.key === 'F2')) {
+          e.preventDefault();
+          onStartEdit();
+        }
+      }}
+    >
+      {children}
+    </div>
+  );
+}
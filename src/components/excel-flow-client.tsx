@@ -1,29 +1,123 @@
 'use client';
 
-import { useState, useCallback, useEffect, useRef, type DragEvent } from 'react';
-import * as XLSX from 'xlsx';
+import { useState, useCallback, useDeferredValue, useEffect, useMemo, useRef, type DragEvent } from 'react';
+import { writeFile } from 'xlsx';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
-import { UploadCloud, File, Loader2, CheckCircle2, History, XCircle, FileSpreadsheet } from 'lucide-react';
-import { ScrollArea } from '@/components/ui/scroll-area';
+import { UploadCloud, File, Loader2, CheckCircle2, XCircle, FileSpreadsheet, Search, Undo2, Redo2, Download, GitCompare, Trash2 } from 'lucide-react';
+import { PreviewGrid, type EditingCell } from '@/components/preview-grid';
+import { HeaderRowOptions } from '@/components/header-row-options';
+import { ExportSheetsPicker } from '@/components/export-sheets-picker';
+import { ValidationSummary } from '@/components/validation-summary';
+import { ColumnMappingStep } from '@/components/column-mapping-step';
+import { JobStatusPanel } from '@/components/job-status-panel';
+import { LogsPanel } from '@/components/logs-panel';
+import { ComputedColumnsEditor } from '@/components/computed-columns-editor';
+import { ImportHistorySidebar } from '@/components/import-history-sidebar';
+import { BatchView } from '@/components/batch-view';
+import { ImportSchemaSelect, NO_SCHEMA } from '@/components/import-schema-select';
+import { MergeSummary } from '@/components/merge-summary';
+import { LookupPanel } from '@/components/lookup-panel';
+import { CompareView } from '@/components/compare-view';
+import { OutputFormatOptions } from '@/components/output-format-options';
+import { DatabaseLoadOptions } from '@/components/database-load-options';
+import { SchemaExportPanel } from '@/components/schema-export-panel';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { cn } from '@/lib/utils';
+import {
+  applyRowQuery,
+  isRowQueryActive,
+  setColumnFilter,
+  toggleSort,
+  EMPTY_ROW_QUERY,
+  type ColumnFilter,
+  type RowQuery,
+} from '@/lib/row-query';
+import {
+  applyChanges,
+  canRedo,
+  canUndo,
+  coerceEditedValue,
+  collectChanges,
+  countChanges,
+  dropSheetEdits,
+  pushEdit,
+  redoEdit,
+  undoEdit,
+  EMPTY_EDIT_HISTORY,
+  type EditHistory,
+} from '@/lib/cell-edits';
+import {
+  IMPORT_SCHEMAS,
+  deleteSavedSchema,
+  loadSavedSchemas,
+  mapIssueHeaders,
+  restrictIssuesToRows,
+  saveImportSchema,
+  schemaStep,
+  validateRows,
+  type ImportSchema,
+} from '@/lib/import-schemas';
+import {
+  adaptProfileMapping,
+  applyMapping,
+  findDuplicateTargets,
+  findMatchingProfile,
+  loadMappingProfiles,
+  mappedHeaders,
+  targetToSource,
+} from '@/lib/column-mapping';
+import { buildValidationReport } from '@/lib/validation-report';
+import { DEFAULT_OUTPUT_OPTIONS, NESTABLE_FORMATS, outputFileName, type OutputOptions } from '@/lib/output-formats';
+import { findPathConflicts } from '@/lib/nested-json';
+import type { DatabaseLoad, DatabaseTarget } from '@/lib/database-load';
+import { createLogEntry, type LogDetails, type LogEntry, type LogLevel } from '@/lib/logs';
+import { applyComputedColumns, type ComputedColumn } from '@/lib/expressions';
+import {
+  findOutputArtifact,
+  isTerminalStatus,
+  type JobStatus,
+  type ProcessingOptions,
+} from '@/lib/processing';
+import { buildProcessingInput, downloadArtifact, fetchDatabaseTargets } from '@/lib/processing-client';
+import {
+  collectDroppedFiles,
+  groupCompatibleItems,
+  isSpreadsheetFile,
+  type BatchItem,
+  type DroppedFile,
+} from '@/lib/batch';
+import { useWorkbookWorker, isWorkbookCancelled, WorkbookWorkerError } from '@/hooks/use-workbook-worker';
+import { useProcessingJob } from '@/hooks/use-processing-job';
+import { useJobHistory } from '@/hooks/use-job-history';
+import { useBatchProcessing } from '@/hooks/use-batch-processing';
+import { useReferenceLookup } from '@/hooks/use-reference-lookup';
+import { useSheetMerge } from '@/hooks/use-sheet-merge';
+import { useColumnMapping } from '@/hooks/use-column-mapping';
+import { DEFAULT_MERGE_OPTIONS, MERGED_SHEET_NAME } from '@/lib/merge';
+import { loadImportFile, type ImportRecord } from '@/lib/import-history';
+import {
+  type ParseOptions,
+  type ParsedSheet,
+  type ValueMode,
+} from '@/lib/workbook';
+
+type Status = 'idle' | 'uploading' | 'batch' | 'compare' | 'preview' | 'mapping' | 'processing' | 'completed' | 'error';
+type OutputScope = 'all' | 'view';
 
-type Status = 'idle' | 'uploading' | 'preview' | 'processing' | 'completed' | 'error';
-type LogEntry = {
-  timestamp: string;
-  message: string;
-  type: 'info' | 'error';
-};
 
-const ACCEPTED_FILE_TYPES = [
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
-  'application/vnd.ms-excel', // .xls
-  'text/csv', // .csv
-];
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
 export function ExcelFlowClient() {
   const [status, setStatus] = useState<Status>('idle');
@@ -35,21 +129,126 @@ export function ExcelFlowClient() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [sheetHeaders, setSheetHeaders] = useState<string[]>([]);
   const [jsonData, setJsonData] = useState<any[]>([]);
+  const [sheets, setSheets] = useState<ParsedSheet[]>([]);
+  const [activeSheetName, setActiveSheetName] = useState<string>('');
+  const [exportSheetNames, setExportSheetNames] = useState<string[]>([]);
+  const [valueMode, setValueMode] = useState<ValueMode>('typed');
+  const [progressDetail, setProgressDetail] = useState('');
+  const [rowQuery, setRowQuery] = useState<RowQuery>(EMPTY_ROW_QUERY);
+  const [outputScope, setOutputScope] = useState<OutputScope | null>(null);
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_EDIT_HISTORY);
+  const [schemaId, setSchemaId] = useState<string>(NO_SCHEMA);
+  const [savedSchemas, setSavedSchemas] = useState<ImportSchema[]>([]);
+  const [outputOptions, setOutputOptions] = useState<OutputOptions>(DEFAULT_OUTPUT_OPTIONS);
+  const [databaseLoad, setDatabaseLoad] = useState<DatabaseLoad | null>(null);
+  const [databaseTargets, setDatabaseTargets] = useState<DatabaseTarget[]>([]);
+  const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+  const [computedColumns, setComputedColumns] = useState<ComputedColumn[]>([]);
+  const { parse: parseWithWorker, reparse: reparseWithWorker, cancel: cancelWorker } = useWorkbookWorker();
+  const { job, resumed: jobResumed, submit: submitJob, cancel: cancelJob, clear: clearJob } = useProcessingJob();
+
+  const addLog = useCallback((message: string, level: LogLevel = 'info', details?: LogDetails) => {
+    setLogs((prev) => [createLogEntry(level, message, details), ...prev]);
+  }, []);
+  const { records: importHistory, record: recordImport, remove: removeImportRecord } = useJobHistory(job, addLog);
+  const availableSchemas = useMemo(() => [...IMPORT_SCHEMAS, ...savedSchemas], [savedSchemas]);
+  const activeSchema = availableSchemas.find(schema => schema.id === schemaId);
+  const activeSavedSchema = savedSchemas.find(schema => schema.id === schemaId);
+  const batch = useBatchProcessing({ valueMode, schema: activeSchema, output: outputOptions }, recordImport, addLog);
+  const activeChanges = useMemo(
+    () => collectChanges(editHistory, activeSheetName, jsonData),
+    [editHistory, activeSheetName, jsonData]
+  );
+  const editedRows = useMemo(() => applyChanges(jsonData, activeChanges), [jsonData, activeChanges]);
+  const {
+    reference,
+    referenceSheet,
+    loading: referenceLoading,
+    config: lookupConfig,
+    setConfig: setLookupConfig,
+    result: lookup,
+    rows: lookupRows,
+    headers: lookupHeaders,
+    load: handleLoadReference,
+    changeSheet: handleReferenceSheetChange,
+    remove: handleRemoveReference,
+    clear: clearReference,
+  } = useReferenceLookup(editedRows, sheetHeaders, valueMode, addLog);
 
-  const addLog = useCallback((message: string, type: 'info' | 'error' = 'info') => {
-    const timestamp = new Date().toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
-    setLogs((prev) => [{ timestamp, message, type }, ...prev]);
+  const resetRowQuery = useCallback(() => {
+    setRowQuery(EMPTY_ROW_QUERY);
+    setOutputScope(null);
   }, []);
 
-  const handleFileSelect = useCallback((selectedFile: File | undefined | null) => {
-    if (!selectedFile) return;
+  useEffect(() => {
+    setSavedSchemas(loadSavedSchemas());
+    void fetchDatabaseTargets().then(setDatabaseTargets);
+  }, []);
+
+  const {
+    mapping: columnMapping,
+    setMapping: setColumnMapping,
+    profiles: mappingProfiles,
+    activeProfileId,
+    autoApply: autoApplyMappingProfile,
+    reset: resetColumnMapping,
+    extend: extendColumnMapping,
+    saveProfile,
+    applyProfile,
+    deleteProfile: handleDeleteMappingProfile,
+  } = useColumnMapping(addLog);
+
+  // The combined sheet replaces the preview; edits and steps start over.
+  const { merge, show: showMerge, changeOptions: handleMergeOptionsChange, undo: handleUndoMerge, clear: clearMerge } = useSheetMerge(valueMode, {
+    onShow: (sheet) => {
+      clearJob();
+      setFile(null);
+      setSheets([sheet]);
+      setActiveSheetName(sheet.name);
+      setExportSheetNames([sheet.name]);
+      setSheetHeaders(sheet.headers);
+      setJsonData(sheet.rows);
+      resetRowQuery();
+      setEditHistory(EMPTY_EDIT_HISTORY);
+      setEditingCell(null);
+      setComputedColumns([]);
+      resetColumnMapping();
+      setStatus('preview');
+    },
+    onRestore: (previous) => {
+      const sheet = previous.sheets.find(s => s.name === previous.activeSheetName);
+      setFile(previous.file);
+      setSheets(previous.sheets);
+      setActiveSheetName(previous.activeSheetName);
+      setExportSheetNames(previous.exportSheetNames);
+      setEditHistory(previous.editHistory);
+      setSheetHeaders(sheet?.headers ?? []);
+      setJsonData(sheet?.rows ?? []);
+      resetRowQuery();
+      setEditingCell(null);
+      setComputedColumns([]);
+      if (sheet) autoApplyMappingProfile(sheet.headers);
+    },
+  }, addLog);
+
+  // Reparses the sheets whose header options differ from those stored with a past import.
+  const restoreParseOptions = useCallback(async (parsed: ParsedSheet[], options: ImportRecord['options']) => {
+    const changed = parsed.filter(sheet => {
+      const stored = options.parseOptions[sheet.name];
+      return stored && (stored.headerRow !== sheet.headerRow || stored.headerRowCount !== sheet.headerRowCount);
+    });
+    if (!changed.length) return parsed;
+    const reparsed = await reparseWithWorker(changed.map(sheet => ({
+      name: sheet.name,
+      options: { ...options.parseOptions[sheet.name], valueMode: options.valueMode },
+    })));
+    return parsed.map(sheet => reparsed.find(r => r.name === sheet.name) ?? sheet);
+  }, [reparseWithWorker]);
 
-    const isAccepted = ACCEPTED_FILE_TYPES.some(type => selectedFile.type.startsWith(type)) ||
-      selectedFile.name.endsWith('.xlsx') ||
-      selectedFile.name.endsWith('.xls') ||
-      selectedFile.name.endsWith('.csv');
+  const handleFileSelect = useCallback(async (selectedFile: File | undefined | null, restore?: ImportRecord) => {
+    if (!selectedFile) return;
 
-    if (!isAccepted) {
+    if (!isSpreadsheetFile(selectedFile)) {
       const errorMsg = `Tipo de archivo inválido: ${selectedFile.name}. Por favor, sube un archivo .xlsx, .xls o .csv.`;
       addLog(errorMsg, 'error');
       toast({
@@ -61,167 +260,500 @@ export function ExcelFlowClient() {
       return;
     }
 
-    addLog(`Archivo seleccionado: "${selectedFile.name}"`);
+    addLog(`Archivo seleccionado: "${selectedFile.name}"`, 'info', {
+      step: 'upload',
+      context: { file: selectedFile.name, bytes: selectedFile.size, type: selectedFile.type },
+    });
+    clearJob();
     setFile(selectedFile);
     setProgress(0);
+    setProgressDetail('');
     setSheetHeaders([]);
     setJsonData([]);
+    setSheets([]);
+    setActiveSheetName('');
+    setExportSheetNames([]);
+    resetRowQuery();
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    setEditingCell(null);
+    setComputedColumns([]);
+    clearMerge();
+    clearReference();
+    setStatus('uploading');
+    const mode = restore?.options.valueMode ?? valueMode;
+    setValueMode(mode);
+    if (restore) {
+      setOutputOptions(restore.options.output);
+      setDatabaseLoad(restore.options.load ?? null);
+    }
+    addLog('Iniciando la carga del archivo...', 'debug', { step: 'upload', context: { valueMode: mode } });
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        try {
-            const data = e.target?.result;
-            if (!data) {
-                throw new Error("No se pudo leer el archivo.");
-            }
-            const workbook = XLSX.read(data, { type: 'array' });
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-
-            // Manual parsing to handle complex headers and ensure all columns are included
-            const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1');
-            const headers: string[] = [];
-            for (let C = range.s.c; C <= range.e.c; ++C) {
-                const cell_address = { c: C, r: range.s.r };
-                const cell_ref = XLSX.utils.encode_cell(cell_address);
-                const cell = worksheet[cell_ref];
-                headers[C] = cell ? XLSX.utils.format_cell(cell) : `Columna ${C + 1}`;
-            }
-
-            // Using sheet_to_json with header: 1 to get array of arrays
-            const dataAsArray: any[][] = XLSX.utils.sheet_to_json(worksheet, {
-                header: 1,
-                defval: '',
-                blankrows: true, 
-                raw: false, // Get formatted text for dates
-            });
-
-            if (dataAsArray.length > 1) {
-                 const rows = dataAsArray.slice(1).map(rowArray => {
-                    const rowData: { [key: string]: any } = {};
-                    headers.forEach((header, index) => {
-                       rowData[header] = rowArray[index] ?? '';
-                    });
-                    return rowData;
-                });
-                
-                setSheetHeaders(headers);
-                setJsonData(rows);
-                addLog('Datos del archivo analizados con éxito. Mostrando todos los datos de la hoja.');
-
-            } else {
-                addLog('El archivo seleccionado está vacío o no tiene datos.', 'error');
-                toast({
-                    title: 'Archivo Vacío',
-                    description: 'El archivo de Excel o CSV seleccionado parece estar vacío.',
-                    variant: 'destructive',
-                });
-                setStatus('error');
-            }
-        } catch (error) {
-            const errorMsg = 'No se pudo analizar el archivo. Podría estar corrupto o en un formato no compatible.';
-            addLog(errorMsg, 'error');
-            toast({
-                title: 'Error al Analizar el Archivo',
-                description: errorMsg,
-                variant: 'destructive',
-            });
-            setStatus('error');
+    try {
+      let parsedSheets = await parseWithWorker(selectedFile, { valueMode: mode }, ({ phase, loaded, total }) => {
+        const ratio = total > 0 ? Math.min(loaded / total, 1) : 1;
+        if (phase === 'read') {
+          setProgress(Math.round(ratio * 50));
+          setProgressDetail(`Leyendo ${formatBytes(loaded)} de ${formatBytes(total)}`);
+        } else {
+          setProgress(50 + Math.round(ratio * 50));
+          setProgressDetail(`Analizando ${loaded.toLocaleString('es-ES')} de ${total.toLocaleString('es-ES')} filas`);
         }
-    };
-    reader.onerror = () => {
+      });
+      if (restore) parsedSheets = await restoreParseOptions(parsedSheets, restore.options);
+      const firstSheetWithData =
+        parsedSheets.find(sheet => sheet.name === restore?.sheetName && sheet.rowCount > 0) ??
+        parsedSheets.find(sheet => sheet.rowCount > 0);
+
+      if (firstSheetWithData) {
+        const restoredExports = parsedSheets.map(sheet => sheet.name).filter(name => restore?.sheetNames.includes(name));
+        const restoredSteps = restore?.options.steps[firstSheetWithData.name];
+        setSheets(parsedSheets);
+        setActiveSheetName(firstSheetWithData.name);
+        setExportSheetNames(restoredExports.length ? restoredExports : [firstSheetWithData.name]);
+        setSheetHeaders(firstSheetWithData.headers);
+        setJsonData(firstSheetWithData.rows);
+        if (restoredSteps) {
+          setComputedColumns(restoredSteps.computedColumns ?? []);
+          // A saved schema deleted since this import comes back with it.
+          const restoredSchema = restoredSteps.schema;
+          if (restoredSchema && !loadSavedSchemas().some(schema => schema.id === restoredSchema.id)) {
+            const schemas = saveImportSchema(restoredSchema);
+            setSavedSchemas(schemas);
+            setSchemaId(schemas.find(schema => schema.name === restoredSchema.name)?.id ?? NO_SCHEMA);
+          } else {
+            setSchemaId(restoredSteps.schemaId ?? NO_SCHEMA);
+          }
+          resetColumnMapping(restoredSteps.mapping ?? null);
+        } else {
+          autoApplyMappingProfile(firstSheetWithData.headers);
+        }
+        setProgress(100);
+        addLog(`Datos del archivo analizados con éxito. Se encontraron ${parsedSheets.length} hoja(s); mostrando "${firstSheetWithData.name}".`, 'info', {
+          step: 'parse',
+          context: { sheets: parsedSheets.map(sheet => ({ name: sheet.name, rows: sheet.rowCount, columns: sheet.columnCount })) },
+        });
+        setStatus('preview');
+        addLog(restore
+          ? `"${selectedFile.name}" reabierto desde el historial con las opciones del ${new Date(restore.createdAt).toLocaleString('es-ES')}.`
+          : `"${selectedFile.name}" subido con éxito. Listo para previsualizar.`);
+      } else {
+        addLog('El archivo seleccionado está vacío o no tiene datos.', 'error', { step: 'parse' });
+        toast({
+          title: 'Archivo Vacío',
+          description: 'El archivo de Excel o CSV seleccionado parece estar vacío.',
+          variant: 'destructive',
+        });
+        setStatus('error');
+      }
+    } catch (error) {
+      if (isWorkbookCancelled(error)) {
+        return;
+      }
+      if (error instanceof WorkbookWorkerError && error.phase === 'read') {
         const errorMsg = 'Ocurrió un error al leer el archivo.';
         addLog(errorMsg, 'error');
         toast({
-            title: 'Error al Leer el Archivo',
-            description: errorMsg,
-            variant: 'destructive',
+          title: 'Error al Leer el Archivo',
+          description: errorMsg,
+          variant: 'destructive',
         });
-        setStatus('error');
-    };
-    reader.readAsArrayBuffer(selectedFile);
-
-    setStatus('uploading');
-  }, [addLog, toast]);
-
-  useEffect(() => {
-    if (status === 'uploading' && file) {
-      addLog('Iniciando la carga del archivo...');
-      const interval = setInterval(() => {
-        setProgress((prev) => {
-          if (prev >= 100) {
-            clearInterval(interval);
-            setStatus('preview');
-            addLog(`"${file.name}" subido con éxito. Listo para previsualizar.`);
-            return 100;
-          }
-          return prev + 10;
+      } else {
+        const errorMsg = 'No se pudo analizar el archivo. Podría estar corrupto o en un formato no compatible.';
+        addLog(errorMsg, 'error');
+        toast({
+          title: 'Error al Analizar el Archivo',
+          description: errorMsg,
+          variant: 'destructive',
         });
-      }, 150);
-      return () => clearInterval(interval);
+      }
+      setStatus('error');
     }
-  }, [status, file, addLog]);
+  }, [addLog, toast, valueMode, parseWithWorker, resetRowQuery, autoApplyMappingProfile, resetColumnMapping, clearJob, clearMerge, clearReference, restoreParseOptions]);
+
+  const handleCancelUpload = () => {
+    cancelWorker();
+    addLog(`Carga de "${file?.name}" cancelada por el usuario.`, 'warn', { step: 'upload' });
+    setStatus('idle');
+    setFile(null);
+    setProgress(0);
+    setProgressDetail('');
+  };
 
-  const simulateBackendProcessing = async (dataToProcess: any[]): Promise<boolean> => {
-    addLog('Los datos ya están estructurados. Preparando para la descarga...', 'info');
+  const handleSheetChange = (sheetName: string) => {
+    const sheet = sheets.find(s => s.name === sheetName);
+    if (!sheet) return;
+    setActiveSheetName(sheet.name);
+    setSheetHeaders(sheet.headers);
+    setJsonData(sheet.rows);
+    resetRowQuery();
+    setEditingCell(null);
+    setComputedColumns([]);
+    autoApplyMappingProfile(sheet.headers);
+    addLog(`Mostrando la hoja "${sheet.name}" (${sheet.rowCount} filas, ${sheet.columnCount} columnas).`, 'info', { step: 'preview' });
+  };
 
+  const handleHeaderOptionsChange = async (options: ParseOptions) => {
+    if (!activeSheetName) return;
     try {
-        const jsonString = JSON.stringify(dataToProcess, null, 2);
-        const blob = new Blob([jsonString], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = 'processed_data.json';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        addLog('Se generó y descargó processed_data.json con éxito.', 'info');
-        return true;
+      const [sheet] = await reparseWithWorker([{ name: activeSheetName, options: { ...options, valueMode } }]);
+      setSheets(prev => prev.map(s => (s.name === sheet.name ? sheet : s)));
+      setSheetHeaders(sheet.headers);
+      setJsonData(sheet.rows);
+      resetRowQuery();
+      setEditHistory(prev => dropSheetEdits(prev, sheet.name));
+      autoApplyMappingProfile(sheet.headers);
+      addLog(`Encabezado de "${sheet.name}" en la fila ${sheet.headerRow + 1} (${sheet.headerRowCount} fila(s) de encabezado).`, 'info', {
+        step: 'parse',
+        context: { sheet: sheet.name, headerRow: sheet.headerRow, headerRowCount: sheet.headerRowCount },
+      });
     } catch (error) {
-        addLog('No se pudo generar el archivo JSON.', 'error');
-        return false;
+      if (!isWorkbookCancelled(error)) {
+        addLog('No se pudo volver a analizar la hoja con el nuevo encabezado.', 'error');
+      }
     }
   };
 
+  const handleValueModeChange = async (keepFormatted: boolean) => {
+    const nextMode: ValueMode = keepFormatted ? 'formatted' : 'typed';
+    setValueMode(nextMode);
+    if (!sheets.length) return;
+    try {
+      const reparsed = await reparseWithWorker(sheets.map(sheet => ({
+        name: sheet.name,
+        options: { headerRow: sheet.headerRow, headerRowCount: sheet.headerRowCount, valueMode: nextMode },
+      })));
+      setSheets(reparsed);
+      setEditHistory(EMPTY_EDIT_HISTORY);
+      const current = reparsed.find(sheet => sheet.name === activeSheetName);
+      if (current) {
+        setSheetHeaders(current.headers);
+        setJsonData(current.rows);
+      }
+      addLog(nextMode === 'typed'
+        ? 'Valores tipados activados: números, booleanos, fechas ISO-8601 y nulos.'
+        : 'Se mantendrá el texto con formato de Excel en los valores.');
+    } catch (error) {
+      if (!isWorkbookCancelled(error)) {
+        addLog('No se pudieron volver a analizar las hojas.', 'error');
+      }
+    }
+  };
+
+  const handleSort = (header: string, additive: boolean) => {
+    setRowQuery(prev => ({ ...prev, sort: toggleSort(prev.sort, header, additive) }));
+  };
+
+  const handleFilterChange = (header: string, filter: ColumnFilter | undefined) => {
+    setRowQuery(prev => ({ ...prev, filters: setColumnFilter(prev.filters, header, filter) }));
+  };
+
   const handleProcess = async () => {
-    if (!jsonData.length) {
-        toast({
-            title: 'No Hay Datos para Procesar',
-            description: 'No hay datos para procesar. Por favor, sube un archivo válido.',
-            variant: 'destructive',
-        });
-        return;
+    if (!jsonData.length || !exportSheetNames.length) {
+      toast({
+        title: 'No Hay Datos para Procesar',
+        description: 'No hay datos para procesar. Por favor, sube un archivo válido.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (blockedByValidation) {
+      toast({
+        title: 'Datos No Válidos',
+        description: `Hay ${validation?.errorCount} error(es) de validación. Corrígelos antes de procesar.`,
+        variant: 'destructive',
+      });
+      addLog(`Procesamiento bloqueado: ${validation?.errorCount} error(es) de validación en "${activeSheetName}".`, 'error', {
+        step: 'validation',
+        context: { sheet: activeSheetName, errors: validation?.errorCount, warnings: validation?.warningCount },
+      });
+      return;
     }
 
     setStatus('processing');
-    addLog('Procesamiento de datos iniciado...', 'info');
+    addLog(`Procesamiento de datos iniciado para ${exportSheetNames.length} hoja(s): ${exportSheetNames.join(', ')}.`, 'info', { step: 'process' });
+
+    // Reference columns and the join's row selection are applied here; computed columns on the server.
+    const rowIndices = queryActive && outputScope === 'view' ? visibleRowIndices : lookup?.keptRows;
+    const { input, rowCounts } = buildProcessingInput(file, sheets, exportSheetNames, editHistory, {
+      name: activeSheetName,
+      headers: lookupHeaders,
+      rows: rowIndices ? rowIndices.map(index => lookupRows[index]) : lookupActive ? lookupRows : undefined,
+    });
+    const options: ProcessingOptions = {
+      sheetNames: exportSheetNames,
+      valueMode,
+      parseOptions: Object.fromEntries(sheets.map(sheet => [
+        sheet.name,
+        { headerRow: sheet.headerRow, headerRowCount: sheet.headerRowCount },
+      ])),
+      steps: {
+        [activeSheetName]: {
+          computedColumns: computedColumns.filter(column => !computed.errors[column.name]),
+          ...schemaStep(activeSchema),
+          mapping: columnMapping ?? undefined,
+        },
+      },
+      output: outputOptions,
+      load: databaseLoad ?? undefined,
+    };
+    if (totalChangeCount > 0) {
+      addLog(`Se enviarán ${totalChangeCount} celda(s) editada(s) en la previsualización.`);
+    }
+    if (lookupActive && referenceSheet) {
+      addLog(`Cruce con "${reference?.fileName}" (${referenceSheet.name}): ${lookup.matchedCount} fila(s) con coincidencia, ${lookup.unmatchedCount} sin coincidencia.`, 'info', {
+        step: 'lookup',
+        context: { ...lookupConfig, keptRows: lookup.keptRows?.length ?? lookupRows.length },
+      });
+    }
+    if (queryActive && outputScope === 'view') {
+      addLog(`Se procesará la vista filtrada de "${activeSheetName}": ${visibleRowIndices.length} de ${jsonData.length} filas.`);
+    }
 
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    const success = await simulateBackendProcessing(jsonData);
+    addLog('file' in input
+      ? `Enviando "${input.file.name}" al servidor...`
+      : 'Enviando los datos analizados al servidor...', 'info', { step: 'process' });
+    addLog('Opciones de procesamiento.', 'debug', { step: 'process', context: options });
 
-    if (success) {
+    try {
+      const queued = await submitJob(input, options);
+      addLog(`Trabajo ${queued.id} en cola en el servidor.`, 'info', { step: 'process', context: { jobId: queued.id } });
+      if (file) {
+        recordImport(queued, file, options, {
+          sheetName: activeSheetName,
+          rowCounts,
+          sentRows: 'sheets' in input,
+          logs: logs.filter(entry => !entry.context?.jobId).reverse(),
+        });
+      }
+    } catch (error) {
+      setStatus('error');
+      const message = error instanceof Error ? error.message : 'No se pudo contactar con el servidor.';
+      toast({
+        title: 'Falló el Procesamiento',
+        description: message,
+        variant: 'destructive',
+      });
+      addLog(`Falló el procesamiento de datos: ${message}`, 'error', { step: 'process' });
+    }
+  };
+
+  const handleCancelJob = async () => {
+    try {
+      await cancelJob();
+    } catch (error) {
+      addLog('No se pudo cancelar el trabajo.', 'error');
+    }
+  };
+
+  // Drives the UI from the job's server-side status and mirrors its logs.
+  const hasSheets = sheets.length > 0;
+  const jobProgressRef = useRef<{ jobId?: string; logCount: number; status?: JobStatus }>({ logCount: 0 });
+  useEffect(() => {
+    if (!job) return;
+    const seen = jobProgressRef.current.jobId === job.id ? jobProgressRef.current : { logCount: 0 };
+    const serverEntries = job.logs.slice(seen.logCount).map(entry => ({ ...entry, context: { ...entry.context, jobId: job.id } }));
+    if (serverEntries.length) setLogs(prev => [...serverEntries.reverse(), ...prev]);
+    const changed = seen.status !== job.status;
+    jobProgressRef.current = { jobId: job.id, logCount: job.logs.length, status: job.status };
+    if (!changed) return;
+
+    // Only react to transitions seen live; a resumed job just shows its state.
+    const live = seen.status !== undefined && !isTerminalStatus(seen.status);
+    switch (job.status) {
+      case 'queued':
+      case 'running':
+        setStatus('processing');
+        break;
+      case 'succeeded': {
         setStatus('completed');
-        addLog('Procesamiento de datos completado con éxito.', 'info');
-    } else {
+        const output = findOutputArtifact(job);
+        if (live && output) {
+          downloadArtifact(output);
+          addLog(`Se descargó ${output.name}.`);
+        }
+        break;
+      }
+      case 'failed':
         setStatus('error');
-        toast({
+        if (live) {
+          toast({
             title: 'Falló el Procesamiento',
-            description: 'No se pudo procesar y generar el archivo JSON.',
+            description: job.error,
             variant: 'destructive',
-        });
-        addLog('Falló el procesamiento de datos.', 'error');
+          });
+        }
+        break;
+      case 'cancelled':
+        setStatus(jobResumed || !hasSheets ? 'error' : 'preview');
+        break;
     }
-  };
+  }, [job, jobResumed, hasSheets, addLog, toast]);
 
   const handleReset = () => {
     setStatus('idle');
     setFile(null);
     setProgress(0);
-    setLogs([]);
     setSheetHeaders([]);
     setJsonData([]);
+    setSheets([]);
+    setActiveSheetName('');
+    setExportSheetNames([]);
+    setProgressDetail('');
+    resetRowQuery();
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    setEditingCell(null);
+    resetColumnMapping();
+    setComputedColumns([]);
+    batch.clear();
+    clearMerge();
+    clearReference();
+    clearJob();
+    cancelWorker();
+  };
+
+  const handleReopenImport = async (record: ImportRecord) => {
+    const stored = await loadImportFile(record).catch(() => null);
+    if (!stored) {
+      toast({
+        title: 'Archivo No Disponible',
+        description: `El archivo "${record.fileName}" ya no está guardado en este navegador.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    setLogs([...record.logs].reverse());
+    handleFileSelect(stored, record);
+  };
+
+  // Processes a past import again from its stored file and options, without loading the preview.
+  const handleRerunImport = async (record: ImportRecord) => {
+    const stored = await loadImportFile(record).catch(() => null);
+    if (!stored) {
+      toast({
+        title: 'Archivo No Disponible',
+        description: `El archivo "${record.fileName}" ya no está guardado en este navegador.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    handleReset();
+    setFile(stored);
+    setStatus('processing');
+    addLog(`Volviendo a procesar "${record.fileName}" con las opciones del ${new Date(record.createdAt).toLocaleString('es-ES')}.`, 'info', {
+      step: 'process',
+      context: { previousJobId: record.id },
+    });
+    if (record.sentRows) {
+      addLog('La importación original envió celdas editadas; se procesará el archivo original sin esos cambios.', 'warn', { step: 'process' });
+    }
+    try {
+      const queued = await submitJob({ file: stored }, record.options);
+      addLog(`Trabajo ${queued.id} en cola en el servidor.`, 'info', { step: 'process', context: { jobId: queued.id } });
+      recordImport(queued, stored, record.options, {
+        sheetName: record.sheetName,
+        rowCounts: record.rowCounts,
+        sentRows: false,
+        logs: [],
+      });
+    } catch (error) {
+      setStatus('error');
+      const message = error instanceof Error ? error.message : 'No se pudo contactar con el servidor.';
+      toast({
+        title: 'Falló el Procesamiento',
+        description: message,
+        variant: 'destructive',
+      });
+      addLog(`Falló el procesamiento de datos: ${message}`, 'error', { step: 'process' });
+    }
+  };
+
+  const handleDeleteImport = async (record: ImportRecord) => {
+    try {
+      await removeImportRecord(record.id);
+      addLog(`"${record.fileName}" eliminado del historial.`, 'info', { step: 'history' });
+    } catch (error) {
+      addLog('No se pudo eliminar la importación del historial.', 'error', { step: 'history' });
+    }
+  };
+
+  const handleMergeBatch = () => {
+    const sources = batch.items
+      .filter(item => item.sheet)
+      .map(item => ({ file: item.path, sheet: item.sheet!, mapping: item.mapping }));
+    showMerge(sources, DEFAULT_MERGE_OPTIONS);
+  };
+
+  const handleMergeSheets = () => {
+    if (!file) return;
+    const profiles = loadMappingProfiles();
+    const sources = sheets
+      .filter(sheet => exportSheetNames.includes(sheet.name))
+      .map(sheet => {
+        const profile = findMatchingProfile(profiles, sheet.headers);
+        const mapping = sheet.name === activeSheetName && columnMapping
+          ? columnMapping
+          : profile ? adaptProfileMapping(profile, sheet.headers) : undefined;
+        return {
+          file: file.name,
+          sheet: { ...sheet, rows: applyChanges(sheet.rows, collectChanges(editHistory, sheet.name, sheet.rows)) },
+          mapping,
+        };
+      });
+    showMerge(sources, DEFAULT_MERGE_OPTIONS, { file, sheets, activeSheetName, exportSheetNames, editHistory });
+  };
+
+  const handleStartMapping = () => {
+    extendColumnMapping(previewHeaders, activeSchema);
+    setEditingCell(null);
+    setStatus('mapping');
+  };
+
+  const handleClearMapping = () => {
+    resetColumnMapping();
+    setStatus('preview');
+    addLog('Mapeo de columnas eliminado; se exportarán las columnas originales.');
+  };
+
+  const handleSaveSchema = (schema: ImportSchema) => {
+    const schemas = saveImportSchema(schema);
+    setSavedSchemas(schemas);
+    setSchemaId(schemas.find(saved => saved.name === schema.name)?.id ?? NO_SCHEMA);
+    addLog(`Esquema de validación "${schema.name}" guardado con ${schema.columns.length} columna(s).`, 'info', {
+      step: 'validation',
+      context: { schema: schema.name, columns: schema.columns.length },
+    });
+  };
+
+  const handleDeleteSchema = (id: string) => {
+    const schema = savedSchemas.find(saved => saved.id === id);
+    setSavedSchemas(deleteSavedSchema(id));
+    setSchemaId(NO_SCHEMA);
+    if (schema) addLog(`Esquema de validación "${schema.name}" eliminado.`, 'info', { step: 'validation' });
+  };
+
+  // A single file opens in the preview; several files (or a folder) go to the batch queue.
+  const handleFilesSelected = (selected: DroppedFile[]) => {
+    if (selected.length <= 1 && !batch.items.length) {
+      handleFileSelect(selected[0]?.file);
+      return;
+    }
+    const accepted = selected.filter(({ file }) => isSpreadsheetFile(file));
+    if (accepted.length < selected.length) {
+      addLog(`Se omitieron ${selected.length - accepted.length} archivo(s) que no son .xlsx, .xls o .csv.`, 'warn', {
+        step: 'upload',
+        context: { files: selected.filter(({ file }) => !isSpreadsheetFile(file)).map(({ path }) => path) },
+      });
+    }
+    if (!accepted.length) return;
+    clearJob();
+    batch.add(accepted);
+    setStatus('batch');
+    addLog(`${accepted.length} archivo(s) añadidos al lote.`, 'info', { step: 'upload', context: { files: accepted.map(({ path }) => path) } });
+  };
+
+  const handleRemoveBatchItem = (item: BatchItem) => {
+    batch.remove(item.id);
+    if (batch.items.length === 1) setStatus('idle');
   };
 
   const handleDragEnter = (e: DragEvent<HTMLDivElement>) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); };
@@ -231,11 +763,145 @@ export function ExcelFlowClient() {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    const droppedFile = e.dataTransfer.files[0];
-    handleFileSelect(droppedFile);
+    collectDroppedFiles(e.dataTransfer)
+      .then(handleFilesSelected)
+      .catch(() => addLog('No se pudo leer el contenido de la carpeta soltada.', 'error', { step: 'upload' }));
+  };
+
+  const activeSheet = sheets.find(sheet => sheet.name === activeSheetName);
+  // Deferred so typing an expression doesn't recompute every row per keystroke.
+  const deferredComputedColumns = useDeferredValue(computedColumns);
+  const lookupActive = !!lookup && !lookup.error;
+  const referenceHeaders = new Set(lookup?.headers);
+  const keptRowSet = useMemo(() => (lookup?.keptRows ? new Set(lookup.keptRows) : null), [lookup]);
+  // Computed columns come after the join so expressions can use reference columns.
+  const computed = useMemo(
+    () => applyComputedColumns(lookupRows, lookupHeaders, deferredComputedColumns),
+    [lookupRows, lookupHeaders, deferredComputedColumns]
+  );
+  const previewRows = computed.rows;
+  const previewHeaders = useMemo(() => [...lookupHeaders, ...computed.headers], [lookupHeaders, computed.headers]);
+  const computedHeaders = new Set(computed.headers);
+  const totalChangeCount = useMemo(
+    () => sheets.reduce((total, sheet) =>
+      total + countChanges(sheet.name === activeSheetName ? activeChanges : collectChanges(editHistory, sheet.name, sheet.rows)), 0),
+    [sheets, activeSheetName, activeChanges, editHistory]
+  );
+  const validation = useMemo(() => {
+    if (!activeSchema) return null;
+    const result = columnMapping
+      // Validate the mapped output, then point issues back at the source columns.
+      ? mapIssueHeaders(
+          validateRows(applyMapping(previewRows, columnMapping), mappedHeaders(columnMapping), activeSchema),
+          targetToSource(columnMapping)
+        )
+      : validateRows(previewRows, previewHeaders, activeSchema);
+    return keptRowSet ? restrictIssuesToRows(result, keptRowSet) : result;
+  }, [activeSchema, previewRows, previewHeaders, columnMapping, keptRowSet]);
+  const outputHeaders = useMemo(
+    () => (columnMapping ? mappedHeaders(columnMapping) : previewHeaders),
+    [columnMapping, previewHeaders]
+  );
+  const nestingEnabled = outputOptions.nesting.enabled && NESTABLE_FORMATS.includes(outputOptions.format);
+  const outputRows = useMemo(
+    () => (columnMapping ? applyMapping(previewRows, columnMapping) : previewRows),
+    [columnMapping, previewRows]
+  );
+  // Parsed types of the source columns, by output column; other columns are inferred from their values.
+  const outputColumnTypes = useMemo(() => {
+    const sources = columnMapping ? targetToSource(columnMapping) : null;
+    return Object.fromEntries(outputHeaders.map(header => {
+      const source = sources ? sources.get(header) : header;
+      return [header, source === undefined ? undefined : activeSheet?.columnTypes[source]];
+    }));
+  }, [columnMapping, outputHeaders, activeSheet]);
+  const outputBaseName = outputFileName(outputOptions).replace(/\.[^.]+$/, '');
+  const nestingConflicts = useMemo(
+    () => (nestingEnabled ? findPathConflicts(outputHeaders, outputOptions.nesting) : []),
+    [nestingEnabled, outputHeaders, outputOptions.nesting]
+  );
+  const blockedByLoad = databaseLoad?.mode === 'upsert' &&
+    (!databaseLoad.upsertKeys.length || !databaseLoad.upsertKeys.every(key => outputHeaders.includes(key)));
+  const mappingDuplicates = columnMapping ? findDuplicateTargets(columnMapping) : [];
+  const blockedByMapping = mappingDuplicates.length > 0 || (!!columnMapping && mappedHeaders(columnMapping).length === 0);
+  const blockedByValidation = !!validation?.errorCount && exportSheetNames.includes(activeSheetName);
+  const queryActive = isRowQueryActive(rowQuery);
+  const canProcess = jsonData.length > 0 &&
+    exportSheetNames.length > 0 &&
+    !(queryActive && !outputScope) &&
+    !blockedByValidation &&
+    !blockedByMapping &&
+    !lookup?.error &&
+    !nestingConflicts.length &&
+    !blockedByLoad;
+  const visibleRowIndices = useMemo(() => {
+    const indices = applyRowQuery(previewRows, previewHeaders, rowQuery);
+    return keptRowSet ? indices.filter(index => keptRowSet.has(index)) : indices;
+  }, [previewRows, previewHeaders, rowQuery, keptRowSet]);
+  const rowsFiltered = queryActive || !!keptRowSet;
+
+  const handleDownloadValidationReport = () => {
+    if (!validation) return;
+    try {
+      const report = buildValidationReport(previewRows, previewHeaders, validation, activeSheetName);
+      const baseName = file?.name.replace(/\.[^.]+$/, '') ?? 'datos';
+      writeFile(report, `${baseName}_errores.xlsx`);
+      addLog(`Informe de validación descargado: ${validation.errorCount} error(es), ${validation.warningCount} advertencia(s).`);
+    } catch (error) {
+      addLog('No se pudo generar el informe de validación.', 'error');
+    }
+  };
+
+  const commitEdit = (rowIndex: number, header: string, text: string) => {
+    setEditingCell(null);
+    const before = editedRows[rowIndex]?.[header];
+    const after = coerceEditedValue(text, activeSheet?.columnTypes[header], valueMode);
+    if (after === before || (after === null && before === '')) return;
+    setEditHistory(prev => pushEdit(prev, { sheetName: activeSheetName, rowIndex, header, before, after }));
+  };
+
+  const handleUndo = useCallback(() => {
+    setEditingCell(null);
+    setEditHistory(undoEdit);
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    setEditingCell(null);
+    setEditHistory(redoEdit);
+  }, []);
+
+  const handleRevertAll = () => {
+    setEditingCell(null);
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    addLog(`Se revirtieron ${totalChangeCount} celda(s) editada(s).`);
   };
 
+  useEffect(() => {
+    if (status !== 'preview') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      // Leave native undo to text fields.
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [status, handleUndo, handleRedo]);
+
+  const displayName = merge ? `${MERGED_SHEET_NAME} (${merge.sources.length} fuentes)` : file?.name;
+
   const renderContent = () => {
+    if (job && !sheets.length && status !== 'idle') {
+      return <JobStatusPanel job={job} />;
+    }
     switch (status) {
       case 'idle':
       case 'error':
@@ -252,17 +918,23 @@ export function ExcelFlowClient() {
             onClick={() => fileInputRef.current?.click()}
           >
             <UploadCloud className="w-16 h-16 text-muted-foreground mb-4" />
-            <p className="text-lg font-semibold text-foreground">Arrastra y suelta tu archivo de Excel aquí</p>
+            <p className="text-lg font-semibold text-foreground">Arrastra y suelta tus archivos de Excel o una carpeta aquí</p>
             <p className="text-sm text-muted-foreground">o haz clic para buscar</p>
-            <p className="text-xs text-muted-foreground mt-2">Solo archivos .xlsx, .xls o .csv</p>
-            <Input
-              ref={fileInputRef}
-              type="file"
-              className="hidden"
-              accept=".xlsx,.xls,.csv,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/csv"
-              onChange={(e) => handleFileSelect(e.target.files?.[0])}
-            />
-             {status === 'error' && (
+            <p className="text-xs text-muted-foreground mt-2">Solo archivos .xlsx, .xls o .csv; varios archivos se procesan como un lote</p>
+            <Button
+              variant="link"
+              size="sm"
+              className="mt-2"
+              onClick={(e) => {
+                e.stopPropagation();
+                setStatus('compare');
+                addLog('Comparación de dos versiones de un libro.', 'info', { step: 'compare' });
+              }}
+            >
+              <GitCompare className="mr-2 h-4 w-4" />
+              Comparar dos versiones de un archivo
+            </Button>
+            {status === 'error' && (
               <div className="absolute bottom-4 flex items-center text-destructive">
                 <XCircle className="w-4 h-4 mr-2" />
                 <span className="text-sm font-medium">La carga del archivo falló. Por favor, inténtalo de nuevo.</span>
@@ -270,13 +942,74 @@ export function ExcelFlowClient() {
             )}
           </div>
         );
+      case 'batch':
+        return (
+          <div
+            className={cn('rounded-lg border-2 border-dashed p-2 transition-colors', isDragging ? 'border-primary bg-accent/20' : 'border-transparent')}
+            onDragEnter={handleDragEnter}
+            onDragLeave={handleDragLeave}
+            onDragOver={handleDragOver}
+            onDrop={handleDrop}
+          >
+            <BatchView
+              items={batch.items}
+              validations={batch.validations}
+              schemaId={schemaId}
+              schemas={availableSchemas}
+              outputOptions={outputOptions}
+              onSchemaChange={setSchemaId}
+              onOutputOptionsChange={setOutputOptions}
+              onAddFiles={() => fileInputRef.current?.click()}
+              onOpen={(item) => handleFileSelect(item.file)}
+              onProcess={batch.processItem}
+              onRemove={handleRemoveBatchItem}
+            />
+          </div>
+        );
+      case 'compare':
+        return <CompareView valueMode={valueMode} onLog={addLog} />;
       case 'uploading':
         return (
           <div className="flex flex-col items-center justify-center w-full p-10">
             <File className="w-16 h-16 text-primary mb-4" />
             <p className="text-lg font-semibold text-foreground truncate max-w-full">{file?.name}</p>
-            <p className="text-sm text-muted-foreground">Subiendo...</p>
+            <p className="text-sm text-muted-foreground">{progressDetail || 'Subiendo...'}</p>
             <Progress value={progress} className="w-full" />
+            <Button onClick={handleCancelUpload} variant="outline" size="sm" className="mt-4">
+              Cancelar
+            </Button>
+          </div>
+        );
+      case 'mapping':
+        return (
+          <div>
+            <div className="flex items-center gap-4 mb-4">
+              <FileSpreadsheet className="w-10 h-10 text-primary" />
+              <div>
+                <h3 className="text-lg font-bold">{displayName}</h3>
+                <p className="text-sm text-muted-foreground">
+                  Asigna cada columna de «{activeSheetName}» a un campo de destino antes de procesar.
+                </p>
+              </div>
+            </div>
+            {columnMapping && (
+              <ColumnMappingStep
+                mapping={columnMapping}
+                sampleRow={previewRows[0]}
+                schema={activeSchema}
+                profiles={mappingProfiles}
+                activeProfileId={activeProfileId}
+                onChange={setColumnMapping}
+                onSaveProfile={(name) => saveProfile(name, sheetHeaders)}
+                onApplyProfile={(id) => applyProfile(id, previewHeaders)}
+                onDeleteProfile={handleDeleteMappingProfile}
+              />
+            )}
+            {validation && activeSchema && (
+              <div className="mt-4">
+                <ValidationSummary result={validation} schemaName={activeSchema.name} />
+              </div>
+            )}
           </div>
         );
       case 'preview':
@@ -287,34 +1020,231 @@ export function ExcelFlowClient() {
             <div className="flex items-center gap-4 mb-4">
               <FileSpreadsheet className="w-10 h-10 text-primary" />
               <div>
-                <h3 className="text-lg font-bold">{file?.name}</h3>
-                <p className="text-sm text-muted-foreground">Mostrando todos los datos de la hoja.</p>
+                <h3 className="text-lg font-bold">{displayName}</h3>
+                <p className="text-sm text-muted-foreground">
+                  Mostrando todos los datos de la hoja: {jsonData.length.toLocaleString('es-ES')} filas × {previewHeaders.length} columnas. Doble clic en una celda para editarla.
+                </p>
+                {columnMapping && (
+                  <p className="text-xs text-primary">
+                    Mapeo de columnas activo{activeProfileId ? ` (perfil «${mappingProfiles.find(p => p.id === activeProfileId)?.name}»)` : ''}: se exportarán {mappedHeaders(columnMapping).length} campo(s).
+                  </p>
+                )}
+              </div>
+              {sheets.length > 1 && (
+                <div className="ml-auto w-64">
+                  <Select value={activeSheetName} onValueChange={handleSheetChange} disabled={status !== 'preview'}>
+                    <SelectTrigger aria-label="Hoja">
+                      <SelectValue placeholder="Selecciona una hoja" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sheets.map(sheet => (
+                        <SelectItem key={sheet.name} value={sheet.name}>
+                          {sheet.name} ({sheet.rowCount} filas × {sheet.columnCount} col.)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            {merge && (
+              <div className="mb-4">
+                <MergeSummary
+                  sources={merge.sources}
+                  options={merge.options}
+                  result={merge.result}
+                  disabled={status !== 'preview'}
+                  onOptionsChange={handleMergeOptionsChange}
+                  onUndo={merge.previous ? handleUndoMerge : undefined}
+                />
               </div>
+            )}
+            {activeSheet && !merge && (
+              <HeaderRowOptions
+                sheet={activeSheet}
+                valueMode={valueMode}
+                disabled={status !== 'preview'}
+                onChange={handleHeaderOptionsChange}
+                onValueModeChange={handleValueModeChange}
+              />
+            )}
+            <div className="flex flex-wrap items-center gap-4 mb-4">
+              <ImportSchemaSelect
+                id="import-schema"
+                value={schemaId}
+                schemas={availableSchemas}
+                onChange={setSchemaId}
+                disabled={status !== 'preview'}
+              />
+              {activeSavedSchema && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDeleteSchema(activeSavedSchema.id)}
+                  disabled={status !== 'preview'}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Eliminar esquema guardado
+                </Button>
+              )}
+            </div>
+            {validation && activeSchema && (
+              <div className="mb-4">
+                <ValidationSummary
+                  result={validation}
+                  schemaName={activeSchema.name}
+                  onDownloadReport={handleDownloadValidationReport}
+                />
+              </div>
+            )}
+            <div className="mb-4">
+              <LookupPanel
+                reference={reference}
+                loading={referenceLoading}
+                config={lookupConfig}
+                result={lookup}
+                mainHeaders={sheetHeaders}
+                disabled={status !== 'preview'}
+                onLoadReference={handleLoadReference}
+                onSheetChange={handleReferenceSheetChange}
+                onConfigChange={setLookupConfig}
+                onRemove={handleRemoveReference}
+              />
+            </div>
+            <div className="mb-4">
+              <ComputedColumnsEditor
+                columns={computedColumns}
+                result={computed}
+                sampleRow={previewRows[0]}
+                disabled={status !== 'preview'}
+                onChange={setComputedColumns}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-4 mb-2">
+              <div className="relative w-full sm:w-72">
+                <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={rowQuery.search}
+                  onChange={(e) => setRowQuery(prev => ({ ...prev, search: e.target.value }))}
+                  placeholder="Buscar en todas las columnas"
+                  className="pl-8"
+                  aria-label="Buscar"
+                />
+              </div>
+              <div className="flex items-center gap-1 sm:ml-auto sm:order-last">
+                <Button variant="outline" size="icon" onClick={handleUndo} disabled={status !== 'preview' || !canUndo(editHistory)} aria-label="Deshacer (Ctrl+Z)" title="Deshacer (Ctrl+Z)">
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={handleRedo} disabled={status !== 'preview' || !canRedo(editHistory)} aria-label="Rehacer (Ctrl+Y)" title="Rehacer (Ctrl+Y)">
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+                {totalChangeCount > 0 && (
+                  <Button variant="ghost" size="sm" onClick={handleRevertAll} disabled={status !== 'preview'}>
+                    Revertir todo ({totalChangeCount})
+                  </Button>
+                )}
+              </div>
+              {rowsFiltered && (
+                <p className="text-sm text-muted-foreground">
+                  {visibleRowIndices.length.toLocaleString('es-ES')} de {jsonData.length.toLocaleString('es-ES')} filas
+                </p>
+              )}
+              {queryActive && (
+                <>
+                  <Button variant="ghost" size="sm" onClick={resetRowQuery} disabled={status !== 'preview'}>
+                    Limpiar filtros y orden
+                  </Button>
+                </>
+              )}
             </div>
             <Card>
               <CardContent className="p-0">
-                <ScrollArea className="h-[500px] w-full">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          {sheetHeaders.map((header, index) => (
-                            <TableHead key={`${header}-${index}`} className="font-bold sticky top-0 bg-card whitespace-nowrap px-2 py-1">{header}</TableHead>
-                          ))}
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {jsonData.map((row, rowIndex) => (
-                          <TableRow key={rowIndex}>
-                            {sheetHeaders.map((header, cellIndex) => (
-                              <TableCell key={cellIndex} className="whitespace-nowrap px-2 py-1">{String(row[header] ?? '')}</TableCell>
-                            ))}
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                </ScrollArea>
+                <PreviewGrid
+                  headers={previewHeaders}
+                  rows={previewRows}
+                  rowOrder={rowsFiltered ? visibleRowIndices : undefined}
+                  query={rowQuery}
+                  columnTypes={activeSheet?.columnTypes}
+                  computedHeaders={computedHeaders}
+                  referenceHeaders={referenceHeaders}
+                  changes={activeChanges}
+                  validation={validation}
+                  editingCell={editingCell}
+                  disabled={status !== 'preview'}
+                  onSort={handleSort}
+                  onFilterChange={handleFilterChange}
+                  onStartEdit={setEditingCell}
+                  onCommitEdit={commitEdit}
+                  onCancelEdit={() => setEditingCell(null)}
+                />
               </CardContent>
             </Card>
+            {queryActive && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm font-semibold">Filtros, búsqueda y orden activos: ¿qué filas de «{activeSheetName}» se procesan?</p>
+                <RadioGroup
+                  value={outputScope ?? ''}
+                  onValueChange={(value) => setOutputScope(value as OutputScope)}
+                  disabled={status !== 'preview'}
+                  className="flex flex-wrap gap-4"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="all" id="output-scope-all" />
+                    <Label htmlFor="output-scope-all">Todas las filas originales</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="view" id="output-scope-view" />
+                    <Label htmlFor="output-scope-view">Solo la vista filtrada y ordenada</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+            {sheets.length > 1 && (
+              <div className="mt-4">
+                <ExportSheetsPicker
+                  sheets={sheets}
+                  value={exportSheetNames}
+                  disabled={status !== 'preview'}
+                  onChange={setExportSheetNames}
+                  onMerge={handleMergeSheets}
+                />
+              </div>
+            )}
+            <div className="mt-4">
+              <OutputFormatOptions
+                value={outputOptions}
+                sheetCount={exportSheetNames.length}
+                sheetName={activeSheetName}
+                headers={outputHeaders}
+                rows={outputRows}
+                conflicts={nestingConflicts}
+                onChange={setOutputOptions}
+                disabled={status !== 'preview'}
+              />
+            </div>
+            <div className="mt-4">
+              <DatabaseLoadOptions
+                value={databaseLoad}
+                targets={databaseTargets}
+                sheetCount={exportSheetNames.length}
+                sheetName={activeSheetName}
+                headers={outputHeaders}
+                onChange={setDatabaseLoad}
+                disabled={status !== 'preview'}
+              />
+            </div>
+            <div className="mt-4">
+              <SchemaExportPanel
+                sheetName={activeSheetName}
+                headers={outputHeaders}
+                rows={outputRows}
+                columnTypes={outputColumnTypes}
+                valueMode={valueMode}
+                fileName={outputBaseName}
+                onSave={handleSaveSchema}
+                disabled={status !== 'preview'}
+              />
+            </div>
           </div>
         );
       default:
@@ -322,18 +1252,81 @@ export function ExcelFlowClient() {
     }
   };
 
+  const renderArtifactButtons = () =>
+    job?.artifacts.map(artifact => (
+      <Button key={artifact.name} variant="ghost" className="w-full sm:w-auto" onClick={() => downloadArtifact(artifact)}>
+        <Download className="mr-2 h-4 w-4" />
+        {artifact.name} ({formatBytes(artifact.size)})
+      </Button>
+    ));
+
   const renderFooter = () => {
     switch (status) {
+      case 'batch': {
+        const compatibleGroups = groupCompatibleItems(batch.readyItems).filter(group => group.length > 1).length;
+        return (
+          <div className="flex flex-col sm:flex-row items-center gap-4 w-full">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="merge-batch"
+                checked={batch.mergeCompatible}
+                onCheckedChange={(checked) => batch.setMergeCompatible(checked === true)}
+              />
+              <Label htmlFor="merge-batch">
+                Combinar archivos compatibles en una salida
+                {batch.mergeCompatible && ` (${compatibleGroups} grupo(s))`}
+              </Label>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto sm:ml-auto">
+              <Button onClick={handleReset} variant="outline" className="w-full sm:w-auto">Empezar de Nuevo</Button>
+              <Button
+                onClick={handleMergeBatch}
+                variant="outline"
+                className="w-full sm:w-auto"
+                disabled={batch.items.filter(item => item.sheet).length < 2}
+              >
+                Combinar y previsualizar
+              </Button>
+              <Button onClick={batch.processAll} className="w-full sm:w-auto" disabled={!batch.readyItems.length}>
+                Procesar todos ({batch.readyItems.length})
+              </Button>
+            </div>
+          </div>
+        );
+      }
       case 'preview':
         return (
-          <Button onClick={handleProcess} className="w-full sm:w-auto" disabled={jsonData.length === 0}>Confirmar y Procesar Datos</Button>
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            {batch.items.length > 0 && (
+              <Button onClick={() => setStatus('batch')} variant="ghost" className="w-full sm:w-auto">
+                Volver al lote ({batch.items.length})
+              </Button>
+            )}
+            <Button onClick={handleStartMapping} variant="outline" className="w-full sm:w-auto" disabled={jsonData.length === 0}>
+              {columnMapping ? 'Editar mapeo de columnas' : 'Mapear columnas'}
+            </Button>
+            <Button onClick={handleProcess} className="w-full sm:w-auto" disabled={!canProcess}>Confirmar y Procesar Datos</Button>
+          </div>
+        );
+      case 'mapping':
+        return (
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            <Button onClick={handleClearMapping} variant="ghost" className="w-full sm:w-auto">Quitar mapeo</Button>
+            <Button onClick={() => setStatus('preview')} variant="outline" className="w-full sm:w-auto">Volver a la previsualización</Button>
+            <Button onClick={handleProcess} className="w-full sm:w-auto" disabled={!canProcess}>Confirmar y Procesar Datos</Button>
+          </div>
         );
       case 'processing':
         return (
-          <Button disabled className="w-full sm:w-auto">
-            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-            Procesando...
-          </Button>
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            {job && !isTerminalStatus(job.status) && (
+              <Button onClick={handleCancelJob} variant="outline" className="w-full sm:w-auto">Cancelar</Button>
+            )}
+            <Button disabled className="w-full sm:w-auto">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {job?.status === 'queued' ? 'En cola...' : 'Procesando...'}
+            </Button>
+          </div>
         );
       case 'completed':
         return (
@@ -342,14 +1335,29 @@ export function ExcelFlowClient() {
               <CheckCircle2 className="mr-2 h-5 w-5" />
               <p className="font-semibold">Procesamiento Completado</p>
             </div>
-            <Button onClick={handleReset} variant="outline" className="w-full sm:w-auto sm:ml-auto">Empezar de Nuevo</Button>
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto sm:ml-auto">
+              {renderArtifactButtons()}
+              {batch.items.length > 0 && (
+                <Button onClick={() => setStatus('batch')} variant="ghost" className="w-full sm:w-auto">
+                  Volver al lote ({batch.items.length})
+                </Button>
+              )}
+              <Button onClick={handleReset} variant="outline" className="w-full sm:w-auto">Empezar de Nuevo</Button>
+            </div>
           </div>
         );
+      case 'compare':
+        return (
+          <Button onClick={handleReset} variant="outline" className="w-full sm:w-auto">Empezar de Nuevo</Button>
+        );
       case 'error':
-         return (
-          <Button onClick={handleReset} variant="outline" className="w-full sm:w-auto">
-            Intentar de Nuevo
-          </Button>
+        return (
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            {renderArtifactButtons()}
+            <Button onClick={handleReset} variant="outline" className="w-full sm:w-auto">
+              Intentar de Nuevo
+            </Button>
+          </div>
         );
       default:
         return null;
@@ -357,64 +1365,69 @@ export function ExcelFlowClient() {
   };
 
   return (
-    <div className="w-full max-w-4xl space-y-6">
-      <Card className="shadow-lg rounded-xl">
-        <CardHeader>
-          <CardTitle className="text-2xl font-bold flex items-center gap-2">
-            <svg
-              width="24"
-              height="24"
-              viewBox="0 0 24 24"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
-              className="text-primary"
-            >
-              <path
-                d="M14 2H6C5.46957 2 4.96086 2.21071 4.58579 2.58579C4.21071 2.96086 4 3.46957 4 4V20C4 20.5304 4.21071 21.0391 4.58579 21.4142C4.96086 21.7893 5.46957 22 6 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V8L14 2Z"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
+    <SidebarProvider defaultOpen={false}>
+      <ImportHistorySidebar
+        records={importHistory}
+        activeId={job?.id}
+        disabled={status === 'uploading' || status === 'processing'}
+        onReopen={handleReopenImport}
+        onRerun={handleRerunImport}
+        onDelete={handleDeleteImport}
+      />
+      <SidebarInset className="items-center justify-center p-4 sm:p-6 lg:p-8">
+        <SidebarTrigger className="absolute left-2 top-2" title="Historial de importaciones (Ctrl+B)" />
+        <div className="w-full max-w-4xl space-y-6">
+          <Card className="shadow-lg rounded-xl">
+            <CardHeader>
+              <CardTitle className="text-2xl font-bold flex items-center gap-2">
+                <svg
+                  width="24"
+                  height="24"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="text-primary"
+                >
+                  <path
+                    d="M14 2H6C5.46957 2 4.96086 2.21071 4.58579 2.58579C4.21071 2.96086 4 3.46957 4 4V20C4 20.5304 4.21071 21.0391 4.58579 21.4142C4.96086 21.7893 5.46957 22 6 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V8L14 2Z"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                  <path d="M14 2V8H20" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                  <path d="M12 18H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                  <path d="M8 18H8.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                  <path d="M12 13H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                  <path d="M8 13H8.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                </svg>
+                ExcelFlow
+              </CardTitle>
+              <CardDescription>Sube, previsualiza y procesa tus archivos de Excel con facilidad.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {renderContent()}
+              <Input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                accept=".xlsx,.xls,.csv,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/csv"
+                onChange={(e) => {
+                  handleFilesSelected(Array.from(e.target.files ?? [], selected => ({ file: selected, path: selected.name })));
+                  e.target.value = '';
+                }}
               />
-              <path d="M14 2V8H20" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-              <path d="M12 18H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-              <path d="M8 18H8.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-              <path d="M12 13H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-              <path d="M8 13H8.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-            </svg>
-            ExcelFlow
-          </CardTitle>
-          <CardDescription>Sube, previsualiza y procesa tus archivos de Excel con facilidad.</CardDescription>
-        </CardHeader>
-        <CardContent>{renderContent()}</CardContent>
-        {status !== 'idle' && (
-          <CardFooter className="flex justify-center sm:justify-end">
-            {renderFooter()}
-          </CardFooter>
-        )}
-      </Card>
-      {logs.length > 0 && (
-        <Card className="shadow-lg rounded-xl">
-          <CardHeader>
-            <CardTitle className="text-xl font-bold flex items-center gap-2">
-              <History className="w-5 h-5" />
-              Logs
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ScrollArea className="h-48 w-full pr-4">
-              <div className="space-y-2">
-                {logs.map((log, index) => (
-                  <div key={index} className={cn("flex items-start text-sm", log.type === 'error' ? 'text-destructive' : 'text-muted-foreground')}>
-                    <span className="font-mono text-xs mr-4">{log.timestamp}</span>
-                    <p className="flex-1">{log.message}</p>
-                  </div>
-                ))}
-              </div>
-            </ScrollArea>
-          </CardContent>
-        </Card>
-      )}
-    </div>
+            </CardContent>
+            {status !== 'idle' && (
+              <CardFooter className="flex justify-center sm:justify-end">
+                {renderFooter()}
+              </CardFooter>
+            )}
+          </Card>
+          {logs.length > 0 && <LogsPanel logs={logs} onClear={() => setLogs([])} />}
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
@@ -0,0 +1,60 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import type { ParsedSheet } from '@/lib/workbook';
+
+type ExportSheetsPickerProps = {
+  sheets: ParsedSheet[];
+  value: string[];
+  disabled?: boolean;
+  onChange: (sheetNames: string[]) => void;
+  /** Joins the rows of the selected sheets into one table. */
+  onMerge: () => void;
+};
+
+/** The sheets of the workbook to export, kept in workbook order. */
+export function ExportSheetsPicker({ sheets, value, disabled, onChange, onMerge }: ExportSheetsPickerProps) {
+  const toggle = (sheetName: string, checked: boolean) => {
+    onChange(checked
+      ? sheets.map(s => s.name).filter(name => name === sheetName || value.includes(name))
+      : value.filter(name => name !== sheetName));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold">Hojas a exportar</p>
+      <div className="flex flex-wrap gap-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="export-all-sheets"
+            checked={value.length === sheets.length}
+            onCheckedChange={(checked) => onChange(checked === true ? sheets.map(s => s.name) : [])}
+            disabled={disabled}
+          />
+          <Label htmlFor="export-all-sheets">Todas</Label>
+        </div>
+        {sheets.map((sheet, index) => (
+          <div key={sheet.name} className="flex items-center gap-2">
+            <Checkbox
+              id={`export-sheet-${index}`}
+              checked={value.includes(sheet.name)}
+              onCheckedChange={(checked) => toggle(sheet.name, checked === true)}
+              disabled={disabled}
+            />
+            <Label htmlFor={`export-sheet-${index}`}>{sheet.name}</Label>
+          </div>
+        ))}
+      </div>
+      {value.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-xs text-muted-foreground">La salida se agrupará por nombre de hoja, o puedes unir sus filas en una sola tabla.</p>
+          <Button variant="outline" size="sm" onClick={onMerge} disabled={disabled}>
+            Combinar hojas seleccionadas
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
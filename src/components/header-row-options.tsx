@@ -0,0 +1,77 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { ParseOptions, ParsedSheet, ValueMode } from '@/lib/workbook';
+
+type HeaderRowOptionsProps = {
+  sheet: ParsedSheet;
+  valueMode: ValueMode;
+  disabled?: boolean;
+  /** Reparses the sheet; empty options detect the header again. */
+  onChange: (options: ParseOptions) => void;
+  onValueModeChange: (keepFormatted: boolean) => void;
+};
+
+/**
+ * Where the active sheet's header starts and how many rows it spans, with
+ * automatic detection, and whether values keep their Excel formatting.
+ */
+export function HeaderRowOptions({ sheet, valueMode, disabled, onChange, onValueModeChange }: HeaderRowOptionsProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-4 mb-4">
+      <div className="space-y-1">
+        <Label htmlFor="header-row">Fila de encabezado</Label>
+        <Input
+          id="header-row"
+          type="number"
+          min={1}
+          className="w-32"
+          value={sheet.headerRow + 1}
+          onChange={(e) => {
+            const headerRow = Number(e.target.value) - 1;
+            if (Number.isInteger(headerRow) && headerRow >= 0) {
+              onChange({ headerRow, headerRowCount: sheet.headerRowCount });
+            }
+          }}
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="header-row-count">Filas de encabezado</Label>
+        <Input
+          id="header-row-count"
+          type="number"
+          min={1}
+          max={5}
+          className="w-32"
+          value={sheet.headerRowCount}
+          onChange={(e) => {
+            const headerRowCount = Number(e.target.value);
+            if (Number.isInteger(headerRowCount) && headerRowCount >= 1 && headerRowCount <= 5) {
+              onChange({ headerRow: sheet.headerRow, headerRowCount });
+            }
+          }}
+          disabled={disabled}
+        />
+      </div>
+      <Button variant="outline" size="sm" onClick={() => onChange({})} disabled={disabled}>
+        Detectar automáticamente
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Se omiten {sheet.headerRow} fila(s) antes del encabezado.
+      </p>
+      <div className="flex items-center gap-2 ml-auto">
+        <Switch
+          id="keep-formatted"
+          checked={valueMode === 'formatted'}
+          onCheckedChange={onValueModeChange}
+          disabled={disabled}
+        />
+        <Label htmlFor="keep-formatted">Mantener texto con formato</Label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, FileSpreadsheet, FolderOpen, History, MoreHorizontal, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { JOB_STATUS_LABELS } from '@/components/job-status-panel';
+import type { ImportRecord } from '@/lib/import-history';
+import { downloadArtifact } from '@/lib/processing-client';
+
+const STATUS_CLASSES: Record<ImportRecord['status'], string> = {
+  queued: 'text-muted-foreground',
+  running: 'text-primary',
+  succeeded: 'text-green-600',
+  failed: 'text-destructive',
+  cancelled: 'text-muted-foreground',
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' });
+
+const formatDuration = (ms?: number) =>
+  ms === undefined ? undefined : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const totalRows = (record: ImportRecord) =>
+  record.sheetNames.reduce((total, name) => total + (record.rowCounts[name] ?? 0), 0);
+
+type ImportHistorySidebarProps = {
+  records: ImportRecord[];
+  activeId?: string;
+  /** Whether reopening and re-running are possible right now (no import in progress). */
+  disabled?: boolean;
+  onReopen: (record: ImportRecord) => void;
+  onRerun: (record: ImportRecord) => void;
+  onDelete: (record: ImportRecord) => void;
+};
+
+/**
+ * Past imports stored in the browser. Selecting one reopens its file in the
+ * preview with the options it was processed with; the menu downloads its
+ * artifacts, processes it again or removes it.
+ */
+export function ImportHistorySidebar({ records, activeId, disabled, onReopen, onRerun, onDelete }: ImportHistorySidebarProps) {
+  const [search, setSearch] = useState('');
+  const query = search.trim().toLowerCase();
+  const visible = query ? records.filter(record => record.fileName.toLowerCase().includes(query)) : records;
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="flex items-center gap-2 px-2 pt-1 font-semibold">
+          <History className="h-4 w-4" />
+          Historial de importaciones
+        </div>
+        <SidebarInput
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Buscar por archivo"
+          aria-label="Buscar en el historial"
+        />
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>{records.length} importación(es)</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {visible.map(record => (
+                <SidebarMenuItem key={record.id}>
+                  <SidebarMenuButton
+                    size="lg"
+                    isActive={record.id === activeId}
+                    disabled={disabled}
+                    onClick={() => onReopen(record)}
+                    title={`${record.fileName} · ${record.sheetNames.join(', ')}`}
+                  >
+                    <FileSpreadsheet />
+                    <div className="flex min-w-0 flex-col">
+                      <span className="truncate font-medium">{record.fileName}</span>
+                      <span className="truncate text-xs text-sidebar-foreground/70">
+                        <span className={STATUS_CLASSES[record.status]}>{JOB_STATUS_LABELS[record.status]}</span>
+                        {' · '}{formatDate(record.createdAt)}
+                        {' · '}{totalRows(record).toLocaleString('es-ES')} filas
+                        {record.durationMs !== undefined && ` · ${formatDuration(record.durationMs)}`}
+                      </span>
+                    </div>
+                  </SidebarMenuButton>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <SidebarMenuAction showOnHover className="top-3.5" aria-label={`Acciones de ${record.fileName}`}>
+                        <MoreHorizontal />
+                      </SidebarMenuAction>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent side="right" align="start">
+                      <DropdownMenuItem disabled={disabled} onSelect={() => onReopen(record)}>
+                        <FolderOpen className="mr-2 h-4 w-4" />
+                        Reabrir
+                      </DropdownMenuItem>
+                      <DropdownMenuItem disabled={disabled} onSelect={() => onRerun(record)}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Volver a procesar
+                      </DropdownMenuItem>
+                      {record.artifacts.length > 0 && <DropdownMenuSeparator />}
+                      {record.artifacts.map(artifact => (
+                        <DropdownMenuItem key={artifact.name} onSelect={() => downloadArtifact(artifact)}>
+                          <Download className="mr-2 h-4 w-4" />
+                          {artifact.name}
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem className="text-destructive" onSelect={() => onDelete(record)}>
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Eliminar del historial
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+            {!visible.length && (
+              <p className="px-2 py-4 text-sm text-sidebar-foreground/70">
+                {records.length ? 'Ninguna importación coincide con la búsqueda.' : 'Aún no hay importaciones.'}
+              </p>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ImportSchema } from '@/lib/import-schemas';
+
+/** Select value for importing without validation. */
+export const NO_SCHEMA = 'none';
+
+type ImportSchemaSelectProps = {
+  id: string;
+  value: string;
+  schemas: ImportSchema[];
+  disabled?: boolean;
+  onChange: (id: string) => void;
+};
+
+/** The import type: a built-in or saved schema to validate against, or none. */
+export function ImportSchemaSelect({ id, value, schemas, disabled, onChange }: ImportSchemaSelectProps) {
+  return (
+    <>
+      <Label htmlFor={id}>Tipo de importación</Label>
+      <Select value={value} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger id={id} className="w-56">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SCHEMA}>Sin validación</SelectItem>
+          {schemas.map(schema => (
+            <SelectItem key={schema.id} value={schema.id}>{schema.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+}
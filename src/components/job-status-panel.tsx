@@ -0,0 +1,54 @@
+'use client';
+
+import { CheckCircle2, Clock, Loader2, Ban, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { JobStatus, ProcessingJob } from '@/lib/processing';
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'En cola',
+  running: 'En curso',
+  succeeded: 'Completado',
+  failed: 'Fallido',
+  cancelled: 'Cancelado',
+};
+
+const STATUS_ICONS: Record<JobStatus, typeof Clock> = {
+  queued: Clock,
+  running: Loader2,
+  succeeded: CheckCircle2,
+  failed: XCircle,
+  cancelled: Ban,
+};
+
+const formatTime = (iso?: string) =>
+  iso ? new Date(iso).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'medium' }) : '—';
+
+/**
+ * Summary of a processing job restored from a previous visit or re-run from
+ * the import history, shown instead of the preview since no parsed data is
+ * in memory.
+ */
+export function JobStatusPanel({ job }: { job: ProcessingJob }) {
+  const Icon = STATUS_ICONS[job.status];
+  return (
+    <div className="flex flex-col items-center justify-center w-full p-10 text-center gap-3">
+      <Icon className={job.status === 'running' ? 'w-12 h-12 text-primary animate-spin' : 'w-12 h-12 text-primary'} />
+      <div>
+        <p className="text-lg font-semibold">{job.fileName ?? job.sheetNames.join(', ')}</p>
+        <p className="text-xs text-muted-foreground font-mono">Trabajo {job.id}</p>
+      </div>
+      <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'succeeded' ? 'default' : 'secondary'}>
+        {JOB_STATUS_LABELS[job.status]}
+      </Badge>
+      <dl className="grid grid-cols-[auto_auto] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-muted-foreground text-right">Creado</dt>
+        <dd className="text-left">{formatTime(job.createdAt)}</dd>
+        <dt className="text-muted-foreground text-right">Iniciado</dt>
+        <dd className="text-left">{formatTime(job.startedAt)}</dd>
+        <dt className="text-muted-foreground text-right">Finalizado</dt>
+        <dd className="text-left">{formatTime(job.finishedAt)}</dd>
+      </dl>
+      {job.error && <p className="text-sm text-destructive">{job.error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Download, History, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  DEFAULT_LOG_FILTER,
+  filterLogs,
+  formatContext,
+  logsToJsonl,
+  logsToText,
+  LOG_LEVEL_LABELS,
+  LOG_LEVELS,
+  type LogEntry,
+  type LogFilter,
+  type LogLevel,
+} from '@/lib/logs';
+import { downloadText } from '@/lib/processing-client';
+import { cn } from '@/lib/utils';
+
+const LEVEL_CLASSES: Record<LogLevel, string> = {
+  debug: 'text-muted-foreground/70',
+  info: 'text-muted-foreground',
+  warn: 'text-yellow-700 dark:text-yellow-500',
+  error: 'text-destructive',
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Operation logs, newest first, with level and text filters. Downloads
+ * contain the filtered entries in chronological order. Logs are kept when
+ * starting over and only go away through `onClear`.
+ */
+export function LogsPanel({ logs, onClear }: { logs: LogEntry[]; onClear: () => void }) {
+  const [filter, setFilter] = useState<LogFilter>(DEFAULT_LOG_FILTER);
+  const visible = useMemo(() => filterLogs(logs, filter), [logs, filter]);
+
+  const toggleLevel = (level: LogLevel) => {
+    setFilter(prev => ({
+      ...prev,
+      levels: prev.levels.includes(level) ? prev.levels.filter(l => l !== level) : [...prev.levels, level],
+    }));
+  };
+
+  const download = (format: 'jsonl' | 'text') => {
+    const chronological = [...visible].reverse();
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    if (format === 'jsonl') {
+      downloadText(logsToJsonl(chronological), `excelflow_logs_${stamp}.jsonl`, 'application/x-ndjson');
+    } else {
+      downloadText(logsToText(chronological), `excelflow_logs_${stamp}.txt`, 'text/plain');
+    }
+  };
+
+  return (
+    <Card className="shadow-lg rounded-xl">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Logs
+        </CardTitle>
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          {LOG_LEVELS.map(level => (
+            <Button
+              key={level}
+              variant={filter.levels.includes(level) ? 'secondary' : 'outline'}
+              size="sm"
+              className={cn('h-7', !filter.levels.includes(level) && 'text-muted-foreground')}
+              aria-pressed={filter.levels.includes(level)}
+              onClick={() => toggleLevel(level)}
+            >
+              {LOG_LEVEL_LABELS[level]} ({logs.filter(entry => entry.level === level).length})
+            </Button>
+          ))}
+          <div className="relative flex-1 min-w-[10rem]">
+            <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={filter.text}
+              onChange={(e) => setFilter(prev => ({ ...prev, text: e.target.value }))}
+              placeholder="Filtrar logs"
+              className="h-8 pl-8"
+              aria-label="Filtrar logs"
+            />
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8" disabled={!visible.length}>
+                <Download className="mr-2 h-4 w-4" />
+                Descargar
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => download('jsonl')}>JSON Lines (.jsonl)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => download('text')}>Texto (.txt)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="ghost" size="sm" className="h-8" onClick={onClear}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Limpiar
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="h-48 w-full pr-4">
+          <div className="space-y-2">
+            {visible.map((log, index) => (
+              <div key={index} className={cn('flex items-start text-sm', LEVEL_CLASSES[log.level])} title={log.timestamp}>
+                <span className="font-mono text-xs mr-4">{formatTime(log.timestamp)}</span>
+                <div className="flex-1 min-w-0">
+                  <p>
+                    {log.step && <span className="mr-2 font-mono text-xs uppercase opacity-70">[{log.step}]</span>}
+                    {log.message}
+                  </p>
+                  {log.context && (
+                    <p className="font-mono text-xs opacity-70 truncate">{formatContext(log.context)}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+            {!visible.length && (
+              <p className="text-sm text-muted-foreground">Ningún log coincide con los filtros.</p>
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { useRef } from 'react';
+import { Loader2, Plus, TableProperties, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { JOIN_TYPE_LABELS, type JoinType, type KeyMatchMode, type LookupConfig, type LookupResult } from '@/lib/lookup';
+import type { ParsedSheet } from '@/lib/workbook';
+
+export type ReferenceWorkbook = {
+  fileName: string;
+  sheets: ParsedSheet[];
+  sheetName: string;
+};
+
+type LookupPanelProps = {
+  reference: ReferenceWorkbook | null;
+  loading?: boolean;
+  config: LookupConfig | null;
+  result: LookupResult | null;
+  mainHeaders: string[];
+  disabled?: boolean;
+  onLoadReference: (file: File) => void;
+  onSheetChange: (sheetName: string) => void;
+  onConfigChange: (config: LookupConfig) => void;
+  onRemove: () => void;
+};
+
+/**
+ * Join of the preview against a reference spreadsheet: file and sheet,
+ * join type, key columns, columns to add, and the match counts with the
+ * keys that found no reference row.
+ */
+export function LookupPanel({
+  reference,
+  loading,
+  config,
+  result,
+  mainHeaders,
+  disabled,
+  onLoadReference,
+  onSheetChange,
+  onConfigChange,
+  onRemove,
+}: LookupPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const sheet = reference?.sheets.find(s => s.name === reference.sheetName);
+
+  const updateKey = (index: number, change: Partial<LookupConfig['keys'][number]>) => {
+    if (!config) return;
+    onConfigChange({ ...config, keys: config.keys.map((key, i) => (i === index ? { ...key, ...change } : key)) });
+  };
+
+  const toggleColumn = (column: string, checked: boolean) => {
+    if (!config || !sheet) return;
+    onConfigChange({
+      ...config,
+      columns: checked
+        ? sheet.headers.filter(header => header === column || config.columns.includes(header))
+        : config.columns.filter(header => header !== column),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-sm font-semibold">Cruce con referencia</p>
+        {reference && (
+          <span className="text-sm text-muted-foreground truncate max-w-[16rem]" title={reference.fileName}>
+            {reference.fileName}
+          </span>
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={disabled || loading}>
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <TableProperties className="mr-2 h-4 w-4" />}
+            {reference ? 'Cambiar referencia' : 'Cargar archivo de referencia'}
+          </Button>
+          {reference && (
+            <Button variant="ghost" size="sm" onClick={onRemove} disabled={disabled}>
+              Quitar
+            </Button>
+          )}
+        </div>
+        <Input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          accept=".xlsx,.xls,.csv,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/csv"
+          onChange={(e) => {
+            const selected = e.target.files?.[0];
+            if (selected) onLoadReference(selected);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {reference && sheet && config && (
+        <>
+          <div className="flex flex-wrap items-end gap-4">
+            {reference.sheets.length > 1 && (
+              <div className="space-y-1">
+                <Label htmlFor="lookup-sheet">Hoja de referencia</Label>
+                <Select value={reference.sheetName} onValueChange={onSheetChange} disabled={disabled}>
+                  <SelectTrigger id="lookup-sheet" className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reference.sheets.map(s => (
+                      <SelectItem key={s.name} value={s.name}>{s.name} ({s.rowCount} filas)</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="lookup-join-type">Tipo de cruce</Label>
+              <Select
+                value={config.joinType}
+                onValueChange={(joinType) => onConfigChange({ ...config, joinType: joinType as JoinType })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="lookup-join-type" className="w-60">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(JOIN_TYPE_LABELS) as JoinType[]).map(joinType => (
+                    <SelectItem key={joinType} value={joinType}>{JOIN_TYPE_LABELS[joinType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="lookup-match-mode">Comparación de claves</Label>
+              <Select
+                value={config.matchMode}
+                onValueChange={(matchMode) => onConfigChange({ ...config, matchMode: matchMode as KeyMatchMode })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="lookup-match-mode" className="w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="exact">Exacta</SelectItem>
+                  <SelectItem value="loose">Sin distinguir mayúsculas ni espacios</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">Columnas clave (hoja = referencia)</p>
+            {config.keys.map((key, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={key.main} onValueChange={(main) => updateKey(index, { main })} disabled={disabled}>
+                  <SelectTrigger className="h-8 w-56" aria-label="Columna de la hoja">
+                    <SelectValue placeholder="Columna de la hoja" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mainHeaders.map(header => <SelectItem key={header} value={header}>{header}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <span className="text-muted-foreground">=</span>
+                <Select value={key.reference} onValueChange={(value) => updateKey(index, { reference: value })} disabled={disabled}>
+                  <SelectTrigger className="h-8 w-56" aria-label="Columna de la referencia">
+                    <SelectValue placeholder="Columna de la referencia" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheet.headers.map(header => <SelectItem key={header} value={header}>{header}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onConfigChange({ ...config, keys: config.keys.filter((_, i) => i !== index) })}
+                  disabled={disabled || config.keys.length === 1}
+                  aria-label="Quitar columna clave"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onConfigChange({ ...config, keys: [...config.keys, { main: mainHeaders[0] ?? '', reference: sheet.headers[0] ?? '' }] })}
+              disabled={disabled}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Añadir columna clave
+            </Button>
+          </div>
+          {config.joinType !== 'anti' && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Columnas a añadir</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {sheet.headers.map((header, index) => (
+                  <div key={header} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`lookup-column-${index}`}
+                      checked={config.columns.includes(header)}
+                      onCheckedChange={(checked) => toggleColumn(header, checked === true)}
+                      disabled={disabled}
+                    />
+                    <Label htmlFor={`lookup-column-${index}`} className="font-normal">{header}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {result?.error ? (
+            <p className="text-xs text-destructive">{result.error}</p>
+          ) : result && (
+            <div className="space-y-1 text-xs">
+              <p>
+                <span className="text-green-600">{result.matchedCount.toLocaleString('es-ES')} fila(s) con coincidencia</span>
+                {' · '}
+                <span className={result.unmatchedCount ? 'text-yellow-700 dark:text-yellow-500' : 'text-muted-foreground'}>
+                  {result.unmatchedCount.toLocaleString('es-ES')} sin coincidencia
+                </span>
+                {result.keptRows && ` · se conservan ${result.keptRows.length.toLocaleString('es-ES')} fila(s)`}
+              </p>
+              {result.duplicateReferenceKeys > 0 && (
+                <p className="text-yellow-700 dark:text-yellow-500">
+                  {result.duplicateReferenceKeys} clave(s) repetidas en la referencia: se usa la primera fila de cada una.
+                </p>
+              )}
+              {result.unmatchedKeys.length > 0 && (
+                <p className="text-muted-foreground break-words">
+                  Claves sin coincidencia: {result.unmatchedKeys.join(', ')}
+                  {result.unmatchedCount > result.unmatchedKeys.length && '…'}
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
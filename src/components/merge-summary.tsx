@@ -0,0 +1,107 @@
+'use client';
+
+import { AlertTriangle, Combine, Undo2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { MergeOptions, MergeResult, MergeSource } from '@/lib/merge';
+
+type MergeSummaryProps = {
+  sources: MergeSource[];
+  options: MergeOptions;
+  result: MergeResult;
+  disabled?: boolean;
+  onOptionsChange: (options: MergeOptions) => void;
+  /** Restores the preview the sources came from; omitted when there is none. */
+  onUndo?: () => void;
+};
+
+const sourceLabel = (source: MergeSource) => `${source.file} · ${source.sheet.name}`;
+
+/**
+ * Sources of a combined preview, the alignment options, the columns that
+ * only some sources have and the ones left out because they collide.
+ */
+export function MergeSummary({ sources, options, result, disabled, onOptionsChange, onUndo }: MergeSummaryProps) {
+  const withMapping = sources.filter(source => source.mapping).length;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Combine className="h-5 w-5 text-primary" />
+        <p className="font-semibold">
+          {sources.length} fuentes combinadas: {result.rows.length.toLocaleString('es-ES')} filas × {result.headers.length} columnas
+        </p>
+        {onUndo && (
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={onUndo} disabled={disabled}>
+            <Undo2 className="mr-2 h-4 w-4" />
+            Deshacer combinación
+          </Button>
+        )}
+      </div>
+      <ul className="grid gap-x-4 text-xs text-muted-foreground sm:grid-cols-2">
+        {sources.map((source, index) => (
+          <li key={index} className="truncate" title={sourceLabel(source)}>
+            {index + 1}. {sourceLabel(source)} ({source.sheet.rowCount.toLocaleString('es-ES')} filas)
+            {options.useMappings && source.mapping && ' · con mapeo'}
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-6">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="merge-use-mappings"
+            checked={options.useMappings}
+            onCheckedChange={(useMappings) => onOptionsChange({ ...options, useMappings })}
+            disabled={disabled || !withMapping}
+          />
+          <Label htmlFor="merge-use-mappings">Alinear con perfiles de mapeo guardados ({withMapping})</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="merge-source-columns"
+            checked={options.addSourceColumns}
+            onCheckedChange={(addSourceColumns) => onOptionsChange({ ...options, addSourceColumns })}
+            disabled={disabled}
+          />
+          <Label htmlFor="merge-source-columns">Añadir columnas source_file y source_sheet</Label>
+        </div>
+      </div>
+      {result.partialColumns.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4 !text-yellow-600" />
+          <AlertTitle>{result.partialColumns.length} columna(s) solo en algunas fuentes</AlertTitle>
+          <AlertDescription>
+            <ul className="space-y-1 text-xs">
+              {result.partialColumns.map(column => (
+                <li key={column.header}>
+                  «{column.header}»: falta en{' '}
+                  {sources
+                    .map((source, index) => (column.sources.includes(index) ? null : sourceLabel(source)))
+                    .filter(Boolean)
+                    .join(', ')}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {result.collidingColumns.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4 !text-yellow-600" />
+          <AlertTitle>{result.collidingColumns.length} columna(s) omitida(s) por repetir otra de la misma fuente</AlertTitle>
+          <AlertDescription>
+            <ul className="space-y-1 text-xs">
+              {result.collidingColumns.map(({ source, kept, dropped }) => (
+                <li key={`${source}-${dropped}`}>
+                  «{dropped}» en {sourceLabel(sources[source])}: se conserva «{kept}»
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
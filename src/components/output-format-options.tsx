@@ -0,0 +1,382 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  CSV_DELIMITER_LABELS,
+  CSV_QUOTING_LABELS,
+  DEFAULT_OUTPUT_FILE_NAME,
+  NESTABLE_FORMATS,
+  OUTPUT_FORMATS,
+  outputFileName,
+  type CsvOptions,
+  type OutputFormat,
+  type OutputOptions,
+} from '@/lib/output-formats';
+import {
+  describePathConflict,
+  nestRows,
+  RESERVED_SEGMENTS,
+  suggestChildColumns,
+  suggestChildrenKey,
+  type NestingOptions,
+  type PathConflict,
+} from '@/lib/nested-json';
+import {
+  createTableStatement,
+  inferSqlColumns,
+  SQL_DIALECT_LABELS,
+  sqlTableName,
+  type SqlDialect,
+  type SqlOptions,
+} from '@/lib/sql';
+import type { SheetRow } from '@/lib/workbook';
+
+type OutputFormatOptionsProps = {
+  value: OutputOptions;
+  /** Number of sheets exported; one-table formats put them together. */
+  sheetCount: number;
+  /** Output columns and rows of the active sheet, for the nested and SQL previews. */
+  sheetName?: string;
+  headers?: string[];
+  rows?: SheetRow[];
+  /** Header pairs that cannot be nested together, or headers with a reserved name. */
+  conflicts?: PathConflict[];
+  disabled?: boolean;
+  onChange: (options: OutputOptions) => void;
+};
+
+const SINGLE_TABLE_FORMATS: OutputFormat[] = ['ndjson', 'csv'];
+
+/**
+ * Format of the processed output, its options and the name of the file.
+ * For the JSON formats, also the nesting of headers into objects and the
+ * grouping of rows, with the first resulting document as a preview; for
+ * SQL, the dialect, table and upsert key, with the inferred table.
+ */
+export function OutputFormatOptions({
+  value,
+  sheetCount,
+  sheetName = '',
+  headers = [],
+  rows = [],
+  conflicts = [],
+  disabled,
+  onChange,
+}: OutputFormatOptionsProps) {
+  const { nesting } = value;
+  const nestable = NESTABLE_FORMATS.includes(value.format);
+  const updateCsv = (change: Partial<CsvOptions>) => onChange({ ...value, csv: { ...value.csv, ...change } });
+  const updateNesting = (change: Partial<NestingOptions>) => onChange({ ...value, nesting: { ...nesting, ...change } });
+  const updateSql = (change: Partial<SqlOptions>) => onChange({ ...value, sql: { ...value.sql, ...change } });
+
+  const toggleGroupKey = (header: string, checked: boolean) => {
+    const groupBy = checked ? headers.filter(h => h === header || nesting.groupBy.includes(h)) : nesting.groupBy.filter(key => key !== header);
+    const childColumns = suggestChildColumns(rows, headers, groupBy);
+    updateNesting({ groupBy, childColumns, childrenKey: suggestChildrenKey(childColumns, nesting.separator) });
+  };
+
+  const toggleChildColumn = (header: string, checked: boolean) => {
+    updateNesting({
+      childColumns: checked
+        ? headers.filter(h => h === header || nesting.childColumns.includes(h))
+        : nesting.childColumns.filter(column => column !== header),
+    });
+  };
+
+  const preview = useMemo(() => {
+    if (!nestable || !nesting.enabled || !rows.length || conflicts.length) return null;
+    return JSON.stringify(nestRows(rows, headers, nesting)[0] ?? null, null, 2);
+  }, [nestable, nesting, rows, headers, conflicts.length]);
+
+  const { sql } = value;
+  const createTable = useMemo(() => {
+    if (value.format !== 'sql' || !headers.length) return null;
+    const keys = sql.upsertKeys.every(key => headers.includes(key)) ? sql.upsertKeys : [];
+    return createTableStatement(sql.dialect, sqlTableName(sql, sheetName, sheetCount, sql.dialect), inferSqlColumns(rows, headers), keys);
+  }, [value.format, sql, sheetName, sheetCount, rows, headers]);
+
+  const toggleUpsertKey = (header: string, checked: boolean) => {
+    updateSql({
+      upsertKeys: checked ? headers.filter(h => h === header || sql.upsertKeys.includes(h)) : sql.upsertKeys.filter(key => key !== header),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold">Formato de salida</p>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="output-format">Formato</Label>
+          <Select
+            value={value.format}
+            onValueChange={(format) => onChange({ ...value, format: format as OutputFormat })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="output-format" className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+                <SelectItem key={format} value={format}>{OUTPUT_FORMATS[format].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="output-file-name">Nombre del archivo</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              id="output-file-name"
+              className="w-56"
+              placeholder={DEFAULT_OUTPUT_FILE_NAME}
+              value={value.fileName ?? ''}
+              maxLength={120}
+              onChange={(e) => onChange({ ...value, fileName: e.target.value || undefined })}
+              disabled={disabled}
+            />
+            <span className="text-sm text-muted-foreground">.{OUTPUT_FORMATS[value.format].extension}</span>
+          </div>
+        </div>
+        {value.format === 'json' && (
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="output-pretty-json"
+              checked={value.prettyJson}
+              onCheckedChange={(prettyJson) => onChange({ ...value, prettyJson })}
+              disabled={disabled}
+            />
+            <Label htmlFor="output-pretty-json">Con sangría</Label>
+          </div>
+        )}
+      </div>
+      {value.format === 'csv' && (
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="output-csv-delimiter">Separador</Label>
+            <Select
+              value={value.csv.delimiter}
+              onValueChange={(delimiter) => updateCsv({ delimiter: delimiter as CsvOptions['delimiter'] })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="output-csv-delimiter" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CSV_DELIMITER_LABELS) as CsvOptions['delimiter'][]).map(delimiter => (
+                  <SelectItem key={delimiter} value={delimiter}>{CSV_DELIMITER_LABELS[delimiter]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="output-csv-quoting">Comillas</Label>
+            <Select
+              value={value.csv.quoting}
+              onValueChange={(quoting) => updateCsv({ quoting: quoting as CsvOptions['quoting'] })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="output-csv-quoting" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CSV_QUOTING_LABELS) as CsvOptions['quoting'][]).map(quoting => (
+                  <SelectItem key={quoting} value={quoting}>{CSV_QUOTING_LABELS[quoting]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="output-csv-bom"
+              checked={value.csv.bom}
+              onCheckedChange={(bom) => updateCsv({ bom })}
+              disabled={disabled}
+            />
+            <Label htmlFor="output-csv-bom">BOM UTF-8 (para Excel)</Label>
+          </div>
+        </div>
+      )}
+      {value.format === 'sql' && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="output-sql-dialect">Dialecto</Label>
+              <Select
+                value={sql.dialect}
+                onValueChange={(dialect) => updateSql({ dialect: dialect as SqlDialect })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="output-sql-dialect" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SQL_DIALECT_LABELS) as SqlDialect[]).map(dialect => (
+                    <SelectItem key={dialect} value={dialect}>{SQL_DIALECT_LABELS[dialect]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="output-sql-table">Tabla</Label>
+              <Input
+                id="output-sql-table"
+                className="w-48"
+                placeholder={sheetCount > 1 ? 'Nombre de cada hoja' : sqlTableName({}, sheetName, 1, sql.dialect)}
+                value={sql.tableName ?? ''}
+                maxLength={60}
+                onChange={(e) => updateSql({ tableName: e.target.value || undefined })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="output-sql-batch">Filas por INSERT</Label>
+              <Input
+                id="output-sql-batch"
+                type="number"
+                className="w-28"
+                min={1}
+                max={10000}
+                value={sql.batchSize}
+                onChange={(e) => updateSql({ batchSize: Math.min(10000, Math.max(1, Math.round(Number(e.target.value) || 1))) })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="output-sql-create"
+                checked={sql.createTable}
+                onCheckedChange={(createTable) => updateSql({ createTable })}
+                disabled={disabled}
+              />
+              <Label htmlFor="output-sql-create">Incluir CREATE TABLE</Label>
+            </div>
+          </div>
+          {headers.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Upsert (ON CONFLICT) sobre la clave</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {headers.map((header, index) => (
+                  <div key={header} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`output-upsert-${index}`}
+                      checked={sql.upsertKeys.includes(header)}
+                      onCheckedChange={(checked) => toggleUpsertKey(header, checked === true)}
+                      disabled={disabled}
+                    />
+                    <Label htmlFor={`output-upsert-${index}`} className="font-normal">{header}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {createTable && (
+            <pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">{createTable}</pre>
+          )}
+        </div>
+      )}
+      {nestable && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="output-nesting"
+                checked={nesting.enabled}
+                onCheckedChange={(enabled) => updateNesting({ enabled })}
+                disabled={disabled}
+              />
+              <Label htmlFor="output-nesting">Anidar según los encabezados (cliente.nombre, items[0].sku)</Label>
+            </div>
+            {nesting.enabled && (
+              <Select
+                value={nesting.separator}
+                onValueChange={(separator) => updateNesting({ separator: separator as NestingOptions['separator'] })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-8 w-44" aria-label="Separador de niveles">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=".">Separador: punto (.)</SelectItem>
+                  <SelectItem value="/">Separador: barra (/)</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {nesting.enabled && headers.length > 0 && (
+            <>
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Agrupar filas por</p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {headers.map((header, index) => (
+                    <div key={header} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`output-group-${index}`}
+                        checked={nesting.groupBy.includes(header)}
+                        onCheckedChange={(checked) => toggleGroupKey(header, checked === true)}
+                        disabled={disabled}
+                      />
+                      <Label htmlFor={`output-group-${index}`} className="font-normal">{header}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              {nesting.groupBy.length > 0 && (
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Label htmlFor="output-children-key" className="text-xs font-medium text-muted-foreground">
+                      Lista de detalle
+                    </Label>
+                    <Input
+                      id="output-children-key"
+                      className="h-8 w-40"
+                      value={nesting.childrenKey}
+                      onChange={(e) => updateNesting({ childrenKey: e.target.value })}
+                      onBlur={() => {
+                        const key = nesting.childrenKey.trim();
+                        if (!key || RESERVED_SEGMENTS.includes(key)) updateNesting({ childrenKey: suggestChildrenKey(nesting.childColumns, nesting.separator) });
+                      }}
+                      disabled={disabled}
+                    />
+                    <span className="text-xs text-muted-foreground">con las columnas:</span>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {headers.filter(header => !nesting.groupBy.includes(header)).map((header, index) => (
+                      <div key={header} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`output-child-${index}`}
+                          checked={nesting.childColumns.includes(header)}
+                          onCheckedChange={(checked) => toggleChildColumn(header, checked === true)}
+                          disabled={disabled}
+                        />
+                        <Label htmlFor={`output-child-${index}`} className="font-normal">{header}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+          {nesting.enabled && conflicts.length > 0 && (
+            <p className="text-xs text-destructive">
+              No se pueden anidar: {conflicts.map(describePathConflict).join(', ')}.
+            </p>
+          )}
+          {preview && (
+            <pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">{preview}</pre>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Se descargará {outputFileName(value)}
+        {sheetCount > 1 && SINGLE_TABLE_FORMATS.includes(value.format)
+          ? ', con las filas de todas las hojas y una columna source_sheet.'
+          : '.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { ColumnHeader } from '@/components/column-header';
+import { DataGrid } from '@/components/data-grid';
+import { EditableCell } from '@/components/editable-cell';
+import type { SheetChanges } from '@/lib/cell-edits';
+import { cellKey, type ValidationResult } from '@/lib/import-schemas';
+import { splitMatches, type ColumnFilter, type RowQuery } from '@/lib/row-query';
+import { cn } from '@/lib/utils';
+import type { ColumnType, SheetRow } from '@/lib/workbook';
+
+const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  number: 'Número',
+  boolean: 'Booleano',
+  date: 'Fecha',
+  string: 'Texto',
+  empty: 'Vacía',
+  mixed: 'Mixto',
+};
+
+export type EditingCell = { rowIndex: number; header: string };
+
+type PreviewGridProps = {
+  headers: string[];
+  rows: SheetRow[];
+  /** Indices into `rows` to display, in order, when the rows are filtered or sorted. */
+  rowOrder?: number[];
+  query: RowQuery;
+  /** Parsed types of the sheet's own columns. */
+  columnTypes?: { [header: string]: ColumnType };
+  /** Columns added by computed columns and by the reference join; not editable. */
+  computedHeaders: Set<string>;
+  referenceHeaders: Set<string>;
+  changes: SheetChanges;
+  validation: ValidationResult | null;
+  editingCell: EditingCell | null;
+  disabled?: boolean;
+  onSort: (header: string, additive: boolean) => void;
+  onFilterChange: (header: string, filter: ColumnFilter | undefined) => void;
+  onStartEdit: (cell: EditingCell) => void;
+  onCommitEdit: (rowIndex: number, header: string, text: string) => void;
+  onCancelEdit: () => void;
+};
+
+/**
+ * The preview rows in the data grid: sortable and filterable column
+ * headers, editable cells with the search highlighted, and edited, derived
+ * and invalid cells marked.
+ */
+export function PreviewGrid({
+  headers,
+  rows,
+  rowOrder,
+  query,
+  columnTypes,
+  computedHeaders,
+  referenceHeaders,
+  changes,
+  validation,
+  editingCell,
+  disabled,
+  onSort,
+  onFilterChange,
+  onStartEdit,
+  onCommitEdit,
+  onCancelEdit,
+}: PreviewGridProps) {
+  const renderHighlighted = (value: any) => {
+    const text = String(value ?? '');
+    if (!query.search.trim()) return <span className="truncate">{text}</span>;
+    return (
+      <span className="truncate">
+        {splitMatches(text, query.search).map((segment, index) =>
+          segment.match
+            ? <mark key={index} className="bg-accent text-accent-foreground rounded-sm">{segment.text}</mark>
+            : <span key={index}>{segment.text}</span>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <DataGrid
+      headers={headers}
+      rows={rows}
+      rowOrder={rowOrder}
+      renderHeader={(header) => {
+        const sortIndex = query.sort.findIndex(rule => rule.header === header);
+        const columnType = columnTypes?.[header];
+        return (
+          <ColumnHeader
+            header={header}
+            subtitle={computedHeaders.has(header)
+              ? 'Calculada'
+              : referenceHeaders.has(header)
+                ? 'Referencia'
+                : columnType ? COLUMN_TYPE_LABELS[columnType] : undefined}
+            sortDirection={query.sort[sortIndex]?.direction}
+            sortPriority={query.sort.length > 1 && sortIndex !== -1 ? sortIndex + 1 : undefined}
+            filter={query.filters[header]}
+            disabled={disabled}
+            onSort={(additive) => onSort(header, additive)}
+            onFilterChange={(filter) => onFilterChange(header, filter)}
+          />
+        );
+      }}
+      renderCell={(row, header, rowIndex) => (
+        <EditableCell
+          value={row[header]}
+          editing={editingCell?.rowIndex === rowIndex && editingCell.header === header}
+          disabled={disabled || computedHeaders.has(header) || referenceHeaders.has(header)}
+          onStartEdit={() => onStartEdit({ rowIndex, header })}
+          onCommit={(text) => onCommitEdit(rowIndex, header, text)}
+          onCancel={onCancelEdit}
+        >
+          {renderHighlighted(row[header])}
+        </EditableCell>
+      )}
+      cellClassName={(rowIndex, header) => {
+        const cellValidation = validation?.cellIssues.get(cellKey(rowIndex, header));
+        return cn(
+          computedHeaders.has(header) && 'bg-primary/5 italic',
+          referenceHeaders.has(header) && 'bg-sky-50 dark:bg-sky-950/40',
+          changes.get(rowIndex)?.[header] !== undefined &&
+            'bg-amber-100 dark:bg-amber-900/40 shadow-[inset_3px_0_0_theme(colors.amber.500)]',
+          cellValidation?.some(issue => issue.severity === 'error')
+            ? 'bg-destructive/15 text-destructive'
+            : cellValidation && 'bg-yellow-100 dark:bg-yellow-900/40'
+        ) || undefined;
+      }}
+      cellTitle={(rowIndex, header) =>
+        validation?.cellIssues.get(cellKey(rowIndex, header))?.map(issue => issue.message).join(' ')
+      }
+    />
+  );
+}
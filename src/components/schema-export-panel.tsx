@@ -0,0 +1,118 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Download, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ImportSchema } from '@/lib/import-schemas';
+import { downloadText } from '@/lib/processing-client';
+import {
+  generateSchemaFile,
+  inferImportSchema,
+  SCHEMA_FILE_FORMATS,
+  type SchemaFileFormat,
+} from '@/lib/schema-generator';
+import type { ColumnType, SheetRow, ValueMode } from '@/lib/workbook';
+
+type SchemaExportPanelProps = {
+  sheetName: string;
+  /** Output columns and rows of the active sheet, after mapping. */
+  headers: string[];
+  rows: SheetRow[];
+  columnTypes: { [header: string]: ColumnType | undefined };
+  valueMode: ValueMode;
+  /** Base name of the output file, so the schema files download next to it. */
+  fileName: string;
+  disabled?: boolean;
+  onSave: (schema: ImportSchema) => void;
+};
+
+/**
+ * Describes the output columns as JSON Schema, a TypeScript interface or a
+ * zod schema, inferred from the column types, with a preview of each; the
+ * same rules can be saved as the validation schema for future imports.
+ */
+export function SchemaExportPanel({
+  sheetName,
+  headers,
+  rows,
+  columnTypes,
+  valueMode,
+  fileName,
+  disabled,
+  onSave,
+}: SchemaExportPanelProps) {
+  const [name, setName] = useState('');
+  const [previewFormat, setPreviewFormat] = useState<SchemaFileFormat>('typescript');
+  const schemaName = name.trim() || sheetName;
+
+  const schema = useMemo(
+    () => inferImportSchema(schemaName, rows, headers, columnTypes),
+    [schemaName, rows, headers, columnTypes]
+  );
+  const preview = useMemo(() => generateSchemaFile(schema, previewFormat, valueMode), [schema, previewFormat, valueMode]);
+
+  const download = (format: SchemaFileFormat) => {
+    const { extension, contentType } = SCHEMA_FILE_FORMATS[format];
+    downloadText(generateSchemaFile(schema, format, valueMode), `${fileName}.${extension}`, contentType);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold">Esquema de los datos</p>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="schema-export-name">Nombre</Label>
+          <Input
+            id="schema-export-name"
+            className="w-56"
+            placeholder={sheetName}
+            value={name}
+            maxLength={80}
+            onChange={(e) => setName(e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="schema-export-preview">Vista previa</Label>
+          <Select value={previewFormat} onValueChange={(format) => setPreviewFormat(format as SchemaFileFormat)}>
+            <SelectTrigger id="schema-export-preview" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SCHEMA_FILE_FORMATS) as SchemaFileFormat[]).map(format => (
+                <SelectItem key={format} value={format}>{SCHEMA_FILE_FORMATS[format].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled || !headers.length}>
+              <Download className="mr-2 h-4 w-4" />
+              Descargar esquema
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {(Object.keys(SCHEMA_FILE_FORMATS) as SchemaFileFormat[]).map(format => (
+              <DropdownMenuItem key={format} onSelect={() => download(format)}>
+                {SCHEMA_FILE_FORMATS[format].label} (.{SCHEMA_FILE_FORMATS[format].extension})
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button variant="outline" size="sm" onClick={() => onSave(schema)} disabled={disabled || !headers.length}>
+          <Save className="mr-2 h-4 w-4" />
+          Guardar como esquema de validación
+        </Button>
+      </div>
+      {valueMode === 'formatted' && (
+        <p className="text-xs text-muted-foreground">Con el texto con formato todos los valores se exportan como texto; el esquema de validación conserva los tipos.</p>
+      )}
+      <pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">{preview}</pre>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { AlertTriangle, CheckCircle2, Download, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { ValidationResult } from '@/lib/import-schemas';
+import { cn } from '@/lib/utils';
+
+const MAX_LISTED_ISSUES = 200;
+
+type ValidationSummaryProps = {
+  result: ValidationResult;
+  schemaName: string;
+  onDownloadReport?: () => void;
+};
+
+/**
+ * Counts and first issues of a validation run. Errors block processing,
+ * warnings only inform.
+ */
+export function ValidationSummary({ result, schemaName, onDownloadReport }: ValidationSummaryProps) {
+  const { issues, errorCount, warningCount } = result;
+
+  if (!issues.length) {
+    return (
+      <Alert>
+        <CheckCircle2 className="h-4 w-4 !text-green-600" />
+        <AlertTitle>Validación superada</AlertTitle>
+        <AlertDescription>Los datos cumplen el esquema «{schemaName}».</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const Icon = errorCount ? XCircle : AlertTriangle;
+  return (
+    <Alert variant={errorCount ? 'destructive' : 'default'}>
+      <Icon className={cn('h-4 w-4', !errorCount && '!text-yellow-600')} />
+      <AlertTitle>
+        {errorCount} error(es) y {warningCount} advertencia(s) según el esquema «{schemaName}»
+      </AlertTitle>
+      <AlertDescription>
+        <div className="mb-2 flex flex-wrap items-center gap-2">
+          <p className="flex-1">
+            {errorCount
+              ? 'Corrige los errores para poder procesar los datos.'
+              : 'Puedes procesar los datos, pero revisa las advertencias.'}
+          </p>
+          {onDownloadReport && (
+            <Button variant="outline" size="sm" onClick={onDownloadReport} className="text-foreground">
+              <Download className="mr-2 h-4 w-4" />
+              Descargar informe de errores
+            </Button>
+          )}
+        </div>
+        <ScrollArea className="h-32 pr-4">
+          <ul className="space-y-1 text-xs">
+            {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+              <li key={index} className={issue.severity === 'error' ? 'text-destructive' : 'text-yellow-700'}>
+                {issue.rowIndex === null ? 'Columna' : `Fila ${issue.rowIndex + 1}`}, «{issue.header}»: {issue.message}
+              </li>
+            ))}
+          </ul>
+          {issues.length > MAX_LISTED_ISSUES && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              … y {issues.length - MAX_LISTED_ISSUES} incidencia(s) más.
+            </p>
+          )}
+        </ScrollArea>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import {
+  batchProcessingOptions,
+  groupCompatibleItems,
+  mergeBatchItems,
+  validateBatchItem,
+  type BatchItem,
+} from '@/lib/batch';
+import type { ImportSchema, ValidationResult } from '@/lib/import-schemas';
+import type { LogDetails, LogLevel } from '@/lib/logs';
+import { MERGED_SHEET_NAME } from '@/lib/merge';
+import type { OutputOptions } from '@/lib/output-formats';
+import { submitProcessingJob } from '@/lib/processing-client';
+import type { ParsedSheet, ValueMode } from '@/lib/workbook';
+import { useBatchQueue } from '@/hooks/use-batch-queue';
+import type { RecordImport } from '@/hooks/use-job-history';
+
+export type BatchSettings = {
+  valueMode: ValueMode;
+  schema?: ImportSchema;
+  output: OutputOptions;
+};
+
+/**
+ * The batch queue and its processing: each file's validation against the
+ * selected schema, the files ready to process and the jobs submitted for
+ * them, one per file or, with `mergeCompatible`, one per group of files
+ * with the same columns.
+ */
+export function useBatchProcessing(
+  settings: BatchSettings,
+  onRecord: RecordImport,
+  onLog: (message: string, level?: LogLevel, details?: LogDetails) => void
+) {
+  const { valueMode, schema } = settings;
+  const queue = useBatchQueue(valueMode);
+  const [mergeCompatible, setMergeCompatible] = useState(false);
+
+  // Cached per parsed sheet so polling job updates don't revalidate the whole batch.
+  const validationCache = useRef(new WeakMap<ParsedSheet, { schema: ImportSchema; result: ValidationResult | null }>());
+  const validations = useMemo(() => new Map(queue.items.map((item): [string, ValidationResult | null] => {
+    if (!schema || !item.sheet) return [item.id, null];
+    const cached = validationCache.current.get(item.sheet);
+    if (cached?.schema === schema) return [item.id, cached.result];
+    const result = validateBatchItem(item, schema);
+    validationCache.current.set(item.sheet, { schema, result });
+    return [item.id, result];
+  })), [queue.items, schema]);
+
+  // Files that parsed, pass validation and have no finished or running job yet.
+  const readyItems = queue.items.filter(item =>
+    item.sheet &&
+    !validations.get(item.id)?.errorCount &&
+    (!item.job || item.job.status === 'failed' || item.job.status === 'cancelled')
+  );
+
+  const submitGroup = async (group: BatchItem[]) => {
+    const [first] = group;
+    if (group.length === 1) {
+      const options = batchProcessingOptions(first, settings);
+      const queued = await submitProcessingJob({ file: first.file }, options);
+      queue.setJob([first.id], queued);
+      onRecord(queued, first.file, options, {
+        sheetName: first.sheet?.name ?? '',
+        rowCounts: { [first.sheet?.name ?? '']: first.sheet?.rowCount ?? 0 },
+        sentRows: false,
+        logs: [],
+      });
+      onLog(`"${first.path}": trabajo ${queued.id} en cola.`, 'info', { step: 'process', context: { jobId: queued.id } });
+      return;
+    }
+    const merged = mergeBatchItems(group, MERGED_SHEET_NAME);
+    const queued = await submitProcessingJob({ sheets: [merged] }, batchProcessingOptions(first, settings, MERGED_SHEET_NAME));
+    queue.setJob(group.map(item => item.id), queued);
+    onLog(`${group.length} archivos compatibles combinados (${merged.rows.length.toLocaleString('es-ES')} filas): trabajo ${queued.id} en cola.`, 'info', {
+      step: 'process',
+      context: { jobId: queued.id, files: group.map(item => item.path) },
+    });
+  };
+
+  const processItem = async (item: BatchItem) => {
+    try {
+      await submitGroup([item]);
+    } catch (error) {
+      onLog(`No se pudo procesar "${item.path}": ${error instanceof Error ? error.message : 'error desconocido'}.`, 'error', { step: 'process' });
+    }
+  };
+
+  const processAll = async () => {
+    const groups = mergeCompatible
+      ? groupCompatibleItems(readyItems)
+      : readyItems.map(item => [item]);
+    onLog(`Procesando ${readyItems.length} archivo(s) del lote en ${groups.length} trabajo(s).`, 'info', { step: 'process' });
+    for (const group of groups) {
+      try {
+        await submitGroup(group);
+      } catch (error) {
+        onLog(`No se pudo procesar ${group.map(item => `"${item.path}"`).join(', ')}: ${error instanceof Error ? error.message : 'error desconocido'}.`, 'error', { step: 'process' });
+      }
+    }
+  };
+
+  const clear = () => {
+    queue.clear();
+    setMergeCompatible(false);
+  };
+
+  return {
+    items: queue.items,
+    add: queue.add,
+    remove: queue.remove,
+    clear,
+    validations,
+    readyItems,
+    mergeCompatible,
+    setMergeCompatible,
+    processItem,
+    processAll,
+  };
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { adaptProfileMapping, findMatchingProfile, loadMappingProfiles } from '@/lib/column-mapping';
+import type { BatchItem, DroppedFile } from '@/lib/batch';
+import { isTerminalStatus, type ProcessingJob } from '@/lib/processing';
+import { fetchJob } from '@/lib/processing-client';
+import type { ValueMode } from '@/lib/workbook';
+import { isWorkbookCancelled, useWorkbookWorker } from '@/hooks/use-workbook-worker';
+
+// Batch jobs are polled rather than streamed: one event stream per file would
+// exhaust the browser's connections per host with a batch of twenty files.
+const JOB_POLL_INTERVAL_MS = 2000;
+
+let nextItemId = 0;
+
+/**
+ * Files of a batch upload, parsed one at a time in their own worker so the
+ * preview's workbook is left alone. Tracks the processing job of each file
+ * until it finishes.
+ */
+export function useBatchQueue(valueMode: ValueMode) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const { parse, cancel } = useWorkbookWorker();
+  const startedRef = useRef(new Set<string>());
+
+  const updateItem = useCallback((id: string, change: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...change } : item)));
+  }, []);
+
+  const add = useCallback((files: DroppedFile[]) => {
+    setItems(prev => [
+      ...prev,
+      ...files.map(({ file, path }) => ({ id: `batch-${++nextItemId}`, file, path, status: 'pending' as const })),
+    ]);
+  }, []);
+
+  const parsing = items.some(item => item.status === 'parsing');
+  const next = items.find(item => item.status === 'pending');
+  useEffect(() => {
+    if (parsing || !next || startedRef.current.has(next.id)) return;
+    startedRef.current.add(next.id);
+    updateItem(next.id, { status: 'parsing' });
+    parse(next.file, { valueMode })
+      .then(sheets => {
+        const sheet = sheets.find(s => s.rowCount > 0);
+        if (!sheet) {
+          updateItem(next.id, { status: 'empty', sheetCount: sheets.length });
+          return;
+        }
+        const profile = findMatchingProfile(loadMappingProfiles(), sheet.headers);
+        updateItem(next.id, {
+          status: 'parsed',
+          sheet,
+          sheetCount: sheets.length,
+          mapping: profile ? adaptProfileMapping(profile, sheet.headers) : undefined,
+          profileName: profile?.name,
+        });
+      })
+      .catch(error => {
+        if (isWorkbookCancelled(error)) return;
+        updateItem(next.id, { status: 'error', error: error instanceof Error ? error.message : 'No se pudo analizar el archivo.' });
+      });
+  }, [parsing, next, valueMode, parse, updateItem]);
+
+  const activeJobIds = items
+    .map(item => item.job)
+    .filter((job): job is ProcessingJob => !!job && !isTerminalStatus(job.status))
+    .map(job => job.id)
+    .join(',');
+  useEffect(() => {
+    if (!activeJobIds) return;
+    const timer = window.setInterval(() => {
+      activeJobIds.split(',').forEach(jobId => {
+        fetchJob(jobId)
+          .then(latest => setItems(prev => prev.map(item => (item.job?.id === latest.id ? { ...item, job: latest } : item))))
+          .catch(() => undefined);
+      });
+    }, JOB_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [activeJobIds]);
+
+  /** Records the job processing the given items (several when they were merged). */
+  const setJob = useCallback((ids: string[], job: ProcessingJob) => {
+    setItems(prev => prev.map(item => (ids.includes(item.id) ? { ...item, job } : item)));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    if (items.find(item => item.id === id)?.status === 'parsing') cancel();
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, [items, cancel]);
+
+  const clear = useCallback(() => {
+    cancel();
+    setItems([]);
+  }, [cancel]);
+
+  return { items, add, setJob, remove, clear };
+}
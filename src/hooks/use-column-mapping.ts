@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  adaptProfileMapping,
+  deleteMappingProfile,
+  findMatchingProfile,
+  loadMappingProfiles,
+  saveMappingProfile,
+  suggestMapping,
+  type ColumnMapping,
+  type MappingProfile,
+} from '@/lib/column-mapping';
+import type { ImportSchema } from '@/lib/import-schemas';
+import type { LogDetails, LogLevel } from '@/lib/logs';
+
+/**
+ * The column mapping of the active sheet and the saved mapping profiles,
+ * with the profile the mapping came from. A profile whose headers match a
+ * newly shown sheet is applied on its own (`autoApply`).
+ */
+export function useColumnMapping(onLog: (message: string, level?: LogLevel, details?: LogDetails) => void) {
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    setProfiles(loadMappingProfiles());
+  }, []);
+
+  // Applies the saved mapping profile whose headers match, or clears the mapping.
+  const autoApply = useCallback((headers: string[]) => {
+    const profile = findMatchingProfile(loadMappingProfiles(), headers);
+    setMapping(profile ? adaptProfileMapping(profile, headers) : null);
+    setActiveProfileId(profile?.id);
+    if (profile) {
+      onLog(`Perfil de mapeo "${profile.name}" aplicado automáticamente: los encabezados coinciden.`, 'info', { step: 'mapping', context: { profile: profile.name } });
+    }
+  }, [onLog]);
+
+  /** Sets a mapping that comes from no profile, or none. */
+  const reset = useCallback((next: ColumnMapping | null = null) => {
+    setMapping(next);
+    setActiveProfileId(undefined);
+  }, []);
+
+  /** Starts a mapping suggested from `headers`, or adds the columns the current one lacks. */
+  const extend = (headers: string[], schema?: ImportSchema) => {
+    if (!mapping) {
+      setMapping(suggestMapping(headers, schema));
+      return;
+    }
+    // Columns added since the mapping was made (e.g. computed ones) join as-is.
+    const known = new Set(mapping.fields.map(field => field.source));
+    const added = headers.filter(header => !known.has(header));
+    if (added.length) {
+      setMapping({
+        ...mapping,
+        fields: [...mapping.fields, ...added.map(source => ({ source, target: source, include: true }))],
+      });
+    }
+  };
+
+  const saveProfile = (name: string, headers: string[]) => {
+    if (!mapping) return;
+    const saved = saveMappingProfile(name, headers, mapping);
+    setProfiles(saved);
+    setActiveProfileId(saved.find(profile => profile.name === name)?.id);
+    onLog(`Perfil de mapeo "${name}" guardado.`);
+  };
+
+  const applyProfile = (id: string, headers: string[]) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    setMapping(adaptProfileMapping(profile, headers));
+    setActiveProfileId(profile.id);
+    onLog(`Perfil de mapeo "${profile.name}" aplicado.`);
+  };
+
+  const deleteProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    setProfiles(deleteMappingProfile(id));
+    setActiveProfileId(undefined);
+    if (profile) onLog(`Perfil de mapeo "${profile.name}" eliminado.`);
+  };
+
+  return {
+    mapping,
+    setMapping,
+    profiles,
+    activeProfileId,
+    autoApply,
+    reset,
+    extend,
+    saveProfile,
+    applyProfile,
+    deleteProfile,
+  };
+}
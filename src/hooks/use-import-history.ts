@@ -0,0 +1,45 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  addImportRecord,
+  deleteImportRecord,
+  listImportRecords,
+  updateImportRecord,
+  type ImportRecord,
+} from '@/lib/import-history';
+
+/**
+ * Past imports stored in IndexedDB, newest first. Changes are written to the
+ * store before the list is updated, so a failed write (e.g. storage disabled)
+ * rejects without leaving the list out of sync.
+ */
+export function useImportHistory() {
+  const [records, setRecords] = useState<ImportRecord[]>([]);
+
+  const refresh = useCallback(async () => {
+    setRecords(await listImportRecords());
+  }, []);
+
+  useEffect(() => {
+    refresh().catch(() => undefined);
+  }, [refresh]);
+
+  const add = useCallback(async (record: ImportRecord, file: File) => {
+    await addImportRecord(record, file);
+    await refresh();
+  }, [refresh]);
+
+  const update = useCallback(async (id: string, change: (record: ImportRecord) => ImportRecord) => {
+    const next = await updateImportRecord(id, change);
+    if (next) setRecords(prev => prev.map(record => (record.id === id ? next : record)));
+    return next;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteImportRecord(id);
+    setRecords(prev => prev.filter(record => record.id !== id));
+  }, []);
+
+  return { records, add, update, remove };
+}
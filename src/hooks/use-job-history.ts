@@ -0,0 +1,80 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { hashFile, type ImportRecord } from '@/lib/import-history';
+import type { LogDetails, LogLevel } from '@/lib/logs';
+import {
+  isTerminalStatus,
+  processingOptionsSchema,
+  type JobStatus,
+  type ProcessingJob,
+  type ProcessingOptions,
+} from '@/lib/processing';
+import { useImportHistory } from '@/hooks/use-import-history';
+
+/** Adds a submitted job to the history, with the details the job does not carry. */
+export type RecordImport = (
+  queued: ProcessingJob,
+  sourceFile: File,
+  options: ProcessingOptions,
+  details: Pick<ImportRecord, 'sheetName' | 'rowCounts' | 'sentRows' | 'logs'>
+) => void;
+
+/**
+ * The import history, kept in step with the processing jobs: `record` adds
+ * a submitted job and every status change of `job` is written to its
+ * record, with its logs and duration once it finishes. Writes run one after
+ * another so an update never overtakes the record it changes.
+ */
+export function useJobHistory(
+  job: ProcessingJob | null,
+  onLog: (message: string, level?: LogLevel, details?: LogDetails) => void
+) {
+  const { records, add, update, remove } = useImportHistory();
+  const writesRef = useRef<Promise<void>>(Promise.resolve());
+  const seenRef = useRef<{ jobId?: string; status?: JobStatus }>({});
+
+  const queueWrite = useCallback((write: () => Promise<unknown>) => {
+    writesRef.current = writesRef.current.then(write).then(
+      () => undefined,
+      () => onLog('No se pudo actualizar el historial de importaciones.', 'warn', { step: 'history' })
+    );
+  }, [onLog]);
+
+  const record: RecordImport = useCallback((queued, sourceFile, options, details) => {
+    queueWrite(async () => add({
+      id: queued.id,
+      fileName: sourceFile.name,
+      fileSize: sourceFile.size,
+      fileHash: await hashFile(sourceFile),
+      sheetNames: queued.sheetNames,
+      status: queued.status,
+      createdAt: queued.createdAt,
+      options: processingOptionsSchema.parse(options),
+      artifacts: [],
+      ...details,
+    }, sourceFile));
+  }, [queueWrite, add]);
+
+  useEffect(() => {
+    if (!job) return;
+    const seen = seenRef.current;
+    if (seen.jobId === job.id && seen.status === job.status) return;
+    seenRef.current = { jobId: job.id, status: job.status };
+
+    const finished = isTerminalStatus(job.status);
+    queueWrite(() => update(job.id, current => ({
+      ...current,
+      status: job.status,
+      artifacts: job.artifacts,
+      error: job.error,
+      ...(finished && job.finishedAt && {
+        finishedAt: job.finishedAt,
+        durationMs: Date.parse(job.finishedAt) - Date.parse(job.createdAt),
+        logs: [...current.logs, ...job.logs],
+      }),
+    })));
+  }, [job, queueWrite, update]);
+
+  return { records, record, remove };
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { LogEntry } from '@/lib/logs';
+import { isTerminalStatus, type ProcessingJob, type ProcessingOptions } from '@/lib/processing';
+import {
+  cancelProcessingJob,
+  fetchJob,
+  submitProcessingJob,
+  ProcessingRequestError,
+  type ProcessingInput,
+} from '@/lib/processing-client';
+
+const ACTIVE_JOB_STORAGE_KEY = 'excel-flow:active-job';
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Tracks the current processing job: submits it, follows its status and logs
+ * over Server-Sent Events until it finishes and remembers its id, so a
+ * reloaded or reopened tab picks the job up again (`resumed`) until it is
+ * cleared.
+ */
+export function useProcessingJob() {
+  const [job, setJob] = useState<ProcessingJob | null>(null);
+  const [resumed, setResumed] = useState(false);
+  const jobRef = useRef<ProcessingJob | null>(null);
+  jobRef.current = job;
+
+  const clear = useCallback(() => {
+    window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    setJob(null);
+    setResumed(false);
+  }, []);
+
+  useEffect(() => {
+    const jobId = window.localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (!jobId) return;
+    fetchJob(jobId)
+      .then(stored => {
+        setJob(stored);
+        setResumed(true);
+      })
+      .catch(error => {
+        if (error instanceof ProcessingRequestError && error.status === 404) {
+          window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+        }
+      });
+  }, []);
+
+  const jobId = job?.id;
+  const finished = !job || isTerminalStatus(job.status);
+  useEffect(() => {
+    if (!jobId || finished) return;
+    let source: EventSource | null = null;
+    let retryTimer: number | undefined;
+    let stopped = false;
+
+    // Log event ids are positions in the job's log; `after` resumes past the last one held.
+    const connect = (after: number) => {
+      if (stopped) return;
+      source = new EventSource(`/api/jobs/${jobId}/events${after >= 0 ? `?after=${after}` : ''}`);
+      source.addEventListener('log', (event) => {
+        const id = Number(event.lastEventId);
+        const entry: LogEntry = JSON.parse(event.data);
+        setJob(current =>
+          current?.id === jobId && id === current.logs.length ? { ...current, logs: [...current.logs, entry] } : current
+        );
+      });
+      source.addEventListener('status', (event) => {
+        const snapshot: Omit<ProcessingJob, 'logs'> = JSON.parse(event.data);
+        setJob(current => (current?.id === jobId ? { ...snapshot, logs: current.logs } : current));
+        if (isTerminalStatus(snapshot.status)) source?.close();
+      });
+      source.onerror = () => {
+        // Dropped connections are retried by the browser (sending Last-Event-ID).
+        // Once it gives up, catch up through the status endpoint and reconnect.
+        if (source?.readyState !== EventSource.CLOSED) return;
+        retryTimer = window.setTimeout(() => {
+          fetchJob(jobId)
+            .then(latest => {
+              setJob(current => (current?.id === jobId ? latest : current));
+              if (!isTerminalStatus(latest.status)) connect(latest.logs.length - 1);
+            })
+            .catch(error => {
+              if (!(error instanceof ProcessingRequestError && error.status === 404)) {
+                connect((jobRef.current?.logs.length ?? 0) - 1);
+              }
+            });
+        }, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect((jobRef.current?.logs.length ?? 0) - 1);
+    return () => {
+      stopped = true;
+      source?.close();
+      window.clearTimeout(retryTimer);
+    };
+  }, [jobId, finished]);
+
+  const submit = useCallback(async (input: ProcessingInput, options: ProcessingOptions) => {
+    const queued = await submitProcessingJob(input, options);
+    window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, queued.id);
+    setJob(queued);
+    setResumed(false);
+    return queued;
+  }, []);
+
+  const cancel = useCallback(async () => {
+    if (!jobId) return;
+    const cancelled = await cancelProcessingJob(jobId);
+    setJob(current => (current?.id === cancelled.id ? cancelled : current));
+  }, [jobId]);
+
+  return { job, resumed, submit, cancel, clear };
+}
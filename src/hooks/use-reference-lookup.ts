@@ -0,0 +1,97 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import type { ReferenceWorkbook } from '@/components/lookup-panel';
+import { isSpreadsheetFile } from '@/lib/batch';
+import type { LogDetails, LogLevel } from '@/lib/logs';
+import { applyLookup, defaultLookupConfig, type LookupConfig } from '@/lib/lookup';
+import type { SheetRow, ValueMode } from '@/lib/workbook';
+import { isWorkbookCancelled, useWorkbookWorker } from '@/hooks/use-workbook-worker';
+
+/**
+ * A reference spreadsheet and the join of the preview rows against it.
+ * The reference is parsed in its own worker, next to the preview's; each
+ * new reference or sheet starts from the default join on a shared column.
+ * `rows` and `headers` are the preview's with the reference columns added,
+ * or unchanged while there is no reference.
+ */
+export function useReferenceLookup(
+  rows: SheetRow[],
+  headers: string[],
+  valueMode: ValueMode,
+  onLog: (message: string, level?: LogLevel, details?: LogDetails) => void
+) {
+  const [reference, setReference] = useState<ReferenceWorkbook | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [config, setConfig] = useState<LookupConfig | null>(null);
+  const { parse, cancel } = useWorkbookWorker();
+
+  const referenceSheet = reference?.sheets.find(sheet => sheet.name === reference.sheetName);
+  const result = useMemo(
+    () => (referenceSheet && config ? applyLookup(rows, headers, referenceSheet, config) : null),
+    [rows, headers, referenceSheet, config]
+  );
+  const joinedHeaders = useMemo(() => [...headers, ...(result?.headers ?? [])], [headers, result]);
+
+  const load = async (file: File) => {
+    if (!isSpreadsheetFile(file)) {
+      onLog(`Tipo de archivo inválido para la referencia: ${file.name}.`, 'error', { step: 'lookup' });
+      return;
+    }
+    setLoading(true);
+    try {
+      const parsed = await parse(file, { valueMode });
+      const sheet = parsed.find(s => s.rowCount > 0);
+      if (!sheet) {
+        onLog(`La referencia "${file.name}" no tiene datos.`, 'error', { step: 'lookup' });
+        return;
+      }
+      setReference({ fileName: file.name, sheets: parsed, sheetName: sheet.name });
+      setConfig(defaultLookupConfig(headers, sheet.headers));
+      onLog(`Referencia "${file.name}" cargada: hoja "${sheet.name}" con ${sheet.rowCount} filas.`, 'info', {
+        step: 'lookup',
+        context: { file: file.name, sheets: parsed.map(s => s.name) },
+      });
+    } catch (error) {
+      if (!isWorkbookCancelled(error)) {
+        onLog(`No se pudo analizar la referencia "${file.name}".`, 'error', { step: 'lookup' });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeSheet = (sheetName: string) => {
+    const sheet = reference?.sheets.find(s => s.name === sheetName);
+    if (!reference || !sheet) return;
+    setReference({ ...reference, sheetName });
+    setConfig(defaultLookupConfig(headers, sheet.headers));
+  };
+
+  /** Drops the reference without logging it, e.g. when another file is opened. */
+  const clear = useCallback(() => {
+    cancel();
+    setReference(null);
+    setConfig(null);
+  }, [cancel]);
+
+  const remove = () => {
+    clear();
+    onLog('Referencia quitada.', 'info', { step: 'lookup' });
+  };
+
+  return {
+    reference,
+    referenceSheet,
+    loading,
+    config,
+    setConfig,
+    result,
+    rows: result?.rows ?? rows,
+    headers: joinedHeaders,
+    load,
+    changeSheet,
+    remove,
+    clear,
+  };
+}
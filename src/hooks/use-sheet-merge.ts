@@ -0,0 +1,94 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { EditHistory } from '@/lib/cell-edits';
+import type { LogDetails, LogLevel } from '@/lib/logs';
+import {
+  mergedSheet,
+  mergeSources,
+  MERGED_SHEET_NAME,
+  type MergeOptions,
+  type MergeResult,
+  type MergeSource,
+} from '@/lib/merge';
+import type { ParsedSheet, ValueMode } from '@/lib/workbook';
+
+/** The preview of the open file, as it was before its sheets were combined. */
+export type PreviewSnapshot = {
+  file: File | null;
+  sheets: ParsedSheet[];
+  activeSheetName: string;
+  exportSheetNames: string[];
+  editHistory: EditHistory;
+};
+
+/**
+ * A combined preview. `previous` is the preview to go back to when the
+ * sources were sheets of the open file.
+ */
+export type MergeState = {
+  sources: MergeSource[];
+  options: MergeOptions;
+  result: MergeResult;
+  previous?: PreviewSnapshot;
+};
+
+type MergeHandlers = {
+  /** Replaces the preview with the combined sheet. */
+  onShow: (sheet: ParsedSheet) => void;
+  /** Brings back the preview the sources came from. */
+  onRestore: (previous: PreviewSnapshot) => void;
+};
+
+/**
+ * Files or sheets combined into one preview sheet, recombined when the
+ * options change, with the columns that only some sources have or that
+ * collide within a source reported to the log.
+ */
+export function useSheetMerge(
+  valueMode: ValueMode,
+  { onShow, onRestore }: MergeHandlers,
+  onLog: (message: string, level?: LogLevel, details?: LogDetails) => void
+) {
+  const [merge, setMerge] = useState<MergeState | null>(null);
+
+  const show = (sources: MergeSource[], options: MergeOptions, previous?: PreviewSnapshot) => {
+    const result = mergeSources(sources, options);
+    const sheet = mergedSheet(MERGED_SHEET_NAME, result, valueMode);
+    onShow(sheet);
+    setMerge({ sources, options, result, previous });
+    onLog(`${sources.length} fuentes combinadas en "${sheet.name}": ${sheet.rowCount} filas, ${sheet.columnCount} columnas.`, 'info', {
+      step: 'merge',
+      context: {
+        sources: sources.map(source => `${source.file}/${source.sheet.name}`),
+        partialColumns: result.partialColumns.map(column => column.header),
+        ...options,
+      },
+    });
+    if (result.partialColumns.length) {
+      onLog(`${result.partialColumns.length} columna(s) no están en todas las fuentes: ${result.partialColumns.map(column => column.header).join(', ')}.`, 'warn', { step: 'merge' });
+    }
+    if (result.collidingColumns.length) {
+      onLog(`${result.collidingColumns.length} columna(s) omitida(s) por repetir otra de la misma fuente: ${result.collidingColumns.map(({ kept, dropped }) => `«${dropped}» (se conserva «${kept}»)`).join(', ')}.`, 'warn', {
+        step: 'merge',
+        context: { collidingColumns: result.collidingColumns.map(({ source, kept, dropped }) => ({ source: `${sources[source].file}/${sources[source].sheet.name}`, kept, dropped })) },
+      });
+    }
+  };
+
+  const changeOptions = (options: MergeOptions) => {
+    if (merge) show(merge.sources, options, merge.previous);
+  };
+
+  const undo = () => {
+    const previous = merge?.previous;
+    if (!previous) return;
+    onRestore(previous);
+    setMerge(null);
+    onLog('Combinación deshecha; se muestran de nuevo las hojas originales.', 'info', { step: 'merge' });
+  };
+
+  const clear = useCallback(() => setMerge(null), []);
+
+  return { merge, show, changeOptions, undo, clear };
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { ParseOptions, ParsedSheet } from '@/lib/workbook';
+import type { WorkbookProgress, WorkbookWorkerRequest, WorkbookWorkerResponse } from '@/workers/workbook.worker';
+
+export type { WorkbookProgress };
+
+type PendingRequest = {
+  resolve: (sheets: ParsedSheet[]) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: WorkbookProgress) => void;
+};
+
+/**
+ * Error raised when the worker fails. `phase` tells whether the file could
+ * not be read or could not be parsed.
+ */
+export class WorkbookWorkerError extends Error {
+  constructor(message: string, readonly phase: WorkbookProgress['phase']) {
+    super(message);
+    this.name = 'WorkbookWorkerError';
+  }
+}
+
+export const isWorkbookCancelled = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Reads and parses workbooks in a dedicated Web Worker. Cancelling terminates
+ * the worker (and the workbook it holds); a new one is spawned on demand.
+ */
+export function useWorkbookWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextIdRef = useRef(0);
+
+  const getWorker = useCallback(() => {
+    if (workerRef.current) return workerRef.current;
+
+    const worker = new Worker(new URL('../workers/workbook.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<WorkbookWorkerResponse>) => {
+      const response = event.data;
+      const pending = pendingRef.current.get(response.id);
+      if (!pending) return;
+
+      if (response.type === 'progress') {
+        pending.onProgress?.(response.progress);
+        return;
+      }
+      pendingRef.current.delete(response.id);
+      if (response.type === 'parsed') {
+        pending.resolve(response.sheets);
+      } else {
+        pending.reject(new WorkbookWorkerError(response.message, response.phase));
+      }
+    };
+    worker.onerror = (event) => {
+      pendingRef.current.forEach(pending => pending.reject(new WorkbookWorkerError(event.message, 'parse')));
+      pendingRef.current.clear();
+    };
+    workerRef.current = worker;
+    return worker;
+  }, []);
+
+  const send = useCallback((
+    request: Omit<Extract<WorkbookWorkerRequest, { type: 'parse' }>, 'id'> | Omit<Extract<WorkbookWorkerRequest, { type: 'reparse' }>, 'id'>,
+    onProgress?: (progress: WorkbookProgress) => void
+  ) => {
+    const worker = getWorker();
+    const id = ++nextIdRef.current;
+    return new Promise<ParsedSheet[]>((resolve, reject) => {
+      pendingRef.current.set(id, { resolve, reject, onProgress });
+      worker.postMessage({ ...request, id });
+    });
+  }, [getWorker]);
+
+  const parse = useCallback(
+    (file: File, options: ParseOptions, onProgress?: (progress: WorkbookProgress) => void) =>
+      send({ type: 'parse', file, options }, onProgress),
+    [send]
+  );
+
+  const reparse = useCallback(
+    (sheets: { name: string; options: ParseOptions }[]) => send({ type: 'reparse', sheets }),
+    [send]
+  );
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pendingRef.current.forEach(pending => pending.reject(new DOMException('Carga cancelada.', 'AbortError')));
+    pendingRef.current.clear();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { parse, reparse, cancel };
+}
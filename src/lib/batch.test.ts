@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  batchProcessingOptions,
+  groupCompatibleItems,
+  isSpreadsheetFile,
+  mergeBatchItems,
+  type BatchItem,
+} from '@/lib/batch';
+import type { ParsedSheet, SheetRow } from '@/lib/workbook';
+
+const sheetOf = (name: string, headers: string[], rows: SheetRow[]): ParsedSheet => ({
+  name,
+  headers,
+  rows,
+  rowCount: rows.length,
+  columnCount: headers.length,
+  headerRow: 0,
+  headerRowCount: 1,
+  columnTypes: Object.fromEntries(headers.map(header => [header, 'string'])),
+  valueMode: 'typed',
+});
+
+const itemOf = (id: string, sheet?: ParsedSheet): BatchItem => ({
+  id,
+  file: new File(['x'], `${id}.xlsx`),
+  path: `${id}.xlsx`,
+  status: sheet ? 'parsed' : 'error',
+  sheet,
+});
+
+describe('isSpreadsheetFile', () => {
+  it('accepts spreadsheets by type or extension', () => {
+    expect(isSpreadsheetFile(new File(['x'], 'datos.CSV'))).toBe(true);
+    expect(isSpreadsheetFile(new File(['x'], 'datos', { type: 'application/vnd.ms-excel' }))).toBe(true);
+    expect(isSpreadsheetFile(new File(['x'], 'notas.txt', { type: 'text/plain' }))).toBe(false);
+  });
+});
+
+describe('groupCompatibleItems', () => {
+  it('groups items with the same columns in any order and skips unparsed ones', () => {
+    const enero = itemOf('enero', sheetOf('Hoja1', ['Cliente', 'Importe'], []));
+    const febrero = itemOf('febrero', sheetOf('Hoja1', ['Importe', 'Cliente'], []));
+    const stock = itemOf('stock', sheetOf('Hoja1', ['Producto'], []));
+    const roto = itemOf('roto');
+    expect(groupCompatibleItems([enero, stock, roto, febrero])).toEqual([[enero, febrero], [stock]]);
+  });
+});
+
+describe('mergeBatchItems', () => {
+  it('appends the rows in batch order with the first item\'s columns', () => {
+    const enero = itemOf('enero', sheetOf('Hoja1', ['Cliente', 'Importe'], [{ Cliente: 'Ana', Importe: 1 }]));
+    const febrero = itemOf('febrero', sheetOf('Hoja1', ['Importe', 'Cliente'], [{ Importe: 2, Cliente: 'Bea' }]));
+    expect(mergeBatchItems([enero, febrero], 'Combinado')).toEqual({
+      name: 'Combinado',
+      headers: ['Cliente', 'Importe'],
+      rows: [{ Cliente: 'Ana', Importe: 1 }, { Importe: 2, Cliente: 'Bea' }],
+    });
+  });
+});
+
+describe('batchProcessingOptions', () => {
+  it('keys the options by the merged sheet name when given', () => {
+    const item = itemOf('enero', { ...sheetOf('Hoja1', ['Cliente'], []), headerRow: 2 });
+    const options = batchProcessingOptions(item, { valueMode: 'formatted' }, 'Combinado');
+    expect(options.sheetNames).toEqual(['Combinado']);
+    expect(options.valueMode).toBe('formatted');
+    expect(options.parseOptions).toEqual({ Combinado: { headerRow: 2, headerRowCount: 1 } });
+    expect(Object.keys(options.steps ?? {})).toEqual(['Combinado']);
+  });
+});
@@ -0,0 +1,120 @@
+import { applyMapping, mappedHeaders, type ColumnMapping } from '@/lib/column-mapping';
+import { schemaStep, validateRows, type ImportSchema } from '@/lib/import-schemas';
+import type { OutputOptions } from '@/lib/output-formats';
+import type { ProcessingJob, ProcessingOptions, SheetInput } from '@/lib/processing';
+import type { ParsedSheet, ValueMode } from '@/lib/workbook';
+
+const ACCEPTED_FILE_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
+  'application/vnd.ms-excel', // .xls
+  'text/csv', // .csv
+];
+
+export const isSpreadsheetFile = (file: File) =>
+  ACCEPTED_FILE_TYPES.some(type => file.type.startsWith(type)) || /\.(xlsx|xls|csv)$/i.test(file.name);
+
+export type BatchParseStatus = 'pending' | 'parsing' | 'parsed' | 'empty' | 'error';
+
+/**
+ * One file of a batch upload. `path` is the file's path inside a dropped
+ * folder (or just its name). Only the first sheet with data is kept, with a
+ * mapping taken from a matching saved profile; `job` is the latest state of
+ * its processing job.
+ */
+export type BatchItem = {
+  id: string;
+  file: File;
+  path: string;
+  status: BatchParseStatus;
+  sheet?: ParsedSheet;
+  sheetCount?: number;
+  mapping?: ColumnMapping;
+  profileName?: string;
+  error?: string;
+  job?: ProcessingJob;
+};
+
+export type DroppedFile = { file: File; path: string };
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+async function collectEntry(entry: FileSystemEntry): Promise<DroppedFile[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, path: entry.fullPath.replace(/^\//, '') }];
+  }
+  if (!entry.isDirectory) return [];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns the directory in chunks until an empty one.
+  for (let chunk = await readEntries(reader); chunk.length; chunk = await readEntries(reader)) {
+    children.push(...chunk);
+  }
+  const nested = await Promise.all(children.map(collectEntry));
+  return nested.flat();
+}
+
+/**
+ * Files dropped on the page, including the contents of dropped folders
+ * (recursively), sorted by path. Entries are taken synchronously because the
+ * drop's data transfer is emptied once the event handler returns.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<DroppedFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry?.() : null))
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (!entries.length) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+  }
+  const files = (await Promise.all(entries.map(collectEntry))).flat();
+  return files.sort((a, b) => a.path.localeCompare(b.path, 'es'));
+}
+
+/** Validates a parsed item as the preview would: on its mapped output when it has a mapping. */
+export function validateBatchItem(item: BatchItem, schema: ImportSchema) {
+  if (!item.sheet) return null;
+  const { rows, headers } = item.sheet;
+  return item.mapping
+    ? validateRows(applyMapping(rows, item.mapping), mappedHeaders(item.mapping), schema)
+    : validateRows(rows, headers, schema);
+}
+
+/** Processing options for one item's sheet, or for a merged sheet named `sheetName`. */
+export function batchProcessingOptions(
+  item: BatchItem,
+  settings: { valueMode: ValueMode; schema?: ImportSchema; output?: OutputOptions },
+  sheetName = item.sheet?.name ?? ''
+): ProcessingOptions {
+  const sheet = item.sheet;
+  return {
+    sheetNames: [sheetName],
+    valueMode: settings.valueMode,
+    parseOptions: sheet ? { [sheetName]: { headerRow: sheet.headerRow, headerRowCount: sheet.headerRowCount } } : {},
+    steps: { [sheetName]: { ...schemaStep(settings.schema), mapping: item.mapping } },
+    output: settings.output,
+  };
+}
+
+/** Items are compatible when their sheets have exactly the same columns, in any order. */
+const headerSignature = (headers: string[]) => JSON.stringify([...headers].sort());
+
+/** Groups parsed items by column set, keeping the batch order. */
+export function groupCompatibleItems(items: BatchItem[]): BatchItem[][] {
+  const groups = new Map<string, BatchItem[]>();
+  items.forEach(item => {
+    if (!item.sheet) return;
+    const signature = headerSignature(item.sheet.headers);
+    groups.set(signature, [...(groups.get(signature) ?? []), item]);
+  });
+  return Array.from(groups.values());
+}
+
+/** Appends the rows of compatible items into one sheet with the first item's column order. */
+export function mergeBatchItems(items: BatchItem[], name: string): SheetInput {
+  return {
+    name,
+    headers: items[0]?.sheet?.headers ?? [],
+    rows: items.flatMap(item => item.sheet?.rows ?? []),
+  };
+}
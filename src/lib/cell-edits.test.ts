@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyChanges,
+  coerceEditedValue,
+  collectChanges,
+  countChanges,
+  dropSheetEdits,
+  pushEdit,
+  redoEdit,
+  undoEdit,
+  EMPTY_EDIT_HISTORY,
+  type CellEdit,
+} from '@/lib/cell-edits';
+
+const rows = [{ Nombre: 'Ana', Importe: 10 }, { Nombre: 'Bea', Importe: 5 }];
+const edit = (change: Partial<CellEdit>): CellEdit => ({
+  sheetName: 'Hoja1',
+  rowIndex: 0,
+  header: 'Nombre',
+  before: 'Ana',
+  after: 'Ana María',
+  ...change,
+});
+
+describe('edit history', () => {
+  it('drops the undone edits when a new one is pushed', () => {
+    const history = undoEdit(pushEdit(pushEdit(EMPTY_EDIT_HISTORY, edit({})), edit({ rowIndex: 1, before: 'Bea', after: 'Beatriz' })));
+    const next = pushEdit(history, edit({ header: 'Importe', before: 10, after: 12 }));
+    expect(next.entries.map(entry => entry.header)).toEqual(['Nombre', 'Importe']);
+    expect(redoEdit(next)).toBe(next);
+  });
+
+  it('drops the edits of one sheet and keeps the others undoable', () => {
+    const history = pushEdit(pushEdit(EMPTY_EDIT_HISTORY, edit({})), edit({ sheetName: 'Hoja2' }));
+    const dropped = dropSheetEdits(undoEdit(history), 'Hoja1');
+    expect(dropped).toEqual({ entries: [edit({ sheetName: 'Hoja2' })], cursor: 0 });
+  });
+});
+
+describe('collectChanges', () => {
+  it('keeps the last value per cell and skips cells edited back to the original', () => {
+    let history = pushEdit(EMPTY_EDIT_HISTORY, edit({}));
+    history = pushEdit(history, edit({ before: 'Ana María', after: 'Anita' }));
+    history = pushEdit(history, edit({ rowIndex: 1, before: 'Bea', after: 'Beatriz' }));
+    history = pushEdit(history, edit({ rowIndex: 1, before: 'Beatriz', after: 'Bea' }));
+    const changes = collectChanges(history, 'Hoja1', rows);
+    expect(countChanges(changes)).toBe(1);
+    const applied = applyChanges(rows, changes);
+    expect(applied[0]).toEqual({ Nombre: 'Anita', Importe: 10 });
+    expect(applied[1]).toBe(rows[1]);
+  });
+
+  it('ignores undone edits', () => {
+    expect(collectChanges(undoEdit(pushEdit(EMPTY_EDIT_HISTORY, edit({}))), 'Hoja1', rows).size).toBe(0);
+  });
+});
+
+describe('coerceEditedValue', () => {
+  it('types the text after the column in typed mode', () => {
+    expect(coerceEditedValue('2,5', 'number', 'typed')).toBe(2.5);
+    expect(coerceEditedValue('Verdadero', 'boolean', 'typed')).toBe(true);
+    expect(coerceEditedValue('  ', 'string', 'typed')).toBeNull();
+    expect(coerceEditedValue('abc', 'number', 'typed')).toBe('abc');
+  });
+
+  it('keeps the text as typed in formatted mode', () => {
+    expect(coerceEditedValue('2,5', 'number', 'formatted')).toBe('2,5');
+  });
+});
@@ -0,0 +1,100 @@
+import type { ColumnType, SheetRow, ValueMode } from '@/lib/workbook';
+
+export type CellEdit = {
+  sheetName: string;
+  rowIndex: number;
+  header: string;
+  before: any;
+  after: any;
+};
+
+/**
+ * Linear edit history: entries before `cursor` are applied, the ones after
+ * it can be redone until a new edit truncates them.
+ */
+export type EditHistory = {
+  entries: CellEdit[];
+  cursor: number;
+};
+
+/** Edited values of one sheet: row index -> header -> value. */
+export type SheetChanges = Map<number, { [header: string]: any }>;
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { entries: [], cursor: 0 };
+
+export const canUndo = (history: EditHistory) => history.cursor > 0;
+export const canRedo = (history: EditHistory) => history.cursor < history.entries.length;
+
+export function pushEdit(history: EditHistory, edit: CellEdit): EditHistory {
+  const entries = [...history.entries.slice(0, history.cursor), edit];
+  return { entries, cursor: entries.length };
+}
+
+export function undoEdit(history: EditHistory): EditHistory {
+  return canUndo(history) ? { ...history, cursor: history.cursor - 1 } : history;
+}
+
+export function redoEdit(history: EditHistory): EditHistory {
+  return canRedo(history) ? { ...history, cursor: history.cursor + 1 } : history;
+}
+
+/**
+ * Drops every edit of a sheet, e.g. after it is re-parsed with another
+ * header and row indices no longer line up.
+ */
+export function dropSheetEdits(history: EditHistory, sheetName: string): EditHistory {
+  const applied = history.entries.slice(0, history.cursor).filter(edit => edit.sheetName !== sheetName);
+  const pending = history.entries.slice(history.cursor).filter(edit => edit.sheetName !== sheetName);
+  return { entries: [...applied, ...pending], cursor: applied.length };
+}
+
+/**
+ * Folds the applied edits of a sheet into its change set. Cells edited back
+ * to their original value are not reported as changes.
+ */
+export function collectChanges(history: EditHistory, sheetName: string, rows: SheetRow[]): SheetChanges {
+  const changes: SheetChanges = new Map();
+  for (const edit of history.entries.slice(0, history.cursor)) {
+    if (edit.sheetName !== sheetName) continue;
+    changes.set(edit.rowIndex, { ...changes.get(edit.rowIndex), [edit.header]: edit.after });
+  }
+  changes.forEach((values, rowIndex) => {
+    for (const header of Object.keys(values)) {
+      if (values[header] === rows[rowIndex]?.[header]) delete values[header];
+    }
+    if (!Object.keys(values).length) changes.delete(rowIndex);
+  });
+  return changes;
+}
+
+export const countChanges = (changes: SheetChanges) =>
+  Array.from(changes.values()).reduce((total, values) => total + Object.keys(values).length, 0);
+
+/**
+ * Returns the rows with the changes applied. Untouched rows are shared with
+ * the input; only edited rows are copied.
+ */
+export function applyChanges(rows: SheetRow[], changes: SheetChanges): SheetRow[] {
+  if (!changes.size) return rows;
+  return rows.map((row, index) => {
+    const values = changes.get(index);
+    return values ? { ...row, ...values } : row;
+  });
+}
+
+/**
+ * Converts the text typed in a cell to the column's type when values are
+ * typed; formatted mode keeps the text as is.
+ */
+export function coerceEditedValue(text: string, columnType: ColumnType | undefined, valueMode: ValueMode): any {
+  if (valueMode === 'formatted') return text;
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+  if (columnType === 'number' && !isNaN(Number(trimmed.replace(',', '.')))) {
+    return Number(trimmed.replace(',', '.'));
+  }
+  if (columnType === 'boolean' && /^(true|false|verdadero|falso)$/i.test(trimmed)) {
+    return /^(true|verdadero)$/i.test(trimmed);
+  }
+  return text;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  adaptProfileMapping,
+  applyMapping,
+  findDuplicateTargets,
+  findMatchingProfile,
+  mappedHeaders,
+  suggestMapping,
+  type MappingProfile,
+} from '@/lib/column-mapping';
+import { IMPORT_SCHEMAS } from '@/lib/import-schemas';
+
+const ventas = IMPORT_SCHEMAS.find(schema => schema.id === 'ventas')!;
+
+describe('suggestMapping', () => {
+  it('takes schema names for matching headers and adds defaults for the rest', () => {
+    const mapping = suggestMapping(['fecha', 'PRECIO', 'Notas'], ventas);
+    expect(mapping.fields.map(field => field.target)).toEqual(['Fecha', 'Precio', 'Notas']);
+    expect(mapping.defaults.map(field => field.target)).toEqual(['Código Cliente', 'Cantidad', 'Moneda']);
+  });
+});
+
+describe('applyMapping', () => {
+  it('renames, drops and completes columns', () => {
+    const mapping = {
+      fields: [
+        { source: 'a', target: ' A ', include: true },
+        { source: 'b', target: 'B', include: false },
+      ],
+      defaults: [{ target: 'C', value: '' }, { target: 'D', value: 'x' }],
+    };
+    expect(applyMapping([{ a: 1, b: 2 }], mapping)).toEqual([{ A: 1, C: null, D: 'x' }]);
+    expect(mappedHeaders(mapping)).toEqual(['A', 'C', 'D']);
+  });
+
+  it('finds included fields sharing a target', () => {
+    const mapping = {
+      fields: [
+        { source: 'a', target: 'X', include: true },
+        { source: 'b', target: 'X ', include: true },
+        { source: 'c', target: 'Y', include: false },
+      ],
+      defaults: [{ target: 'Y', value: '' }],
+    };
+    expect(findDuplicateTargets(mapping)).toEqual(['X']);
+  });
+});
+
+describe('profiles', () => {
+  const profile = (id: string, sourceHeaders: string[], updatedAt: string): MappingProfile => ({
+    id,
+    name: id,
+    sourceHeaders,
+    mapping: { fields: [{ source: 'Código', target: 'codigo', include: true }], defaults: [] },
+    updatedAt,
+  });
+
+  it('picks the newest profile saved for the same headers in any order', () => {
+    const profiles = [
+      profile('viejo', ['codigo', 'nombre'], '2024-01-01T00:00:00Z'),
+      profile('nuevo', ['nombre', 'codigo'], '2024-02-01T00:00:00Z'),
+      profile('otro', ['codigo'], '2024-03-01T00:00:00Z'),
+    ];
+    expect(findMatchingProfile(profiles, ['Nombre', 'CÓDIGO'])?.id).toBe('nuevo');
+  });
+
+  it('re-targets the saved mapping at the current spelling', () => {
+    const mapping = adaptProfileMapping(profile('p', ['codigo', 'nombre'], ''), ['CODIGO', 'Nombre']);
+    expect(mapping.fields).toEqual([
+      { source: 'CODIGO', target: 'codigo', include: true },
+      { source: 'Nombre', target: 'Nombre', include: true },
+    ]);
+  });
+});
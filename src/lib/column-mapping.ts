@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import type { ImportSchema } from '@/lib/import-schemas';
+import { normalizeHeader, type SheetRow } from '@/lib/workbook';
+
+export const fieldMappingSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  include: z.boolean(),
+});
+export type FieldMapping = z.infer<typeof fieldMappingSchema>;
+
+export const defaultFieldSchema = z.object({
+  target: z.string().min(1),
+  value: z.string(),
+});
+export type DefaultField = z.infer<typeof defaultFieldSchema>;
+
+/**
+ * Maps source headers to target field names. Excluded fields are dropped
+ * from the output; `defaults` add target fields no source column provides.
+ */
+export const columnMappingSchema = z.object({
+  fields: z.array(fieldMappingSchema),
+  defaults: z.array(defaultFieldSchema),
+});
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+export const mappingProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  /** Normalized source headers the profile was saved for. */
+  sourceHeaders: z.array(z.string()),
+  mapping: columnMappingSchema,
+  updatedAt: z.string(),
+});
+export type MappingProfile = z.infer<typeof mappingProfileSchema>;
+
+const PROFILES_STORAGE_KEY = 'excel-flow:mapping-profiles';
+
+/**
+ * Suggests a mapping for the given headers: sources matching a schema column
+ * (ignoring case, accents and spacing) take its name, the rest keep their
+ * own. Schema columns left without a source become defaults.
+ */
+export function suggestMapping(headers: string[], schema?: ImportSchema): ColumnMapping {
+  const schemaHeaders = new Map((schema?.columns ?? []).map(column => [normalizeHeader(column.header), column.header]));
+  const fields = headers.map(source => ({
+    source,
+    target: schemaHeaders.get(normalizeHeader(source)) ?? source,
+    include: true,
+  }));
+  const mappedTargets = new Set(fields.map(field => field.target));
+  const defaults = (schema?.columns ?? [])
+    .filter(column => !mappedTargets.has(column.header))
+    .map(column => ({ target: column.header, value: '' }));
+  return { fields, defaults };
+}
+
+export const isIdentityMapping = (mapping: ColumnMapping) =>
+  mapping.defaults.length === 0 && mapping.fields.every(field => field.include && field.target === field.source);
+
+/** Included fields that share a target name with an earlier one. */
+export function findDuplicateTargets(mapping: ColumnMapping): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  const targets = [
+    ...mapping.fields.filter(field => field.include).map(field => field.target.trim()),
+    ...mapping.defaults.map(field => field.target.trim()),
+  ];
+  targets.forEach(target => (seen.has(target) ? duplicates.add(target) : seen.add(target)));
+  return Array.from(duplicates);
+}
+
+/**
+ * Renames, drops and completes columns. Row order is kept, so row indices
+ * still point at the same source rows. Empty defaults become null.
+ */
+export function applyMapping(rows: SheetRow[], mapping: ColumnMapping): SheetRow[] {
+  const fields = mapping.fields.filter(field => field.include && field.target.trim());
+  return rows.map(row => {
+    const mapped: SheetRow = {};
+    fields.forEach(field => {
+      mapped[field.target.trim()] = row[field.source];
+    });
+    mapping.defaults.forEach(field => {
+      mapped[field.target.trim()] = field.value === '' ? null : field.value;
+    });
+    return mapped;
+  });
+}
+
+/** Output headers produced by a mapping, in order. */
+export const mappedHeaders = (mapping: ColumnMapping) => [
+  ...mapping.fields.filter(field => field.include && field.target.trim()).map(field => field.target.trim()),
+  ...mapping.defaults.map(field => field.target.trim()),
+];
+
+/** Target header -> source header, used to point issues back at source cells. */
+export const targetToSource = (mapping: ColumnMapping) =>
+  new Map(mapping.fields.filter(field => field.include).map(field => [field.target.trim(), field.source]));
+
+export function loadMappingProfiles(): MappingProfile[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(PROFILES_STORAGE_KEY) ?? '[]');
+    const parsed = z.array(mappingProfileSchema).safeParse(stored);
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeMappingProfiles(profiles: MappingProfile[]) {
+  window.localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Saves a profile for the given source headers. A profile with the same name
+ * is overwritten.
+ */
+export function saveMappingProfile(name: string, headers: string[], mapping: ColumnMapping): MappingProfile[] {
+  const profiles = loadMappingProfiles();
+  const existing = profiles.find(profile => profile.name === name);
+  const profile: MappingProfile = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    sourceHeaders: headers.map(normalizeHeader),
+    mapping,
+    updatedAt: new Date().toISOString(),
+  };
+  const next = [...profiles.filter(p => p.id !== profile.id), profile];
+  storeMappingProfiles(next);
+  return next;
+}
+
+export function deleteMappingProfile(id: string): MappingProfile[] {
+  const next = loadMappingProfiles().filter(profile => profile.id !== id);
+  storeMappingProfiles(next);
+  return next;
+}
+
+/**
+ * Finds the most recently updated profile saved for exactly the same set of
+ * headers (compared normalized, in any order).
+ */
+export function findMatchingProfile(profiles: MappingProfile[], headers: string[]): MappingProfile | undefined {
+  const current = new Set(headers.map(normalizeHeader));
+  return profiles
+    .filter(profile =>
+      profile.sourceHeaders.length === current.size &&
+      profile.sourceHeaders.every(header => current.has(header))
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+}
+
+/**
+ * Re-targets a profile's mapping at the current headers, which may differ
+ * from the saved ones in case, accents or order.
+ */
+export function adaptProfileMapping(profile: MappingProfile, headers: string[]): ColumnMapping {
+  const byName = new Map(profile.mapping.fields.map(field => [normalizeHeader(field.source), field]));
+  return {
+    fields: headers.map(source => {
+      const saved = byName.get(normalizeHeader(source));
+      return saved ? { ...saved, source } : { source, target: source, include: true };
+    }),
+    defaults: profile.mapping.defaults,
+  };
+}
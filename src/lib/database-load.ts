@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const databaseTargetIdSchema = z.enum(['sqlite', 'postgresql']);
+export type DatabaseTargetId = z.infer<typeof databaseTargetIdSchema>;
+
+export const loadModeSchema = z.enum(['create', 'append', 'replace', 'upsert']);
+export type LoadMode = z.infer<typeof loadModeSchema>;
+
+export const LOAD_MODE_LABELS: Record<LoadMode, string> = {
+  create: 'Crear tabla nueva',
+  append: 'Añadir filas',
+  replace: 'Reemplazar la tabla',
+  upsert: 'Actualizar o insertar (upsert)',
+};
+
+/**
+ * Loading the processed rows into one of the server's configured databases.
+ * `create` fails if the table exists, `append` creates it when missing,
+ * `replace` drops and recreates it, and `upsert` updates rows by `upsertKeys`.
+ */
+export const databaseLoadSchema = z.object({
+  target: databaseTargetIdSchema,
+  /** Defaults to the sheet name; with several sheets it prefixes each sheet's table. */
+  tableName: z.string().trim().max(60).optional(),
+  mode: loadModeSchema.default('append'),
+  upsertKeys: z.array(z.string()).default([]),
+  batchSize: z.number().int().min(1).max(10000).default(500),
+}).refine(load => load.mode !== 'upsert' || load.upsertKeys.length > 0, {
+  message: 'El modo upsert necesita al menos una columna clave.',
+  path: ['upsertKeys'],
+});
+export type DatabaseLoad = z.infer<typeof databaseLoadSchema>;
+
+/** A database the server can load into, as listed by `GET /api/databases`. */
+export type DatabaseTarget = {
+  id: DatabaseTargetId;
+  label: string;
+  /** Where it points, without credentials. */
+  location: string;
+};
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Client } from 'pg';
+import type { DatabaseLoad, DatabaseTarget, DatabaseTargetId } from '@/lib/database-load';
+import { DATA_DIR } from '@/lib/job-store';
+import type { OutputSheet } from '@/lib/output-formats';
+import { ProcessingError, type PipelineLogger } from '@/lib/processing';
+import {
+  createTableStatement,
+  inferSqlColumns,
+  insertStatements,
+  prepareUpsertRows,
+  quoteIdentifier,
+  sqlTableName,
+  type SqlDialect,
+} from '@/lib/sql';
+
+// Server-only: the databases come from the server's environment, never from
+// the request, so a client can only pick one of the configured targets.
+const SQLITE_PATH = process.env.EXCEL_FLOW_SQLITE_PATH ?? path.join(DATA_DIR, 'excelflow.sqlite');
+const POSTGRES_URL = process.env.EXCEL_FLOW_POSTGRES_URL;
+
+const describePostgres = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname}${parsed.port ? `:${parsed.port}` : ''}${parsed.pathname}`;
+  } catch {
+    return 'PostgreSQL';
+  }
+};
+
+/** The databases processed rows can be loaded into: SQLite always, PostgreSQL when configured. */
+export function listDatabaseTargets(): DatabaseTarget[] {
+  const targets: DatabaseTarget[] = [
+    { id: 'sqlite', label: 'SQLite', location: path.relative(process.cwd(), SQLITE_PATH) || SQLITE_PATH },
+  ];
+  if (POSTGRES_URL) targets.push({ id: 'postgresql', label: 'PostgreSQL', location: describePostgres(POSTGRES_URL) });
+  return targets;
+}
+
+type Connection = {
+  dialect: SqlDialect;
+  execute: (sql: string) => Promise<void>;
+  close: () => Promise<void>;
+};
+
+async function connect(target: DatabaseTargetId): Promise<Connection> {
+  if (target === 'sqlite') {
+    await fs.mkdir(path.dirname(SQLITE_PATH), { recursive: true });
+    const db = new Database(SQLITE_PATH);
+    return {
+      dialect: 'sqlite',
+      execute: async sql => {
+        db.exec(sql);
+      },
+      close: async () => {
+        db.close();
+      },
+    };
+  }
+  const client = new Client({ connectionString: POSTGRES_URL });
+  await client.connect();
+  return {
+    dialect: 'postgresql',
+    execute: async sql => {
+      await client.query(sql);
+    },
+    close: () => client.end(),
+  };
+}
+
+// better-sqlite3 is synchronous, so cancel requests only get through between batches.
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Writes the processed sheets into the chosen database, one table per sheet,
+ * in a single transaction: if any statement fails or the job is cancelled,
+ * everything is rolled back and no table is left half loaded.
+ */
+export async function loadIntoDatabase(
+  sheets: OutputSheet[],
+  load: DatabaseLoad,
+  log: PipelineLogger,
+  signal?: AbortSignal
+): Promise<void> {
+  const target = listDatabaseTargets().find(candidate => candidate.id === load.target);
+  if (!target) throw new ProcessingError(`La base de datos ${load.target} no está configurada en el servidor.`);
+  if (load.mode === 'upsert') {
+    const missing = sheets.find(sheet => !load.upsertKeys.every(key => sheet.headers.includes(key)));
+    if (missing) {
+      throw new ProcessingError(`"${missing.name}" no tiene las columnas clave del upsert (${load.upsertKeys.join(', ')}).`);
+    }
+  }
+
+  let connection: Connection;
+  try {
+    connection = await connect(load.target);
+  } catch (error) {
+    throw new ProcessingError(`No se pudo conectar con ${target.label} (${target.location}): ${errorMessage(error)}`);
+  }
+
+  const { dialect } = connection;
+  const totalRows = sheets.reduce((total, sheet) => total + sheet.rows.length, 0);
+  log('info', `Cargando ${totalRows} fila(s) en ${target.label} (${target.location}), modo «${load.mode}».`, {
+    step: 'load',
+    context: { target: target.id, location: target.location, mode: load.mode, tables: sheets.map(sheet => sqlTableName(load, sheet.name, sheets.length, dialect)) },
+  });
+
+  let table = '';
+  let batch = 0;
+  try {
+    await connection.execute('BEGIN');
+    for (const sheet of sheets) {
+      table = sqlTableName(load, sheet.name, sheets.length, dialect);
+      const columns = inferSqlColumns(sheet.rows, sheet.headers);
+      const keys = load.mode === 'upsert' ? load.upsertKeys : [];
+      let rows = sheet.rows;
+      if (keys.length) {
+        const prepared = prepareUpsertRows(sheet.rows, keys);
+        rows = prepared.rows;
+        if (prepared.missingKey || prepared.duplicates) {
+          log('warn', `"${sheet.name}": ${prepared.missingKey} fila(s) sin clave omitidas y ${prepared.duplicates} fila(s) con clave repetida reemplazadas por la última.`, {
+            step: 'load',
+            context: { sheet: sheet.name, missingKey: prepared.missingKey, duplicates: prepared.duplicates },
+          });
+        }
+      }
+
+      batch = 0;
+      if (load.mode === 'replace') await connection.execute(`DROP TABLE IF EXISTS ${quoteIdentifier(dialect, table)};`);
+      await connection.execute(createTableStatement(dialect, table, columns, keys, load.mode === 'append' || load.mode === 'upsert'));
+
+      const statements = insertStatements(dialect, table, columns, rows, load.batchSize, keys);
+      let written = 0;
+      for (const statement of statements) {
+        await yieldToEventLoop();
+        signal?.throwIfAborted();
+        batch++;
+        await connection.execute(statement);
+        written = Math.min(written + load.batchSize, rows.length);
+        log('info', `Lote ${batch}/${statements.length} de "${table}": ${written}/${rows.length} fila(s).`, {
+          step: 'load',
+          context: { table, batch, batches: statements.length, rows: written },
+        });
+      }
+      log('info', `Tabla "${table}" cargada con ${rows.length} fila(s).`, { step: 'load', context: { table, rows: rows.length } });
+    }
+    await connection.execute('COMMIT');
+  } catch (error) {
+    await connection.execute('ROLLBACK').catch(() => undefined);
+    log('warn', `Carga en ${target.label} revertida; la base de datos no cambió.`, { step: 'load', context: { table, batch } });
+    if (signal?.aborted) throw error;
+    const where = batch ? `, lote ${batch}` : '';
+    throw new ProcessingError(`Falló la carga de "${table}" en ${target.label}${where}: ${errorMessage(error)}`);
+  } finally {
+    await connection.close().catch(() => undefined);
+  }
+  log('info', `Carga en ${target.label} completada.`, { step: 'load' });
+}
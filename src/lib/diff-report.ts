@@ -0,0 +1,73 @@
+import * as XLSX from 'xlsx';
+import { ROW_CHANGE_LABELS, type SheetDiff } from '@/lib/diff';
+import { safeSheetName } from '@/lib/validation-report';
+
+const COMMENT_AUTHOR = 'ExcelFlow';
+
+const cellValue = (value: unknown) => (value === undefined ? null : value);
+
+/**
+ * Builds the comparison workbook: the new version with a change column,
+ * removed rows included and the old value of every modified cell as a
+ * comment; a change log with one line per changed cell (or per added and
+ * removed row); and a summary with the counts.
+ */
+export function buildDiffReport(diff: SheetDiff, names: { before: string; after: string }): XLSX.WorkBook {
+  const { headers } = diff;
+  const aoa = [
+    ['Cambio', 'Clave', ...headers],
+    ...diff.rows.map(row => [
+      ROW_CHANGE_LABELS[row.change],
+      row.key,
+      ...headers.map(header => cellValue((row.after ?? row.before)?.[header])),
+    ]),
+  ];
+  const comparisonSheet = XLSX.utils.aoa_to_sheet(aoa);
+  diff.rows.forEach((row, rowIndex) => {
+    row.changedHeaders.forEach(header => {
+      const address = XLSX.utils.encode_cell({ r: rowIndex + 1, c: headers.indexOf(header) + 2 });
+      const cell: XLSX.CellObject = comparisonSheet[address] ?? { t: 's', v: '' };
+      const comments = [{ a: COMMENT_AUTHOR, t: `Antes: ${String(row.before?.[header] ?? '(vacío)')}` }] as XLSX.Comments;
+      comments.hidden = true;
+      cell.c = comments;
+      comparisonSheet[address] = cell;
+    });
+  });
+
+  const log: unknown[][] = [['Cambio', 'Clave', 'Fila anterior', 'Fila nueva', 'Columna', 'Valor anterior', 'Valor nuevo']];
+  diff.rows.forEach(row => {
+    const rowNumbers = [
+      row.beforeIndex === undefined ? null : row.beforeIndex + 1,
+      row.afterIndex === undefined ? null : row.afterIndex + 1,
+    ];
+    if (row.change === 'modified') {
+      row.changedHeaders.forEach(header => log.push([
+        ROW_CHANGE_LABELS[row.change],
+        row.key,
+        ...rowNumbers,
+        header,
+        cellValue(row.before?.[header]),
+        cellValue(row.after?.[header]),
+      ]));
+    } else if (row.change !== 'unchanged') {
+      log.push([ROW_CHANGE_LABELS[row.change], row.key, ...rowNumbers, null, null, null]);
+    }
+  });
+
+  const summary: unknown[][] = [
+    ['Versión anterior', names.before],
+    ['Versión nueva', names.after],
+    [],
+    ['Cambio', 'Filas'],
+    ...(Object.keys(ROW_CHANGE_LABELS) as (keyof typeof ROW_CHANGE_LABELS)[]).map(change => [ROW_CHANGE_LABELS[change], diff.counts[change]]),
+    [],
+    ['Columnas añadidas', diff.addedColumns.join(', ')],
+    ['Columnas eliminadas', diff.removedColumns.join(', ')],
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, comparisonSheet, safeSheetName('Comparación'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(log), safeSheetName('Registro de cambios'));
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), 'Resumen');
+  return workbook;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { diffSheets, diffToJson, type DiffAlignment } from '@/lib/diff';
+
+const before = {
+  headers: ['id', 'nombre', 'zona'],
+  rows: [
+    { id: 1, nombre: 'Ana', zona: 'Norte' },
+    { id: 2, nombre: 'Bea', zona: null },
+    { id: 3, nombre: 'Carla', zona: 'Sur' },
+  ],
+};
+const after = {
+  headers: ['id', 'nombre', 'email'],
+  rows: [
+    { id: 2, nombre: 'Bea', email: '' },
+    { id: 1, nombre: 'Ana María', email: 'ana@x.es' },
+    { id: 4, nombre: 'Dora', email: null },
+  ],
+};
+
+describe('diffSheets', () => {
+  it('pairs rows by key and reports cell and column changes', () => {
+    const diff = diffSheets(before, after, { mode: 'key', keys: ['id'] });
+    expect(diff.headers).toEqual(['id', 'nombre', 'email', 'zona']);
+    expect(diff.addedColumns).toEqual(['email']);
+    expect(diff.removedColumns).toEqual(['zona']);
+    expect(diff.rows.map(row => [row.key, row.change])).toEqual([
+      ['2', 'unchanged'],
+      ['1', 'modified'],
+      ['4', 'added'],
+      ['3', 'removed'],
+    ]);
+    expect(diff.rows[1].changedHeaders).toEqual(['nombre', 'email', 'zona']);
+    expect(diff.counts).toEqual({ added: 1, removed: 1, modified: 1, unchanged: 1 });
+  });
+
+  it('pairs repeated keys in order and reports them', () => {
+    const rows = [{ id: 1, v: 'a' }, { id: 1, v: 'b' }];
+    const diff = diffSheets({ headers: ['id', 'v'], rows }, { headers: ['id', 'v'], rows: [...rows].reverse() }, { mode: 'key', keys: ['id'] });
+    expect(diff.duplicateKeys).toEqual(['1']);
+    expect(diff.counts.modified).toBe(2);
+  });
+
+  it('pairs rows by position', () => {
+    const diff = diffSheets(before, { headers: before.headers, rows: before.rows.slice(0, 2) }, { mode: 'position' });
+    expect(diff.rows.map(row => row.change)).toEqual(['unchanged', 'unchanged', 'removed']);
+  });
+});
+
+describe('diffToJson', () => {
+  it('lists only the changed rows, with cell values for modified ones', () => {
+    const alignment: DiffAlignment = { mode: 'key', keys: ['id'] };
+    const json = diffToJson(diffSheets(before, after, alignment), { before: 'v1.xlsx', after: 'v2.xlsx', alignment });
+    expect(json.changes).toHaveLength(3);
+    expect(json.changes[0]).toEqual({
+      change: 'modified',
+      key: '1',
+      beforeRow: 1,
+      afterRow: 2,
+      cells: {
+        nombre: { before: 'Ana', after: 'Ana María' },
+        email: { before: null, after: 'ana@x.es' },
+        zona: { before: 'Norte', after: null },
+      },
+    });
+  });
+});
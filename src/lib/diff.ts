@@ -0,0 +1,153 @@
+import type { SheetRow } from '@/lib/workbook';
+
+/** How rows of the two versions are paired: by key columns or by row number. */
+export type DiffAlignment = { mode: 'key'; keys: string[] } | { mode: 'position' };
+
+export type RowChange = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export const ROW_CHANGE_LABELS: Record<RowChange, string> = {
+  added: 'Añadida',
+  removed: 'Eliminada',
+  modified: 'Modificada',
+  unchanged: 'Sin cambios',
+};
+
+/**
+ * One aligned row. `beforeIndex`/`afterIndex` are data row indices in each
+ * version; `changedHeaders` lists the cells that differ in modified rows.
+ */
+export type DiffRow = {
+  change: RowChange;
+  key: string;
+  before?: SheetRow;
+  after?: SheetRow;
+  beforeIndex?: number;
+  afterIndex?: number;
+  changedHeaders: string[];
+};
+
+export type SheetDiff = {
+  /** Columns of both versions: the new version's order, then removed columns. */
+  headers: string[];
+  addedColumns: string[];
+  removedColumns: string[];
+  rows: DiffRow[];
+  counts: Record<RowChange, number>;
+  /** Keys found on more than one row of a version; repeats pair up in order. */
+  duplicateKeys: string[];
+};
+
+type DiffSheetInput = { headers: string[]; rows: SheetRow[] };
+
+const MAX_REPORTED_KEYS = 100;
+
+/** Empty strings, null and missing cells are the same; other values compare as text. */
+const sameValue = (a: unknown, b: unknown) => {
+  const empty = (value: unknown) => value === null || value === undefined || value === '';
+  if (empty(a) || empty(b)) return empty(a) && empty(b);
+  return a === b || String(a) === String(b);
+};
+
+const keyLabel = (row: SheetRow, keys: string[]) => keys.map(key => String(row[key] ?? '')).join(' · ');
+
+/**
+ * Pairs rows with the same key value, the n-th repeat of a key with the
+ * n-th repeat on the other side. Returns the pairs in the new version's
+ * order, followed by removed rows in the old version's order.
+ */
+function alignByKey(before: SheetRow[], after: SheetRow[], keys: string[], duplicates: Set<string>) {
+  const occurrences = (rows: SheetRow[]) => {
+    const seen = new Map<string, number>();
+    return rows.map(row => {
+      const label = keyLabel(row, keys);
+      const count = seen.get(label) ?? 0;
+      seen.set(label, count + 1);
+      if (count === 1 && duplicates.size < MAX_REPORTED_KEYS) duplicates.add(label);
+      return JSON.stringify([keys.map(key => String(row[key] ?? '')), count]);
+    });
+  };
+  const beforeKeys = occurrences(before);
+  const afterKeys = occurrences(after);
+  const beforeIndex = new Map(beforeKeys.map((key, index) => [key, index]));
+  const matched = new Set<number>();
+
+  const pairs: { beforeIndex?: number; afterIndex?: number }[] = afterKeys.map((key, afterIndex) => {
+    const index = beforeIndex.get(key);
+    if (index !== undefined) matched.add(index);
+    return { beforeIndex: index, afterIndex };
+  });
+  before.forEach((_, index) => {
+    if (!matched.has(index)) pairs.push({ beforeIndex: index });
+  });
+  return pairs;
+}
+
+const alignByPosition = (before: SheetRow[], after: SheetRow[]) =>
+  Array.from({ length: Math.max(before.length, after.length) }, (_, index) => ({
+    beforeIndex: index < before.length ? index : undefined,
+    afterIndex: index < after.length ? index : undefined,
+  }));
+
+/** Compares two versions of a sheet row by row and cell by cell. */
+export function diffSheets(before: DiffSheetInput, after: DiffSheetInput, alignment: DiffAlignment): SheetDiff {
+  const removedColumns = before.headers.filter(header => !after.headers.includes(header));
+  const addedColumns = after.headers.filter(header => !before.headers.includes(header));
+  const headers = [...after.headers, ...removedColumns];
+  const duplicates = new Set<string>();
+  const keys = alignment.mode === 'key' ? alignment.keys : [];
+
+  const pairs = alignment.mode === 'key'
+    ? alignByKey(before.rows, after.rows, keys, duplicates)
+    : alignByPosition(before.rows, after.rows);
+
+  const counts: Record<RowChange, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  const rows = pairs.map(({ beforeIndex, afterIndex }): DiffRow => {
+    const beforeRow = beforeIndex === undefined ? undefined : before.rows[beforeIndex];
+    const afterRow = afterIndex === undefined ? undefined : after.rows[afterIndex];
+    const changedHeaders = beforeRow && afterRow
+      ? headers.filter(header => !sameValue(beforeRow[header], afterRow[header]))
+      : [];
+    const change: RowChange = !beforeRow ? 'added' : !afterRow ? 'removed' : changedHeaders.length ? 'modified' : 'unchanged';
+    counts[change]++;
+    const keyRow = afterRow ?? beforeRow ?? {};
+    return {
+      change,
+      key: keys.length ? keyLabel(keyRow, keys) : String((afterIndex ?? beforeIndex ?? 0) + 1),
+      before: beforeRow,
+      after: afterRow,
+      beforeIndex,
+      afterIndex,
+      changedHeaders,
+    };
+  });
+
+  return { headers, addedColumns, removedColumns, rows, counts, duplicateKeys: Array.from(duplicates) };
+}
+
+/** The diff as exported JSON: counts, column changes and every changed row with its cell changes. */
+export function diffToJson(diff: SheetDiff, meta: { before: string; after: string; alignment: DiffAlignment }) {
+  return {
+    before: meta.before,
+    after: meta.after,
+    alignment: meta.alignment,
+    summary: diff.counts,
+    addedColumns: diff.addedColumns,
+    removedColumns: diff.removedColumns,
+    changes: diff.rows
+      .filter(row => row.change !== 'unchanged')
+      .map(row => ({
+        change: row.change,
+        key: row.key,
+        beforeRow: row.beforeIndex === undefined ? null : row.beforeIndex + 1,
+        afterRow: row.afterIndex === undefined ? null : row.afterIndex + 1,
+        ...(row.change === 'modified'
+          ? {
+              cells: Object.fromEntries(row.changedHeaders.map(header => [
+                header,
+                { before: row.before?.[header] ?? null, after: row.after?.[header] ?? null },
+              ])),
+            }
+          : { values: row.after ?? row.before }),
+      })),
+  };
+}
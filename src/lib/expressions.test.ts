@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { applyComputedColumns, compileExpression, evaluate, ExpressionError } from '@/lib/expressions';
+import type { SheetRow } from '@/lib/workbook';
+
+const run = (expression: string, row: SheetRow) => evaluate(compileExpression(expression, Object.keys(row)), row);
+
+describe('evaluate', () => {
+  it('adds numbers and concatenates text with +', () => {
+    expect(run('cantidad * precio + 1', { cantidad: 2, precio: '1,5' })).toBe(4);
+    expect(run('nombre + " " + apellido', { nombre: 'Ana', apellido: 'Gil' })).toBe('Ana Gil');
+  });
+
+  it('keeps a number next to a text of spaces', () => {
+    expect(run('numero + " " + calle', { numero: 123, calle: 'Mayor' })).toBe('123 Mayor');
+    expect(run('numero + " "', { numero: 123 })).toBe('123 ');
+  });
+
+  it('treats an empty cell next to a number as a missing operand', () => {
+    expect(run('a + b', { a: 5, b: '' })).toBeNull();
+    expect(run('a + b', { a: null, b: 5 })).toBeNull();
+    expect(run('a - b', { a: 5, b: '  ' })).toBeNull();
+    expect(run('SUM(a, b)', { a: 5, b: '' })).toBe(5);
+  });
+
+  it('reads decimal commas with thousands separators', () => {
+    expect(run('NUMBER(a)', { a: '1.234,56' })).toBe(1234.56);
+    expect(run('NUMBER(a)', { a: '12,5' })).toBe(12.5);
+    expect(run('NUMBER(a)', { a: '1.5' })).toBe(1.5);
+    expect(run('NUMBER(a)', { a: 'n/d' })).toBeNull();
+  });
+
+  it('treats whitespace-only text as blank', () => {
+    expect(run('ISEMPTY(a)', { a: '   ' })).toBe(true);
+    expect(run('COALESCE(a, b)', { a: ' ', b: 'x' })).toBe('x');
+  });
+
+  it('resolves bracketed columns loosely', () => {
+    expect(run('IF([Ventas Q1] > 100, "alto", "bajo")', { 'ventas  q1': 150 })).toBe('alto');
+  });
+});
+
+describe('compileExpression', () => {
+  it('rejects unknown columns and functions', () => {
+    expect(() => compileExpression('precio * 2', ['cantidad'])).toThrow(ExpressionError);
+    expect(() => compileExpression('EVAL("1")', [])).toThrow(ExpressionError);
+  });
+});
+
+describe('applyComputedColumns', () => {
+  it('adds columns in order and reports the ones that fail to compile', () => {
+    const result = applyComputedColumns([{ a: 2 }], ['a'], [
+      { name: 'doble', expression: 'a * 2' },
+      { name: 'cuadruple', expression: 'doble * 2' },
+      { name: 'roto', expression: 'a +' },
+      { name: 'A', expression: '1' },
+    ]);
+    expect(result.headers).toEqual(['doble', 'cuadruple']);
+    expect(result.rows).toEqual([{ a: 2, doble: 4, cuadruple: 8 }]);
+    expect(Object.keys(result.errors)).toEqual(['roto', 'A']);
+  });
+});
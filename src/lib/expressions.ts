@@ -0,0 +1,538 @@
+import { z } from 'zod';
+import { addDays, addMonths, differenceInCalendarDays, format, isValid, parseISO } from 'date-fns';
+import { normalizeHeader, type SheetRow } from '@/lib/workbook';
+
+/**
+ * Small, sandboxed expression language for computed columns. Expressions are
+ * parsed into an AST and interpreted; nothing is ever handed to `eval`, and
+ * only the whitelisted functions below can be called.
+ *
+ *   cantidad * precio
+ *   nombre + " " + apellido
+ *   IF([Ventas.Q1] > 100, "alto", "bajo")
+ *
+ * Columns are referenced by header name, bare when it is a simple word and
+ * in brackets otherwise. Matching ignores case, accents and spacing.
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string, readonly position?: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'column'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+export type ExpressionNode =
+  | { type: 'literal'; value: Value }
+  | { type: 'column'; header: string }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type Value = string | number | boolean | null;
+
+const OPERATORS = ['&&', '||', '==', '!=', '<>', '<=', '>=', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>', '!', '(', ')', ','];
+const IDENTIFIER_START = /[A-Za-z_À-ɏ]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_À-ɏ]/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const position = i;
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ kind: 'number', value: Number(match[0]), position });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) throw new ExpressionError('Texto sin cerrar.', position);
+      i++;
+      tokens.push({ kind: 'string', value, position });
+      continue;
+    }
+
+    if (char === '[') {
+      const end = source.indexOf(']', i);
+      if (end === -1) throw new ExpressionError('Falta «]» en la referencia a columna.', position);
+      tokens.push({ kind: 'column', value: source.slice(i + 1, end), position });
+      i = end + 1;
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      let value = '';
+      while (i < source.length && IDENTIFIER_PART.test(source[i])) {
+        value += source[i];
+        i++;
+      }
+      tokens.push({ kind: 'identifier', value, position });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) throw new ExpressionError(`Carácter inesperado «${char}».`, position);
+    tokens.push({ kind: 'operator', value: operator, position });
+    i += operator.length;
+  }
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+// Binding power per binary operator; `^` is right-associative.
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '=': 3, '==': 3, '!=': 3, '<>': 3,
+  '<': 4, '>': 4, '<=': 4, '>=': 4,
+  '+': 5, '-': 5, '&': 5,
+  '*': 6, '/': 6, '%': 6,
+  '^': 8,
+};
+const UNARY_PRECEDENCE = 7;
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly resolveColumn: (name: string, position: number) => string
+  ) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseExpression(0);
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new ExpressionError('Sobra contenido al final de la expresión.', token.position);
+    }
+    return node;
+  }
+
+  private peek() {
+    return this.tokens[this.index];
+  }
+
+  private next() {
+    return this.tokens[this.index++];
+  }
+
+  private expectOperator(value: string) {
+    const token = this.next();
+    if (token.kind !== 'operator' || token.value !== value) {
+      throw new ExpressionError(`Se esperaba «${value}».`, token.position);
+    }
+  }
+
+  private parseExpression(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+    while (true) {
+      const token = this.peek();
+      if (token.kind !== 'operator') break;
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence === undefined || precedence <= minPrecedence) break;
+      this.next();
+      const right = this.parseExpression(token.value === '^' ? precedence - 1 : precedence);
+      left = { type: 'binary', operator: token.value, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.kind === 'operator' && (token.value === '-' || token.value === '+' || token.value === '!')) {
+      this.next();
+      return { type: 'unary', operator: token.value, argument: this.parseExpression(UNARY_PRECEDENCE) };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'column':
+        return { type: 'column', header: this.resolveColumn(token.value, token.position) };
+      case 'identifier': {
+        const lower = token.value.toLowerCase();
+        const following = this.peek();
+        if (following.kind === 'operator' && following.value === '(') {
+          return this.parseCall(token.value, token.position);
+        }
+        if (lower === 'true' || lower === 'verdadero') return { type: 'literal', value: true };
+        if (lower === 'false' || lower === 'falso') return { type: 'literal', value: false };
+        if (lower === 'null') return { type: 'literal', value: null };
+        return { type: 'column', header: this.resolveColumn(token.value, token.position) };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseExpression(0);
+          this.expectOperator(')');
+          return node;
+        }
+        throw new ExpressionError(`Operador inesperado «${token.value}».`, token.position);
+      case 'end':
+        throw new ExpressionError('La expresión está incompleta.', token.position);
+    }
+  }
+
+  private parseCall(rawName: string, position: number): ExpressionNode {
+    const name = rawName.toUpperCase();
+    const definition = FUNCTIONS[name];
+    if (!definition) throw new ExpressionError(`Función desconocida «${rawName}».`, position);
+
+    this.expectOperator('(');
+    const args: ExpressionNode[] = [];
+    const closing = this.peek();
+    if (!(closing.kind === 'operator' && closing.value === ')')) {
+      args.push(this.parseExpression(0));
+      while (this.peek().kind === 'operator' && (this.peek() as { value: string }).value === ',') {
+        this.next();
+        args.push(this.parseExpression(0));
+      }
+    }
+    this.expectOperator(')');
+
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected = definition.minArgs === definition.maxArgs
+        ? `${definition.minArgs}`
+        : definition.maxArgs === Infinity
+          ? `al menos ${definition.minArgs}`
+          : `entre ${definition.minArgs} y ${definition.maxArgs}`;
+      throw new ExpressionError(`${name} espera ${expected} argumento(s).`, position);
+    }
+    return { type: 'call', name, args };
+  }
+}
+
+// Text of only whitespace is blank too, never the number 0.
+const isBlank = (value: Value) => value === null || (typeof value === 'string' && value.trim() === '');
+
+const isMissing = (value: Value) => value === null || value === '';
+
+const toNumber = (value: Value): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (isBlank(value)) return null;
+  // A decimal comma comes with dots as thousands separators: `1.234,56`.
+  const text = String(value).trim();
+  const parsed = Number(text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const toText = (value: Value) => (value === null ? '' : String(value));
+
+const isTruthy = (value: Value) => !(isBlank(value) || value === false || value === 0);
+
+const toDate = (value: Value): Date | null => {
+  if (isBlank(value)) return null;
+  const date = parseISO(String(value));
+  return isValid(date) ? date : null;
+};
+
+const toIsoDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const numeric = (fn: (...values: number[]) => number) => (args: Value[]): Value => {
+  const values = args.map(toNumber);
+  if (values.some(value => value === null)) return null;
+  const result = fn(...(values as number[]));
+  return isFinite(result) ? result : null;
+};
+
+const dated = (fn: (date: Date, ...rest: Value[]) => Value) => (args: Value[]): Value => {
+  const date = toDate(args[0]);
+  return date ? fn(date, ...args.slice(1)) : null;
+};
+
+type FunctionDefinition = {
+  minArgs: number;
+  maxArgs: number;
+  description: string;
+  apply: (args: Value[]) => Value;
+};
+
+export const FUNCTIONS: Record<string, FunctionDefinition> = {
+  // Arithmetic
+  ABS: { minArgs: 1, maxArgs: 1, description: 'Valor absoluto', apply: numeric(Math.abs) },
+  ROUND: {
+    minArgs: 1, maxArgs: 2, description: 'Redondea a N decimales',
+    apply: numeric((value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits),
+  },
+  FLOOR: { minArgs: 1, maxArgs: 1, description: 'Redondea hacia abajo', apply: numeric(Math.floor) },
+  CEIL: { minArgs: 1, maxArgs: 1, description: 'Redondea hacia arriba', apply: numeric(Math.ceil) },
+  MOD: { minArgs: 2, maxArgs: 2, description: 'Resto de la división', apply: numeric((a, b) => a % b) },
+  MIN: { minArgs: 1, maxArgs: Infinity, description: 'Mínimo', apply: numeric(Math.min) },
+  MAX: { minArgs: 1, maxArgs: Infinity, description: 'Máximo', apply: numeric(Math.max) },
+  SUM: {
+    minArgs: 1, maxArgs: Infinity, description: 'Suma (ignora vacíos)',
+    apply: args => args.map(toNumber).reduce<number>((total, value) => total + (value ?? 0), 0),
+  },
+  NUMBER: { minArgs: 1, maxArgs: 1, description: 'Convierte a número', apply: ([value]) => toNumber(value) },
+
+  // Text
+  TEXT: { minArgs: 1, maxArgs: 1, description: 'Convierte a texto', apply: ([value]) => toText(value) },
+  CONCAT: { minArgs: 1, maxArgs: Infinity, description: 'Une textos', apply: args => args.map(toText).join('') },
+  UPPER: { minArgs: 1, maxArgs: 1, description: 'Mayúsculas', apply: ([value]) => toText(value).toUpperCase() },
+  LOWER: { minArgs: 1, maxArgs: 1, description: 'Minúsculas', apply: ([value]) => toText(value).toLowerCase() },
+  TRIM: { minArgs: 1, maxArgs: 1, description: 'Quita espacios sobrantes', apply: ([value]) => toText(value).trim().replace(/\s+/g, ' ') },
+  LEN: { minArgs: 1, maxArgs: 1, description: 'Longitud del texto', apply: ([value]) => toText(value).length },
+  LEFT: {
+    minArgs: 2, maxArgs: 2, description: 'Primeros N caracteres',
+    apply: ([value, count]) => toText(value).slice(0, toNumber(count) ?? 0),
+  },
+  RIGHT: {
+    minArgs: 2, maxArgs: 2, description: 'Últimos N caracteres',
+    apply: ([value, count]) => {
+      const n = toNumber(count) ?? 0;
+      return n > 0 ? toText(value).slice(-n) : '';
+    },
+  },
+  SUBSTR: {
+    minArgs: 2, maxArgs: 3, description: 'Subtexto desde la posición (1-based)',
+    apply: ([value, start, length]) => {
+      const from = Math.max((toNumber(start) ?? 1) - 1, 0);
+      const count = toNumber(length);
+      return toText(value).substr(from, count ?? undefined);
+    },
+  },
+  REPLACE: {
+    minArgs: 3, maxArgs: 3, description: 'Reemplaza todas las apariciones',
+    apply: ([value, search, replacement]) => toText(value).split(toText(search)).join(toText(replacement)),
+  },
+  CONTAINS: {
+    minArgs: 2, maxArgs: 2, description: 'Contiene el texto (sin distinguir mayúsculas)',
+    apply: ([value, search]) => toText(value).toLowerCase().includes(toText(search).toLowerCase()),
+  },
+
+  // Dates (ISO-8601 in and out)
+  TODAY: { minArgs: 0, maxArgs: 0, description: 'Fecha de hoy', apply: () => toIsoDate(new Date()) },
+  YEAR: { minArgs: 1, maxArgs: 1, description: 'Año de una fecha', apply: dated(date => date.getFullYear()) },
+  MONTH: { minArgs: 1, maxArgs: 1, description: 'Mes de una fecha', apply: dated(date => date.getMonth() + 1) },
+  DAY: { minArgs: 1, maxArgs: 1, description: 'Día de una fecha', apply: dated(date => date.getDate()) },
+  ADDDAYS: {
+    minArgs: 2, maxArgs: 2, description: 'Suma días a una fecha',
+    apply: dated((date, days) => toIsoDate(addDays(date, toNumber(days) ?? 0))),
+  },
+  ADDMONTHS: {
+    minArgs: 2, maxArgs: 2, description: 'Suma meses a una fecha',
+    apply: dated((date, months) => toIsoDate(addMonths(date, toNumber(months) ?? 0))),
+  },
+  DATEDIFF: {
+    minArgs: 2, maxArgs: 2, description: 'Días entre dos fechas (fin, inicio)',
+    apply: ([end, start]) => {
+      const endDate = toDate(end);
+      const startDate = toDate(start);
+      return endDate && startDate ? differenceInCalendarDays(endDate, startDate) : null;
+    },
+  },
+  FORMATDATE: {
+    minArgs: 2, maxArgs: 2, description: 'Formatea una fecha (p. ej. "dd/MM/yyyy")',
+    apply: dated((date, pattern) => {
+      try {
+        return format(date, toText(pattern));
+      } catch {
+        throw new ExpressionError(`Formato de fecha no válido «${toText(pattern)}».`);
+      }
+    }),
+  },
+
+  // Conditionals
+  IF: {
+    minArgs: 2, maxArgs: 3, description: 'Si la condición se cumple, el segundo valor; si no, el tercero',
+    apply: ([condition, whenTrue, whenFalse]) => (isTruthy(condition) ? whenTrue : whenFalse ?? null),
+  },
+  AND: { minArgs: 1, maxArgs: Infinity, description: 'Todas las condiciones se cumplen', apply: args => args.every(isTruthy) },
+  OR: { minArgs: 1, maxArgs: Infinity, description: 'Alguna condición se cumple', apply: args => args.some(isTruthy) },
+  NOT: { minArgs: 1, maxArgs: 1, description: 'Niega la condición', apply: ([value]) => !isTruthy(value) },
+  ISEMPTY: { minArgs: 1, maxArgs: 1, description: 'El valor está vacío', apply: ([value]) => isBlank(value) },
+  COALESCE: {
+    minArgs: 1, maxArgs: Infinity, description: 'Primer valor no vacío',
+    apply: args => args.find(value => !isBlank(value)) ?? null,
+  },
+};
+
+function compare(left: Value, right: Value): number {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a - b;
+  return toText(left).localeCompare(toText(right), 'es');
+}
+
+function evaluateBinary(operator: string, left: Value, right: Value): Value {
+  switch (operator) {
+    case '+': {
+      // Adds when both sides are numeric, otherwise concatenates. An empty
+      // cell next to a number is a missing operand, as for the other
+      // arithmetic; text of spaces is still text, as in `numero + " " + calle`.
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a !== null && b !== null) return a + b;
+      if ((a !== null && isMissing(right)) || (b !== null && isMissing(left))) return null;
+      if (typeof left === 'string' || typeof right === 'string') return toText(left) + toText(right);
+      return null;
+    }
+    case '&':
+      return toText(left) + toText(right);
+    case '-':
+    case '*':
+    case '/':
+    case '%':
+    case '^': {
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+      const result = operator === '-' ? a - b
+        : operator === '*' ? a * b
+        : operator === '/' ? a / b
+        : operator === '%' ? a % b
+        : a ** b;
+      return isFinite(result) ? result : null;
+    }
+    case '=':
+    case '==':
+      return isBlank(left) && isBlank(right) ? true : compare(left, right) === 0;
+    case '!=':
+    case '<>':
+      return isBlank(left) && isBlank(right) ? false : compare(left, right) !== 0;
+    case '<':
+      return compare(left, right) < 0;
+    case '>':
+      return compare(left, right) > 0;
+    case '<=':
+      return compare(left, right) <= 0;
+    case '>=':
+      return compare(left, right) >= 0;
+    case '&&':
+      return isTruthy(left) && isTruthy(right);
+    case '||':
+      return isTruthy(left) || isTruthy(right);
+    default:
+      throw new ExpressionError(`Operador no soportado «${operator}».`);
+  }
+}
+
+export function evaluate(node: ExpressionNode, row: SheetRow): Value {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'column': {
+      const value = row[node.header];
+      return value === undefined ? null : value;
+    }
+    case 'unary': {
+      const value = evaluate(node.argument, row);
+      if (node.operator === '!') return !isTruthy(value);
+      const number = toNumber(value);
+      if (number === null) return null;
+      return node.operator === '-' ? -number : number;
+    }
+    case 'binary':
+      return evaluateBinary(node.operator, evaluate(node.left, row), evaluate(node.right, row));
+    case 'call':
+      return FUNCTIONS[node.name].apply(node.args.map(arg => evaluate(arg, row)));
+  }
+}
+
+/**
+ * Parses an expression, resolving column names against `headers`. Throws an
+ * `ExpressionError` (with the offending position when known) on bad syntax,
+ * unknown columns or functions, and wrong argument counts.
+ */
+export function compileExpression(source: string, headers: string[]): ExpressionNode {
+  if (!source.trim()) throw new ExpressionError('La expresión está vacía.', 0);
+  const byName = new Map(headers.map(header => [normalizeHeader(header), header]));
+  const resolveColumn = (name: string, position: number) => {
+    const header = byName.get(normalizeHeader(name));
+    if (!header) throw new ExpressionError(`Columna desconocida «${name}».`, position);
+    return header;
+  };
+  return new Parser(tokenize(source), resolveColumn).parse();
+}
+
+export const computedColumnSchema = z.object({
+  name: z.string(),
+  expression: z.string(),
+});
+export type ComputedColumn = z.infer<typeof computedColumnSchema>;
+
+export type ComputedColumnsResult = {
+  rows: SheetRow[];
+  /** Names of the columns that compiled and were added. */
+  headers: string[];
+  /** Compile error per column name. */
+  errors: { [name: string]: string };
+  /** Rows whose evaluation failed (value left null), per column name. */
+  rowErrors: { [name: string]: number };
+};
+
+/**
+ * Adds computed columns in order; each one can reference the source headers
+ * and the computed columns before it. Columns that fail to compile are
+ * skipped and reported; evaluation errors leave the cell null.
+ */
+export function applyComputedColumns(rows: SheetRow[], headers: string[], columns: ComputedColumn[]): ComputedColumnsResult {
+  const errors: { [name: string]: string } = {};
+  const rowErrors: { [name: string]: number } = {};
+  const compiled: { name: string; node: ExpressionNode }[] = [];
+  const available = [...headers];
+
+  for (const column of columns) {
+    const name = column.name.trim();
+    if (!name) {
+      errors[column.name] = 'La columna necesita un nombre.';
+      continue;
+    }
+    if (available.some(header => normalizeHeader(header) === normalizeHeader(name))) {
+      errors[column.name] = `Ya existe una columna llamada «${name}».`;
+      continue;
+    }
+    try {
+      compiled.push({ name, node: compileExpression(column.expression, available) });
+      available.push(name);
+    } catch (error) {
+      errors[column.name] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  if (!compiled.length) return { rows, headers: [], errors, rowErrors };
+
+  const computedRows = rows.map(row => {
+    const next: SheetRow = { ...row };
+    for (const { name, node } of compiled) {
+      try {
+        next[name] = evaluate(node, next);
+      } catch {
+        next[name] = null;
+        rowErrors[name] = (rowErrors[name] ?? 0) + 1;
+      }
+    }
+    return next;
+  });
+  return { rows: computedRows, headers: compiled.map(column => column.name), errors, rowErrors };
+}
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { logEntrySchema } from '@/lib/logs';
+import { jobStatusSchema, processingOptionsSchema } from '@/lib/processing';
+
+const DB_NAME = 'excel-flow';
+const DB_VERSION = 1;
+const RECORDS_STORE = 'imports';
+const FILES_STORE = 'files';
+const MAX_RECORDS = 50;
+
+const artifactSchema = z.object({
+  name: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  url: z.string(),
+});
+
+/**
+ * One past import, keyed by the id of its processing job. The original file
+ * is stored once per content hash so it can be reopened or processed again;
+ * `sentRows` marks imports whose edited preview rows were sent instead of
+ * the file, which a re-run from the file does not reproduce.
+ */
+export const importRecordSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  fileSize: z.number(),
+  fileHash: z.string(),
+  sheetName: z.string(),
+  sheetNames: z.array(z.string()),
+  rowCounts: z.record(z.string(), z.number()),
+  status: jobStatusSchema,
+  createdAt: z.string(),
+  finishedAt: z.string().optional(),
+  durationMs: z.number().optional(),
+  sentRows: z.boolean(),
+  options: processingOptionsSchema,
+  logs: z.array(logEntrySchema),
+  artifacts: z.array(artifactSchema),
+  error: z.string().optional(),
+});
+export type ImportRecord = z.infer<typeof importRecordSchema>;
+
+type StoredFile = {
+  hash: string;
+  name: string;
+  type: string;
+  lastModified: number;
+  blob: Blob;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RECORDS_STORE)) db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE, { keyPath: 'hash' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Runs `work` in one transaction and resolves with its result once the transaction commits. */
+async function withStores<T>(
+  mode: IDBTransactionMode,
+  work: (stores: { records: IDBObjectStore; files: IDBObjectStore }) => Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDS_STORE, FILES_STORE], mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const [result] = await Promise.all([
+    work({ records: transaction.objectStore(RECORDS_STORE), files: transaction.objectStore(FILES_STORE) }),
+    done,
+  ]);
+  return result;
+}
+
+/** SHA-256 of the file contents as lowercase hex. */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Stored imports, newest first. Entries that no longer match the schema are skipped. */
+export async function listImportRecords(): Promise<ImportRecord[]> {
+  const stored = await withStores('readonly', ({ records }) => promisify(records.getAll()));
+  return stored
+    .map(record => importRecordSchema.safeParse(record))
+    .flatMap(parsed => (parsed.success ? [parsed.data] : []))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Stores a new import with its file, dropping the oldest records (and files
+ * no longer referenced) beyond the history limit.
+ */
+export async function addImportRecord(record: ImportRecord, file: File): Promise<void> {
+  const stored: StoredFile = { hash: record.fileHash, name: file.name, type: file.type, lastModified: file.lastModified, blob: file };
+  await withStores('readwrite', async ({ records, files }) => {
+    records.put(record);
+    files.put(stored);
+    const all: ImportRecord[] = await promisify(records.getAll());
+    const expired = all.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(MAX_RECORDS);
+    expired.forEach(old => records.delete(old.id));
+    const kept = new Set(all.slice(0, MAX_RECORDS).map(r => r.fileHash));
+    expired.filter(old => !kept.has(old.fileHash)).forEach(old => files.delete(old.fileHash));
+  });
+}
+
+/** Applies `change` to a stored import; resolves with the result, or null when it is gone. */
+export async function updateImportRecord(
+  id: string,
+  change: (record: ImportRecord) => ImportRecord
+): Promise<ImportRecord | null> {
+  return withStores('readwrite', async ({ records }) => {
+    const current: ImportRecord | undefined = await promisify(records.get(id));
+    if (!current) return null;
+    const next = change(current);
+    records.put(next);
+    return next;
+  });
+}
+
+/** Removes an import, and its file unless another import shares it. */
+export async function deleteImportRecord(id: string): Promise<void> {
+  await withStores('readwrite', async ({ records, files }) => {
+    const record: ImportRecord | undefined = await promisify(records.get(id));
+    if (!record) return;
+    records.delete(id);
+    const all: ImportRecord[] = await promisify(records.getAll());
+    if (!all.some(other => other.id !== id && other.fileHash === record.fileHash)) files.delete(record.fileHash);
+  });
+}
+
+/** The original file of an import, or null if it is no longer stored. */
+export async function loadImportFile(record: ImportRecord): Promise<File | null> {
+  const stored: StoredFile | undefined = await withStores('readonly', ({ files }) => promisify(files.get(record.fileHash)));
+  if (!stored) return null;
+  return new File([stored.blob], stored.name, { type: stored.type, lastModified: stored.lastModified });
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { importSchemaSchema, isIsoDate, isValidPattern, validateRows, type ImportSchema } from '@/lib/import-schemas';
+
+const schemaOf = (columns: ImportSchema['columns']): ImportSchema => ({ id: 'prueba', name: 'Prueba', columns });
+
+describe('isValidPattern', () => {
+  it('accepts patterns that compile and rejects the rest', () => {
+    expect(isValidPattern('^[A-Z]{3}$')).toBe(true);
+    expect(isValidPattern('(abc')).toBe(false);
+    expect(importSchemaSchema.safeParse(schemaOf([{ header: 'a', pattern: '[' }])).success).toBe(false);
+  });
+});
+
+describe('validateRows', () => {
+  it('matches rule headers loosely and reports missing required columns', () => {
+    const schema = schemaOf([
+      { header: 'Código', required: true, type: 'string' },
+      { header: 'Importe', required: true, type: 'number' },
+    ]);
+    const result = validateRows([{ ' codigo ': 'A1' }], [' codigo '], schema);
+    expect(result.issues).toEqual([expect.objectContaining({ rowIndex: null, header: 'Importe', rule: 'missingColumn' })]);
+  });
+
+  it('reports the first failing check per cell with its severity', () => {
+    const schema = schemaOf([
+      { header: 'Cantidad', type: 'integer', min: 0 },
+      { header: 'Código', pattern: '^[A-Z]+$', severity: 'warning' },
+    ]);
+    const rows = [
+      { Cantidad: '1,5', Código: 'ABC' },
+      { Cantidad: -2, Código: 'abc' },
+    ];
+    const result = validateRows(rows, ['Cantidad', 'Código'], schema);
+    expect(result.issues.map(issue => [issue.rowIndex, issue.rule, issue.severity])).toEqual([
+      [0, 'type', 'error'],
+      [1, 'min', 'error'],
+      [1, 'pattern', 'warning'],
+    ]);
+    expect(result.errorCount).toBe(2);
+    expect(result.warningCount).toBe(1);
+  });
+
+  it('reports repeated values of unique columns', () => {
+    const schema = schemaOf([{ header: 'Id', unique: true }]);
+    const result = validateRows([{ Id: 'a' }, { Id: 'b' }, { Id: 'a' }], ['Id'], schema);
+    expect(result.issues).toEqual([expect.objectContaining({ rowIndex: 2, rule: 'unique' })]);
+  });
+});
+
+describe('date rules', () => {
+  const schema = schemaOf([{ header: 'Fecha', type: 'date', min: '2024-01-01' }]);
+  const issuesOf = (values: unknown[]) =>
+    validateRows(values.map(Fecha => ({ Fecha })), ['Fecha'], schema).issues.map(issue => [issue.rowIndex, issue.rule]);
+
+  it('accepts ISO dates, with or without the time', () => {
+    expect(issuesOf(['2024-01-15', '2024-02-29T10:30:00', '2024-12-31T23:59'])).toEqual([]);
+  });
+
+  it('rejects days that do not exist and trailing text', () => {
+    expect(issuesOf(['2024-13-45', '2024-02-30', '2023-02-29', '2024-01-01garbage'])).toEqual([
+      [0, 'type'],
+      [1, 'type'],
+      [2, 'type'],
+      [3, 'type'],
+    ]);
+  });
+
+  it('checks the range on the day', () => {
+    expect(issuesOf(['2023-12-31'])).toEqual([[0, 'min']]);
+  });
+});
+
+describe('isIsoDate', () => {
+  it('checks the shape and the calendar', () => {
+    expect(isIsoDate('2024-02-29')).toBe(true);
+    expect(isIsoDate('0099-01-01')).toBe(true);
+    expect(isIsoDate('2024-04-31')).toBe(false);
+    expect(isIsoDate('2024-1-1')).toBe(false);
+  });
+});
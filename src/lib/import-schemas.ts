@@ -0,0 +1,343 @@
+import { z } from 'zod';
+import { ISO_DATE, normalizeHeader, toDateKey, type SheetRow } from '@/lib/workbook';
+
+export const severitySchema = z.enum(['error', 'warning']);
+export type Severity = z.infer<typeof severitySchema>;
+
+export const columnValueTypeSchema = z.enum(['string', 'number', 'integer', 'boolean', 'date']);
+export type ColumnValueType = z.infer<typeof columnValueTypeSchema>;
+
+/** True when a rule pattern compiles as a regular expression. */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Declarative rule for one column. `required` means the column must exist
+ * and every cell must have a value; the other checks only apply to filled
+ * cells. For strings, `min`/`max` bound the length; for dates they are
+ * `yyyy-MM-dd` strings.
+ */
+export const columnRuleSchema = z.object({
+  header: z.string().min(1),
+  required: z.boolean().optional(),
+  type: columnValueTypeSchema.optional(),
+  pattern: z.string().refine(isValidPattern, 'Patrón no válido.').optional(),
+  min: z.union([z.number(), z.string()]).optional(),
+  max: z.union([z.number(), z.string()]).optional(),
+  enum: z.array(z.union([z.string(), z.number()])).nonempty().optional(),
+  unique: z.boolean().optional(),
+  severity: severitySchema.optional(),
+});
+export type ColumnRule = z.infer<typeof columnRuleSchema>;
+
+export const importSchemaSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  columns: z.array(columnRuleSchema),
+});
+export type ImportSchema = z.infer<typeof importSchemaSchema>;
+
+export type RuleCode = 'missingColumn' | 'required' | 'type' | 'pattern' | 'min' | 'max' | 'enum' | 'unique';
+
+export const RULE_LABELS: Record<RuleCode, string> = {
+  missingColumn: 'Columna faltante',
+  required: 'Valor obligatorio',
+  type: 'Tipo de dato',
+  pattern: 'Formato',
+  min: 'Valor mínimo',
+  max: 'Valor máximo',
+  enum: 'Valor permitido',
+  unique: 'Valor único',
+};
+
+export type ValidationIssue = {
+  /** Data row index, or null for column-level issues. */
+  rowIndex: number | null;
+  header: string;
+  rule: RuleCode;
+  severity: Severity;
+  message: string;
+};
+
+export type ValidationResult = {
+  schemaId: string;
+  issues: ValidationIssue[];
+  /** Issues per cell, keyed by `cellKey(rowIndex, header)`. */
+  cellIssues: Map<string, ValidationIssue[]>;
+  errorCount: number;
+  warningCount: number;
+};
+
+export const cellKey = (rowIndex: number, header: string) => `${rowIndex}\u0000${header}`;
+
+export const IMPORT_SCHEMAS: ImportSchema[] = [
+  {
+    id: 'clientes',
+    name: 'Clientes',
+    columns: [
+      { header: 'Código Cliente', required: true, type: 'string', pattern: '^[A-Za-z0-9-]+$', unique: true },
+      { header: 'Nombre', required: true, type: 'string', max: 120 },
+      { header: 'Email', type: 'string', pattern: '^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$', severity: 'warning' },
+      { header: 'Fecha Alta', type: 'date' },
+      { header: 'Segmento', enum: ['A', 'B', 'C'], severity: 'warning' },
+    ],
+  },
+  {
+    id: 'ventas',
+    name: 'Ventas',
+    columns: [
+      { header: 'Fecha', required: true, type: 'date' },
+      { header: 'Código Cliente', required: true, type: 'string' },
+      { header: 'Cantidad', required: true, type: 'integer', min: 0 },
+      { header: 'Precio', required: true, type: 'number', min: 0 },
+      { header: 'Moneda', enum: ['EUR', 'USD', 'ARS'], severity: 'warning' },
+    ],
+  },
+];
+
+const SAVED_SCHEMAS_STORAGE_KEY = 'excel-flow:import-schemas';
+
+/** Schemas saved in this browser, e.g. generated from a sheet; listed after the built-in ones. */
+export function loadSavedSchemas(): ImportSchema[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(SAVED_SCHEMAS_STORAGE_KEY) ?? '[]');
+    const parsed = z.array(importSchemaSchema).safeParse(stored);
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeSavedSchemas(schemas: ImportSchema[]) {
+  window.localStorage.setItem(SAVED_SCHEMAS_STORAGE_KEY, JSON.stringify(schemas));
+}
+
+/** Saves a schema; one with the same name is overwritten and keeps its id. */
+export function saveImportSchema(schema: ImportSchema): ImportSchema[] {
+  const schemas = loadSavedSchemas();
+  const existing = schemas.find(candidate => candidate.name === schema.name);
+  const saved = { ...schema, id: existing?.id ?? schema.id };
+  const next = [...schemas.filter(candidate => candidate.id !== saved.id), saved];
+  storeSavedSchemas(next);
+  return next;
+}
+
+export function deleteSavedSchema(id: string): ImportSchema[] {
+  const next = loadSavedSchemas().filter(schema => schema.id !== id);
+  storeSavedSchemas(next);
+  return next;
+}
+
+export const isBuiltInSchema = (schema: ImportSchema) => IMPORT_SCHEMAS.some(builtIn => builtIn.id === schema.id);
+
+/**
+ * The step fields that select a schema on the server: built-in schemas go
+ * by id, saved ones whole, since only the browser keeps them.
+ */
+export const schemaStep = (schema?: ImportSchema) => ({
+  schemaId: schema?.id,
+  schema: schema && !isBuiltInSchema(schema) ? schema : undefined,
+});
+
+const isEmpty = (value: any) => value === null || value === undefined || String(value).trim() === '';
+
+const TRUE_TEXT = /^(true|verdadero|s[ií]|yes)$/i;
+const FALSE_TEXT = /^(false|falso|no)$/i;
+/** True for `ISO_DATE` text of a day that exists, so not `2024-02-30`. */
+export function isIsoDate(text: string): boolean {
+  if (!ISO_DATE.test(text)) return false;
+  const [year, month, day] = text.slice(0, 10).split('-').map(Number);
+  const date = new Date(0);
+  date.setFullYear(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/**
+ * Brings a cell value to the rule's type so typed and formatted values are
+ * validated alike. Values that cannot be converted are returned as is and
+ * fail the type check.
+ */
+function normalizeValue(value: any, type: ColumnValueType | undefined): unknown {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      if (typeof value === 'number') return value;
+      const parsed = Number(String(value).trim().replace(',', '.'));
+      return isNaN(parsed) ? value : parsed;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (TRUE_TEXT.test(String(value).trim())) return true;
+      if (FALSE_TEXT.test(String(value).trim())) return false;
+      return value;
+    case 'date':
+      return toDateKey(value) ?? value;
+    default:
+      return typeof value === 'string' ? value : String(value);
+  }
+}
+
+type CellCheck = { rule: RuleCode; schema: z.ZodTypeAny; message: string };
+
+/**
+ * Translates a column rule into an ordered list of zod checks. The first
+ * failing check is reported, so a wrong type hides range and enum checks.
+ */
+function buildCellChecks(rule: ColumnRule): CellCheck[] {
+  const checks: CellCheck[] = [];
+  const type = rule.type;
+
+  if (type === 'number' || type === 'integer') {
+    checks.push({
+      rule: 'type',
+      schema: type === 'integer' ? z.number().int() : z.number().finite(),
+      message: type === 'integer' ? 'Debe ser un número entero.' : 'Debe ser un número.',
+    });
+    if (typeof rule.min === 'number') {
+      checks.push({ rule: 'min', schema: z.number().min(rule.min), message: `Debe ser mayor o igual a ${rule.min}.` });
+    }
+    if (typeof rule.max === 'number') {
+      checks.push({ rule: 'max', schema: z.number().max(rule.max), message: `Debe ser menor o igual a ${rule.max}.` });
+    }
+  } else if (type === 'boolean') {
+    checks.push({ rule: 'type', schema: z.boolean(), message: 'Debe ser verdadero o falso.' });
+  } else if (type === 'date') {
+    checks.push({ rule: 'type', schema: z.string().refine(isIsoDate), message: 'Debe ser una fecha válida.' });
+    if (rule.min !== undefined) {
+      const min = String(rule.min);
+      checks.push({ rule: 'min', schema: z.string().refine(value => value >= min), message: `Debe ser posterior o igual a ${min}.` });
+    }
+    if (rule.max !== undefined) {
+      const max = String(rule.max);
+      checks.push({ rule: 'max', schema: z.string().refine(value => value <= max), message: `Debe ser anterior o igual a ${max}.` });
+    }
+  } else {
+    checks.push({ rule: 'type', schema: z.string(), message: 'Debe ser texto.' });
+    if (typeof rule.min === 'number') {
+      checks.push({ rule: 'min', schema: z.string().min(rule.min), message: `Debe tener al menos ${rule.min} caracteres.` });
+    }
+    if (typeof rule.max === 'number') {
+      checks.push({ rule: 'max', schema: z.string().max(rule.max), message: `Debe tener como máximo ${rule.max} caracteres.` });
+    }
+  }
+
+  if (rule.pattern) {
+    const pattern = new RegExp(rule.pattern);
+    checks.push({
+      rule: 'pattern',
+      schema: z.any().refine(value => pattern.test(String(value))),
+      message: 'No cumple el formato esperado.',
+    });
+  }
+  if (rule.enum) {
+    const allowed = rule.enum.map(String);
+    checks.push({
+      rule: 'enum',
+      schema: z.any().refine(value => allowed.includes(String(value))),
+      message: `Debe ser uno de: ${allowed.join(', ')}.`,
+    });
+  }
+  return checks;
+}
+
+/**
+ * Validates rows against an import schema. Rule headers are matched to sheet
+ * headers loosely (case, accents and spacing are ignored).
+ */
+export function validateRows(rows: SheetRow[], headers: string[], schema: ImportSchema): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const cellIssues = new Map<string, ValidationIssue[]>();
+  const headerByName = new Map(headers.map(header => [normalizeHeader(header), header]));
+
+  const report = (issue: ValidationIssue) => {
+    issues.push(issue);
+    if (issue.rowIndex === null) return;
+    const key = cellKey(issue.rowIndex, issue.header);
+    cellIssues.set(key, [...(cellIssues.get(key) ?? []), issue]);
+  };
+
+  for (const rule of schema.columns) {
+    const severity = rule.severity ?? 'error';
+    const header = headerByName.get(normalizeHeader(rule.header));
+    if (!header) {
+      if (rule.required) {
+        report({ rowIndex: null, header: rule.header, rule: 'missingColumn', severity, message: `Falta la columna obligatoria «${rule.header}».` });
+      }
+      continue;
+    }
+
+    const checks = buildCellChecks(rule);
+    const seen = new Map<string, number>();
+    rows.forEach((row, rowIndex) => {
+      const value = row[header];
+      if (isEmpty(value)) {
+        if (rule.required) {
+          report({ rowIndex, header, rule: 'required', severity, message: 'El valor es obligatorio.' });
+        }
+        return;
+      }
+
+      const normalized = normalizeValue(value, rule.type);
+      const failed = checks.find(check => !check.schema.safeParse(normalized).success);
+      if (failed) {
+        report({ rowIndex, header, rule: failed.rule, severity, message: failed.message });
+      }
+
+      if (rule.unique) {
+        const key = String(normalized);
+        const firstRow = seen.get(key);
+        if (firstRow === undefined) {
+          seen.set(key, rowIndex);
+        } else {
+          report({ rowIndex, header, rule: 'unique', severity, message: `Valor repetido (ya aparece en la fila ${firstRow + 1}).` });
+        }
+      }
+    });
+  }
+
+  return {
+    schemaId: schema.id,
+    issues,
+    cellIssues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+  };
+}
+
+/**
+ * Renames issue headers, e.g. from mapped target fields back to the source
+ * columns shown in the preview. Headers missing from the map are kept.
+ */
+export function mapIssueHeaders(result: ValidationResult, headerMap: Map<string, string>): ValidationResult {
+  const issues = result.issues.map(issue => ({ ...issue, header: headerMap.get(issue.header) ?? issue.header }));
+  const cellIssues = new Map<string, ValidationIssue[]>();
+  issues.forEach(issue => {
+    if (issue.rowIndex === null) return;
+    const key = cellKey(issue.rowIndex, issue.header);
+    cellIssues.set(key, [...(cellIssues.get(key) ?? []), issue]);
+  });
+  return { ...result, issues, cellIssues };
+}
+
+/**
+ * Drops the row issues of rows that are not exported (e.g. left out by an
+ * inner or anti join); column issues are kept.
+ */
+export function restrictIssuesToRows(result: ValidationResult, rowIndices: Set<number>): ValidationResult {
+  const issues = result.issues.filter(issue => issue.rowIndex === null || rowIndices.has(issue.rowIndex));
+  const cellIssues = new Map(Array.from(result.cellIssues).filter(([, cell]) => rowIndices.has(cell[0].rowIndex!)));
+  return {
+    ...result,
+    issues,
+    cellIssues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+  };
+}
@@ -0,0 +1,143 @@
+import { loadIntoDatabase } from '@/lib/database-writer';
+import {
+  appendJobLog,
+  listUnfinishedJobIds,
+  readJob,
+  readJobInput,
+  saveArtifacts,
+  updateJob,
+} from '@/lib/job-store';
+import { createLogEntry } from '@/lib/logs';
+import {
+  ProcessingError,
+  runProcessingPipeline,
+  sheetsFromWorkbook,
+  type PipelineLogger,
+  type ProcessingJob,
+} from '@/lib/processing';
+import { readWorkbook } from '@/lib/workbook';
+
+/**
+ * In-process queue that runs stored jobs one at a time. On first use it
+ * picks up jobs a previous server process left queued or running.
+ */
+type QueueState = {
+  pending: string[];
+  running: { jobId: string; controller: AbortController } | null;
+  restored: Promise<void> | null;
+};
+
+// Shared through globalThis: every route handler bundles its own copy of this module.
+const globalForQueue = globalThis as typeof globalThis & { __excelFlowJobQueue?: QueueState };
+const queue = (globalForQueue.__excelFlowJobQueue ??= { pending: [], running: null, restored: null });
+
+function restoreUnfinishedJobs() {
+  queue.restored ??= listUnfinishedJobIds().then(async ids => {
+    for (const jobId of ids) {
+      await updateJob(jobId, job => ({ ...job, status: 'queued', startedAt: undefined }));
+      if (!queue.pending.includes(jobId)) queue.pending.push(jobId);
+    }
+  });
+  return queue.restored;
+}
+
+export async function enqueueJob(jobId: string) {
+  await restoreUnfinishedJobs();
+  if (!queue.pending.includes(jobId)) queue.pending.push(jobId);
+  void drainQueue();
+}
+
+/** Makes sure jobs restored from disk get processed even if nothing new is queued. */
+export async function ensureQueueStarted() {
+  await restoreUnfinishedJobs();
+  void drainQueue();
+}
+
+async function drainQueue() {
+  while (!queue.running && queue.pending.length) {
+    const jobId = queue.pending.shift()!;
+    const controller = new AbortController();
+    queue.running = { jobId, controller };
+    try {
+      // A job that cannot even record its failure must not stop the jobs behind it.
+      await runJob(jobId, controller.signal).catch(error => console.error(`Job ${jobId} could not be finished`, error));
+    } finally {
+      queue.running = null;
+    }
+  }
+}
+
+async function runJob(jobId: string, signal: AbortSignal) {
+  const started = await updateJob(jobId, job =>
+    job.status === 'queued' ? { ...job, status: 'running', startedAt: new Date().toISOString() } : job
+  );
+  if (started?.status !== 'running') return;
+
+  const finish = (changes: Partial<ProcessingJob>) =>
+    updateJob(jobId, job => ({ ...job, ...changes, finishedAt: new Date().toISOString() }));
+  const log: PipelineLogger = (level, message, details) => {
+    appendJobLog(jobId, createLogEntry(level, message, details)).catch(error =>
+      console.error(`Could not write log of job ${jobId}`, error)
+    );
+  };
+
+  try {
+    const { input, upload } = await readJobInput(jobId);
+    let sheets;
+    if (input.kind === 'file') {
+      sheets = sheetsFromWorkbook(readWorkbook(new Uint8Array(upload!).buffer), input.options);
+      log('info', `Archivo "${input.fileName}" analizado en el servidor.`, {
+        step: 'parse',
+        context: { file: input.fileName, bytes: upload!.byteLength, sheets: sheets.map(sheet => sheet.name) },
+      });
+    } else {
+      sheets = input.sheets;
+      const rowCount = sheets.reduce((total, sheet) => total + sheet.rows.length, 0);
+      log('info', `Recibidas ${sheets.length} hoja(s) con ${rowCount} fila(s).`, {
+        step: 'parse',
+        context: { sheets: sheets.map(sheet => sheet.name), rows: rowCount },
+      });
+    }
+    const result = await runProcessingPipeline(sheets, input.options, log, signal);
+    await saveArtifacts(jobId, result.artifacts);
+    if (input.options.load) await loadIntoDatabase(result.sheets, input.options.load, log, signal);
+    log('info', 'Procesamiento completado.', { step: 'job' });
+    await finish({ status: 'succeeded' });
+  } catch (error) {
+    if (signal.aborted) {
+      log('warn', 'Procesamiento cancelado.', { step: 'job' });
+      await finish({ status: 'cancelled' });
+    } else if (error instanceof ProcessingError) {
+      log('error', error.message, { step: 'job', context: { artifacts: error.artifacts.map(artifact => artifact.name) } });
+      // The job still fails with its own message if the report cannot be saved.
+      await saveArtifacts(jobId, error.artifacts).catch(saveError =>
+        console.error(`Could not save artifacts of job ${jobId}`, saveError)
+      );
+      await finish({ status: 'failed', error: error.message });
+    } else {
+      console.error(`Job ${jobId} failed`, error);
+      log('error', 'Error interno al procesar los datos.', {
+        step: 'job',
+        context: { error: error instanceof Error ? error.message : String(error) },
+      });
+      await finish({ status: 'failed', error: 'Error interno al procesar los datos.' });
+    }
+  }
+}
+
+/**
+ * Cancels a queued or running job. Returns the updated job, or null when it
+ * does not exist; finished jobs are returned unchanged.
+ */
+export async function cancelJob(jobId: string): Promise<ProcessingJob | null> {
+  if (queue.running?.jobId === jobId) {
+    queue.running.controller.abort();
+    return readJob(jobId);
+  }
+  queue.pending = queue.pending.filter(id => id !== jobId);
+  return updateJob(jobId, job =>
+    job.status === 'queued'
+      ? { ...job, status: 'cancelled', finishedAt: new Date().toISOString(), logs: [...job.logs, createLogEntry('warn', 'Procesamiento cancelado.', { step: 'job' })] }
+      : job
+  );
+}
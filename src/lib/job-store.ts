@@ -0,0 +1,161 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LogEntry } from '@/lib/logs';
+import { outputFileName } from '@/lib/output-formats';
+import type {
+  GeneratedArtifact,
+  ProcessingArtifact,
+  ProcessingJob,
+  ResolvedProcessingOptions,
+  SheetInput,
+} from '@/lib/processing';
+
+// Server-only: jobs are kept on disk, one directory per job, so they survive
+// reloads of the page and restarts of the server.
+export const DATA_DIR = process.env.EXCEL_FLOW_DATA_DIR ?? path.join(process.cwd(), '.data');
+const JOBS_DIR = path.join(DATA_DIR, 'jobs');
+const JOB_FILE = 'job.json';
+const INPUT_FILE = 'input.json';
+const UPLOAD_FILE = 'upload.bin';
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/** What a job processes: the raw upload (kept next to it) or parsed sheets. */
+export type JobInput =
+  | { kind: 'file'; fileName: string; options: ResolvedProcessingOptions }
+  | { kind: 'sheets'; sheets: SheetInput[]; options: ResolvedProcessingOptions };
+
+export const createJobId = () => crypto.randomUUID();
+
+export const isJobId = (value: string) => JOB_ID_PATTERN.test(value);
+
+const jobDir = (jobId: string) => path.join(JOBS_DIR, jobId);
+
+export const artifactUrl = (jobId: string, name: string) =>
+  `/api/jobs/${jobId}/artifacts/${encodeURIComponent(name)}`;
+
+// Writes to one job file are chained so concurrent updates don't interleave,
+// and every write is announced to subscribers of that job. Kept on globalThis
+// because each route is bundled with its own module copy.
+const globalForStore = globalThis as typeof globalThis & {
+  __excelFlowJobLocks?: Map<string, Promise<unknown>>;
+  __excelFlowJobEvents?: EventEmitter;
+};
+const locks = (globalForStore.__excelFlowJobLocks ??= new Map());
+const jobEvents = (globalForStore.__excelFlowJobEvents ??= new EventEmitter().setMaxListeners(0));
+
+/** Calls `listener` after each change to the job. Returns the unsubscribe function. */
+export function subscribeToJob(jobId: string, listener: () => void) {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+function withJobLock<T>(jobId: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(jobId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(jobId, next);
+  next.finally(() => {
+    if (locks.get(jobId) === next) locks.delete(jobId);
+  }).catch(() => undefined);
+  return next;
+}
+
+export async function readJob(jobId: string): Promise<ProcessingJob | null> {
+  if (!isJobId(jobId)) return null;
+  try {
+    return JSON.parse(await fs.readFile(path.join(jobDir(jobId), JOB_FILE), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Written to a temporary file and renamed so readers never see half a job.
+async function writeJob(job: ProcessingJob) {
+  const file = path.join(jobDir(job.id), JOB_FILE);
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(job));
+  await fs.rename(`${file}.tmp`, file);
+  jobEvents.emit(job.id);
+}
+
+/** Stores a new queued job with its input. */
+export async function createJob(jobId: string, input: JobInput, upload?: ArrayBuffer): Promise<ProcessingJob> {
+  const dir = jobDir(jobId);
+  await fs.mkdir(path.join(dir, 'artifacts'), { recursive: true });
+  if (upload) await fs.writeFile(path.join(dir, UPLOAD_FILE), Buffer.from(upload));
+  await fs.writeFile(path.join(dir, INPUT_FILE), JSON.stringify(input));
+  const job: ProcessingJob = {
+    id: jobId,
+    status: 'queued',
+    fileName: input.kind === 'file' ? input.fileName : undefined,
+    sheetNames: input.options.sheetNames,
+    outputName: outputFileName(input.options.output),
+    createdAt: new Date().toISOString(),
+    artifacts: [],
+    logs: [],
+  };
+  await writeJob(job);
+  return job;
+}
+
+export async function readJobInput(jobId: string): Promise<{ input: JobInput; upload?: Buffer }> {
+  const dir = jobDir(jobId);
+  const input: JobInput = JSON.parse(await fs.readFile(path.join(dir, INPUT_FILE), 'utf8'));
+  const upload = input.kind === 'file' ? await fs.readFile(path.join(dir, UPLOAD_FILE)) : undefined;
+  return { input, upload };
+}
+
+/**
+ * Applies `change` to the stored job and returns the result, or null when
+ * the job does not exist.
+ */
+export function updateJob(jobId: string, change: (job: ProcessingJob) => ProcessingJob): Promise<ProcessingJob | null> {
+  return withJobLock(jobId, async () => {
+    const job = await readJob(jobId);
+    if (!job) return null;
+    const next = change(job);
+    await writeJob(next);
+    return next;
+  });
+}
+
+export const appendJobLog = (jobId: string, entry: LogEntry) =>
+  updateJob(jobId, job => ({ ...job, logs: [...job.logs, entry] }));
+
+/** Ids of jobs left queued or running, e.g. by a server restart. */
+export async function listUnfinishedJobIds(): Promise<string[]> {
+  const ids = await fs.readdir(JOBS_DIR).catch(() => [] as string[]);
+  const jobs = await Promise.all(ids.filter(isJobId).map(readJob));
+  return jobs
+    .filter((job): job is ProcessingJob => !!job && (job.status === 'queued' || job.status === 'running'))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(job => job.id);
+}
+
+/**
+ * Writes a job's artifacts and records them on the job. Artifacts with the
+ * same name replace earlier ones.
+ */
+export async function saveArtifacts(jobId: string, artifacts: GeneratedArtifact[]): Promise<ProcessingArtifact[]> {
+  const dir = jobDir(jobId);
+  const stored: ProcessingArtifact[] = [];
+  for (const artifact of artifacts) {
+    const content = typeof artifact.content === 'string' ? Buffer.from(artifact.content, 'utf8') : Buffer.from(artifact.content);
+    await fs.writeFile(path.join(dir, 'artifacts', path.basename(artifact.name)), content);
+    stored.push({ name: artifact.name, contentType: artifact.contentType, size: content.byteLength, url: artifactUrl(jobId, artifact.name) });
+  }
+  await updateJob(jobId, job => ({
+    ...job,
+    artifacts: [...job.artifacts.filter(existing => !stored.some(artifact => artifact.name === existing.name)), ...stored],
+  }));
+  return stored;
+}
+
+/** Reads an artifact recorded on the job, or null if there is none. */
+export async function readArtifact(jobId: string, name: string): Promise<{ content: Buffer; contentType: string } | null> {
+  const entry = (await readJob(jobId))?.artifacts.find(artifact => artifact.name === name);
+  if (!entry) return null;
+  const content = await fs.readFile(path.join(jobDir(jobId), 'artifacts', path.basename(entry.name)));
+  return { content, contentType: entry.contentType };
+}
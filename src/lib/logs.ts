@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+export const logLevelSchema = z.enum(['debug', 'info', 'warn', 'error']);
+export type LogLevel = z.infer<typeof logLevelSchema>;
+
+export const LOG_LEVELS = logLevelSchema.options;
+
+export const LOG_LEVEL_LABELS: Record<LogLevel, string> = {
+  debug: 'Depuración',
+  info: 'Info',
+  warn: 'Aviso',
+  error: 'Error',
+};
+
+/**
+ * One operation log entry, produced in the browser or by the server
+ * pipeline. `step` names the phase it belongs to (upload, parse,
+ * validation, ...); `context` holds structured details such as sheet names,
+ * counts or the job id.
+ */
+export const logEntrySchema = z.object({
+  timestamp: z.string(),
+  level: logLevelSchema,
+  message: z.string(),
+  step: z.string().optional(),
+  context: z.record(z.string(), z.unknown()).optional(),
+});
+export type LogEntry = z.infer<typeof logEntrySchema>;
+
+export type LogDetails = Pick<LogEntry, 'step' | 'context'>;
+
+export const createLogEntry = (level: LogLevel, message: string, details: LogDetails = {}): LogEntry => ({
+  timestamp: new Date().toISOString(),
+  level,
+  message,
+  ...details,
+});
+
+export type LogFilter = {
+  levels: LogLevel[];
+  text: string;
+};
+
+export const DEFAULT_LOG_FILTER: LogFilter = { levels: ['info', 'warn', 'error'], text: '' };
+
+/** Keeps entries of the selected levels whose message, step or context contain the text. */
+export function filterLogs(entries: LogEntry[], filter: LogFilter): LogEntry[] {
+  const text = filter.text.trim().toLowerCase();
+  return entries.filter(entry => {
+    if (!filter.levels.includes(entry.level)) return false;
+    if (!text) return true;
+    return [entry.message, entry.step ?? '', entry.context ? JSON.stringify(entry.context) : '']
+      .some(value => value.toLowerCase().includes(text));
+  });
+}
+
+export const formatContext = (context: LogEntry['context']) =>
+  Object.entries(context ?? {})
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+
+export const logsToJsonl = (entries: LogEntry[]) =>
+  entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length ? '\n' : '');
+
+export const logsToText = (entries: LogEntry[]) =>
+  entries
+    .map(entry => {
+      const step = entry.step ? ` [${entry.step}]` : '';
+      const context = entry.context ? ` ${formatContext(entry.context)}` : '';
+      return `${entry.timestamp} ${entry.level.toUpperCase().padEnd(5)}${step} ${entry.message}${context}`;
+    })
+    .join('\n') + (entries.length ? '\n' : '');
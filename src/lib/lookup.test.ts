@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { applyLookup, defaultLookupConfig, type LookupConfig } from '@/lib/lookup';
+
+const reference = {
+  headers: ['Código', 'Nombre', 'Zona'],
+  rows: [
+    { Código: 'A1', Nombre: 'Ana', Zona: 'Norte' },
+    { Código: 'b2', Nombre: 'Bea', Zona: 'Sur' },
+    { Código: 'A1', Nombre: 'Otra', Zona: 'Este' },
+  ],
+};
+const rows = [{ Código: ' a1 ' }, { Código: 'B2' }, { Código: 'C3' }, { Código: '' }];
+
+const config = (change: Partial<LookupConfig> = {}): LookupConfig => ({
+  joinType: 'left',
+  matchMode: 'loose',
+  keys: [{ main: 'Código', reference: 'Código' }],
+  columns: ['Nombre', 'Zona'],
+  ...change,
+});
+
+describe('defaultLookupConfig', () => {
+  it('joins on the first shared column and adds the rest', () => {
+    expect(defaultLookupConfig(['id', 'codigo'], reference.headers)).toEqual(config({ keys: [{ main: 'codigo', reference: 'Código' }] }));
+  });
+});
+
+describe('applyLookup', () => {
+  it('matches loosely and keeps the first reference row per key', () => {
+    const result = applyLookup(rows, ['Código'], reference, config());
+    expect(result.rows.map(row => row.Nombre)).toEqual(['Ana', 'Bea', null, null]);
+    expect(result.keptRows).toBeNull();
+    expect(result).toMatchObject({ matchedCount: 2, unmatchedCount: 2, unmatchedKeys: ['C3', '(vacía)'], duplicateReferenceKeys: 1 });
+  });
+
+  it('matches exactly when asked', () => {
+    const result = applyLookup(rows, ['Código'], reference, config({ matchMode: 'exact' }));
+    expect(result.matchedCount).toBe(0);
+  });
+
+  it('keeps only matched or unmatched rows for inner and anti joins', () => {
+    expect(applyLookup(rows, ['Código'], reference, config({ joinType: 'inner' })).keptRows).toEqual([0, 1]);
+    const anti = applyLookup(rows, ['Código'], reference, config({ joinType: 'anti' }));
+    expect(anti.keptRows).toEqual([2, 3]);
+    expect(anti.headers).toEqual([]);
+  });
+
+  it('renames reference columns until they no longer clash', () => {
+    const main = [{ Código: 'A1', Nombre: 'Principal', 'Nombre (ref.)': 'También principal' }];
+    const result = applyLookup(main, ['Código', 'Nombre', 'Nombre (ref.)'], reference, config({ columns: ['Nombre'] }));
+    expect(result.headers).toEqual(['Nombre (ref.) (ref.)']);
+    expect(result.rows[0]).toEqual({ ...main[0], 'Nombre (ref.) (ref.)': 'Ana' });
+  });
+
+  it('reports missing key columns', () => {
+    expect(applyLookup(rows, ['Otra'], reference, config()).error).toMatch(/no existe en la hoja/);
+  });
+});
@@ -0,0 +1,157 @@
+import { normalizeHeader, type SheetRow } from '@/lib/workbook';
+
+export type JoinType = 'left' | 'inner' | 'anti';
+
+export const JOIN_TYPE_LABELS: Record<JoinType, string> = {
+  left: 'Izquierda (todas las filas)',
+  inner: 'Interna (solo coincidencias)',
+  anti: 'Anti (solo sin coincidencia)',
+};
+
+export type KeyMatchMode = 'exact' | 'loose';
+
+/**
+ * A join of the main sheet against a reference sheet. Each key pairs a main
+ * column with a reference column; `columns` are the reference columns added
+ * to matched rows (ignored by anti joins, which only keep unmatched rows).
+ */
+export type LookupConfig = {
+  joinType: JoinType;
+  matchMode: KeyMatchMode;
+  keys: { main: string; reference: string }[];
+  columns: string[];
+};
+
+export const REFERENCE_COLUMN_SUFFIX = ' (ref.)';
+const MAX_REPORTED_KEYS = 100;
+
+export type LookupResult = {
+  /** Every main row, enriched when matched; indices match the input rows. */
+  rows: SheetRow[];
+  /** Reference columns added, renamed when the main sheet already has one. */
+  headers: string[];
+  /** Indices of the rows the join keeps, or null when it keeps all of them. */
+  keptRows: number[] | null;
+  matchedCount: number;
+  unmatchedCount: number;
+  /** Distinct unmatched keys, as shown to the user, up to a limit. */
+  unmatchedKeys: string[];
+  /** Reference keys found on more than one row; the first row is used. */
+  duplicateReferenceKeys: number;
+  error?: string;
+};
+
+/**
+ * Starting configuration for a new reference: a left join on the first
+ * column both sheets share (compared normalized), adding every other
+ * reference column.
+ */
+export function defaultLookupConfig(mainHeaders: string[], referenceHeaders: string[]): LookupConfig {
+  const shared = mainHeaders
+    .map(main => ({ main, reference: referenceHeaders.find(header => normalizeHeader(header) === normalizeHeader(main)) }))
+    .find((pair): pair is { main: string; reference: string } => pair.reference !== undefined);
+  const key = shared ?? { main: mainHeaders[0] ?? '', reference: referenceHeaders[0] ?? '' };
+  return {
+    joinType: 'left',
+    matchMode: 'loose',
+    keys: [key],
+    columns: referenceHeaders.filter(header => header !== key.reference),
+  };
+}
+
+/**
+ * The reference column's name in the result: its own, or with the suffix
+ * (repeated as needed) when a column of that name is already taken.
+ */
+const uniqueHeader = (column: string, taken: Set<string>) => {
+  let header = column;
+  while (taken.has(header)) header += REFERENCE_COLUMN_SUFFIX;
+  return header;
+};
+
+const keyPart = (value: unknown, mode: KeyMatchMode) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return mode === 'exact' ? text : text.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+const keyOf = (row: SheetRow, columns: string[], mode: KeyMatchMode) => {
+  const parts = columns.map(column => keyPart(row[column], mode));
+  return parts.every(part => part === '') ? null : JSON.stringify(parts);
+};
+
+/**
+ * Looks every main row up in the reference rows by its key columns. With
+ * `loose` matching, surrounding and repeated whitespace and letter case are
+ * ignored. Rows whose key columns are all empty never match.
+ */
+export function applyLookup(
+  rows: SheetRow[],
+  headers: string[],
+  reference: { headers: string[]; rows: SheetRow[] },
+  config: LookupConfig
+): LookupResult {
+  const unchanged: LookupResult = {
+    rows,
+    headers: [],
+    keptRows: null,
+    matchedCount: 0,
+    unmatchedCount: 0,
+    unmatchedKeys: [],
+    duplicateReferenceKeys: 0,
+  };
+  const missingMain = config.keys.find(key => !headers.includes(key.main));
+  if (missingMain) return { ...unchanged, error: `La columna clave «${missingMain.main}» no existe en la hoja.` };
+  const missingReference = config.keys.find(key => !reference.headers.includes(key.reference));
+  if (missingReference) {
+    return { ...unchanged, error: `La columna clave «${missingReference.reference}» no existe en la referencia.` };
+  }
+
+  const mainKeys = config.keys.map(key => key.main);
+  const referenceKeys = config.keys.map(key => key.reference);
+  const index = new Map<string, SheetRow>();
+  let duplicateReferenceKeys = 0;
+  reference.rows.forEach(row => {
+    const key = keyOf(row, referenceKeys, config.matchMode);
+    if (key === null) return;
+    if (index.has(key)) duplicateReferenceKeys++;
+    else index.set(key, row);
+  });
+
+  const taken = new Set(headers);
+  const added = config.joinType === 'anti'
+    ? []
+    : config.columns
+        .filter(column => reference.headers.includes(column))
+        .map(column => {
+          const header = uniqueHeader(column, taken);
+          taken.add(header);
+          return { column, header };
+        });
+
+  const keptRows: number[] = [];
+  const unmatchedKeys = new Set<string>();
+  let matchedCount = 0;
+  const enriched = rows.map((row, rowIndex) => {
+    const key = keyOf(row, mainKeys, config.matchMode);
+    const match = key === null ? undefined : index.get(key);
+    if (match) matchedCount++;
+    else if (unmatchedKeys.size < MAX_REPORTED_KEYS) unmatchedKeys.add(key === null ? '(vacía)' : mainKeys.map(column => String(row[column] ?? '')).join(' · '));
+    if (config.joinType === 'left' || (config.joinType === 'inner') === !!match) keptRows.push(rowIndex);
+    if (!added.length) return row;
+    const next = { ...row };
+    added.forEach(({ column, header }) => {
+      next[header] = match ? match[column] ?? null : null;
+    });
+    return next;
+  });
+
+  return {
+    rows: enriched,
+    headers: added.map(({ header }) => header),
+    keptRows: config.joinType === 'left' ? null : keptRows,
+    matchedCount,
+    unmatchedCount: rows.length - matchedCount,
+    unmatchedKeys: Array.from(unmatchedKeys),
+    duplicateReferenceKeys,
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSources, SOURCE_FILE_COLUMN, SOURCE_SHEET_COLUMN, type MergeSource } from '@/lib/merge';
+import type { ParsedSheet, SheetRow } from '@/lib/workbook';
+
+const sheetOf = (name: string, headers: string[], rows: SheetRow[]): ParsedSheet => ({
+  name,
+  headers,
+  rows,
+  rowCount: rows.length,
+  columnCount: headers.length,
+  headerRow: 0,
+  headerRowCount: 1,
+  columnTypes: Object.fromEntries(headers.map(header => [header, 'string'])),
+  valueMode: 'typed',
+});
+
+const enero = sheetOf('Enero', ['Código', 'Nombre'], [{ Código: 'A', Nombre: 'Ana' }]);
+const febrero = sheetOf('Febrero', ['codigo ', 'Importe'], [{ 'codigo ': 'B', Importe: 5 }]);
+
+describe('mergeSources', () => {
+  it('aligns columns loosely and reports the partial ones', () => {
+    const result = mergeSources([{ file: 'a.xlsx', sheet: enero }, { file: 'b.xlsx', sheet: febrero }], {
+      useMappings: false,
+      addSourceColumns: true,
+    });
+    expect(result.headers).toEqual([SOURCE_FILE_COLUMN, SOURCE_SHEET_COLUMN, 'Código', 'Nombre', 'Importe']);
+    expect(result.rows[1]).toEqual({ source_file: 'b.xlsx', source_sheet: 'Febrero', Código: 'B', Nombre: null, Importe: 5 });
+    expect(result.partialColumns.map(column => column.header)).toEqual(['Nombre', 'Importe']);
+    expect(result.collidingColumns).toEqual([]);
+  });
+
+  it('renames through the source mapping when asked', () => {
+    const sources: MergeSource[] = [
+      { file: 'a.xlsx', sheet: enero },
+      { file: 'b.xlsx', sheet: febrero, mapping: { fields: [{ source: 'codigo ', target: 'Código', include: true }], defaults: [] } },
+    ];
+    const result = mergeSources(sources, { useMappings: true, addSourceColumns: false });
+    expect(result.headers).toEqual(['Código', 'Nombre']);
+    expect(result.rows.map(row => row.Código)).toEqual(['A', 'B']);
+  });
+
+  it('keeps the first of two headers of one source that align and reports the other', () => {
+    const sheet = sheetOf('Hoja1', ['Nombre', 'nombre '], [{ Nombre: 'Ana', 'nombre ': 'Otra' }]);
+    const result = mergeSources([{ file: 'a.xlsx', sheet }, { file: 'b.xlsx', sheet: enero }], {
+      useMappings: false,
+      addSourceColumns: false,
+    });
+    expect(result.headers).toEqual(['Nombre', 'Código']);
+    expect(result.rows[0]).toEqual({ Nombre: 'Ana', Código: null });
+    expect(result.collidingColumns).toEqual([{ source: 0, kept: 'Nombre', dropped: 'nombre ' }]);
+  });
+});
@@ -0,0 +1,135 @@
+import { applyMapping, mappedHeaders, targetToSource, type ColumnMapping } from '@/lib/column-mapping';
+import { mergeColumnType, normalizeHeader, type ColumnType, type ParsedSheet, type SheetRow } from '@/lib/workbook';
+
+export const SOURCE_FILE_COLUMN = 'source_file';
+export const SOURCE_SHEET_COLUMN = 'source_sheet';
+/** Sheet name of a combined preview, and of batch files processed together. */
+export const MERGED_SHEET_NAME = 'Combinado';
+
+/** One file or sheet to append, with the saved mapping that matches its headers, if any. */
+export type MergeSource = {
+  file: string;
+  sheet: ParsedSheet;
+  mapping?: ColumnMapping;
+};
+
+export type MergeOptions = {
+  /** Rename columns through each source's mapping before aligning them. */
+  useMappings: boolean;
+  /** Add `source_file` and `source_sheet` columns in front. */
+  addSourceColumns: boolean;
+};
+
+export const DEFAULT_MERGE_OPTIONS: MergeOptions = { useMappings: true, addSourceColumns: true };
+
+/** A column of the combined result and the indices of the sources that provide it. */
+export type MergedColumn = {
+  header: string;
+  sources: number[];
+};
+
+/** A header of one source that aligns to a column the source already fills. */
+export type CollidingColumn = {
+  source: number;
+  /** The header whose values are kept, the first one in the source. */
+  kept: string;
+  dropped: string;
+};
+
+export type MergeResult = {
+  headers: string[];
+  rows: SheetRow[];
+  columnTypes: { [header: string]: ColumnType };
+  columns: MergedColumn[];
+  /** Columns missing from at least one source; their cells are null there. */
+  partialColumns: MergedColumn[];
+  /** Headers left out because another header of the same source aligns to their column. */
+  collidingColumns: CollidingColumn[];
+};
+
+/**
+ * Unions the rows of several sources. Columns are aligned by normalized
+ * header (case, accents and spacing ignored), after each source's mapping
+ * when `useMappings` is on; a column keeps the spelling of the first source
+ * that has it and the order in which columns first appear. Sources lacking a
+ * column get null in it. When two headers of one source align (`Nombre` and
+ * `nombre `), the first one's values are kept and the other is reported.
+ */
+export function mergeSources(sources: MergeSource[], options: MergeOptions): MergeResult {
+  const columns = new Map<string, MergedColumn>();
+  const columnTypes: { [header: string]: ColumnType } = {};
+  const collidingColumns: CollidingColumn[] = [];
+
+  const aligned = sources.map((source, index) => {
+    const mapping = options.useMappings ? source.mapping : undefined;
+    const headers = mapping ? mappedHeaders(mapping) : source.sheet.headers;
+    const rows = mapping ? applyMapping(source.sheet.rows, mapping) : source.sheet.rows;
+    const sourceOf = mapping ? targetToSource(mapping) : null;
+    // Source header -> combined header.
+    const renames: [string, string][] = [];
+    const filled = new Map<MergedColumn, string>();
+    headers.forEach(header => {
+      const key = normalizeHeader(header);
+      let column = columns.get(key);
+      if (!column) {
+        column = { header, sources: [] };
+        columns.set(key, column);
+      }
+      const kept = filled.get(column);
+      if (kept !== undefined) {
+        collidingColumns.push({ source: index, kept, dropped: header });
+        return;
+      }
+      filled.set(column, header);
+      column.sources.push(index);
+      const sourceHeader = sourceOf ? sourceOf.get(header) : header;
+      const type = sourceHeader === undefined ? 'string' : source.sheet.columnTypes[sourceHeader] ?? 'empty';
+      columnTypes[column.header] = mergeColumnType(columnTypes[column.header] ?? 'empty', type);
+      renames.push([header, column.header]);
+    });
+    return { source, rows, renames };
+  });
+
+  const merged = Array.from(columns.values());
+  const sourceColumns = options.addSourceColumns ? [SOURCE_FILE_COLUMN, SOURCE_SHEET_COLUMN] : [];
+  const headers = [...sourceColumns, ...merged.map(column => column.header).filter(header => !sourceColumns.includes(header))];
+  const rows = aligned.flatMap(({ source, rows: sourceRows, renames }) =>
+    sourceRows.map(row => {
+      const combined: SheetRow = Object.fromEntries(headers.map(header => [header, null]));
+      renames.forEach(([from, to]) => {
+        combined[to] = row[from];
+      });
+      if (options.addSourceColumns) {
+        combined[SOURCE_FILE_COLUMN] = source.file;
+        combined[SOURCE_SHEET_COLUMN] = source.sheet.name;
+      }
+      return combined;
+    })
+  );
+  if (options.addSourceColumns) {
+    columnTypes[SOURCE_FILE_COLUMN] = 'string';
+    columnTypes[SOURCE_SHEET_COLUMN] = 'string';
+  }
+
+  return {
+    headers,
+    rows,
+    columnTypes,
+    columns: merged,
+    partialColumns: merged.filter(column => column.sources.length < sources.length),
+    collidingColumns,
+  };
+}
+
+/** The combined result as a sheet the preview can show. */
+export const mergedSheet = (name: string, result: MergeResult, valueMode: ParsedSheet['valueMode']): ParsedSheet => ({
+  name,
+  headers: result.headers,
+  rows: result.rows,
+  rowCount: result.rows.length,
+  columnCount: result.headers.length,
+  headerRow: 0,
+  headerRowCount: 1,
+  columnTypes: result.columnTypes,
+  valueMode,
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findPathConflicts,
+  nestingOptionsSchema,
+  nestRows,
+  parseHeaderPath,
+  suggestChildColumns,
+  suggestChildrenKey,
+  type NestingOptions,
+} from '@/lib/nested-json';
+
+const optionsOf = (change: Partial<NestingOptions> = {}): NestingOptions => ({
+  ...nestingOptionsSchema.parse({ enabled: true }),
+  ...change,
+});
+
+describe('parseHeaderPath', () => {
+  it('splits objects and array indices', () => {
+    expect(parseHeaderPath('items[0].sku', '.')).toEqual(['items', 0, 'sku']);
+    expect(parseHeaderPath('cliente/ciudad', '/')).toEqual(['cliente', 'ciudad']);
+  });
+
+  it('does not split headers with reserved parts', () => {
+    expect(parseHeaderPath('__proto__.isAdmin', '.')).toEqual(['__proto__.isAdmin']);
+  });
+});
+
+describe('findPathConflicts', () => {
+  it('reports a value used as an object and an object used as an array', () => {
+    expect(findPathConflicts(['a', 'a.b', 'c.d', 'c[0]'], optionsOf())).toEqual([
+      { kind: 'paths', headers: ['a', 'a.b'] },
+      { kind: 'paths', headers: ['c.d', 'c[0]'] },
+    ]);
+  });
+
+  it('reports reserved names on their own', () => {
+    expect(findPathConflicts(['constructor.x'], optionsOf())).toEqual([{ kind: 'reserved', header: 'constructor.x' }]);
+  });
+
+  it('reports parent columns named like the child array when grouping', () => {
+    const options = optionsOf({ groupBy: ['pedido'], childColumns: ['sku'], childrenKey: 'items' });
+    expect(findPathConflicts(['pedido', 'items', 'sku'], options)).toEqual([
+      { kind: 'childrenKey', header: 'items', childrenKey: 'items' },
+    ]);
+    expect(findPathConflicts(['pedido', 'items', 'sku'], optionsOf({ childrenKey: 'items' }))).toEqual([]);
+  });
+});
+
+describe('nestRows', () => {
+  it('builds nested objects and drops empty array items', () => {
+    const rows = [{ 'cliente.nombre': 'Ana', 'items[0].sku': 'A', 'items[1].sku': null }];
+    expect(nestRows(rows, Object.keys(rows[0]), optionsOf())).toEqual([{ cliente: { nombre: 'Ana' }, items: [{ sku: 'A' }] }]);
+  });
+
+  it('never writes to Object.prototype', () => {
+    const rows = [{ '__proto__.isAdmin': true }];
+    const [document] = nestRows(rows, ['__proto__.isAdmin'], optionsOf());
+    expect(({} as Record<string, unknown>).isAdmin).toBeUndefined();
+    expect(document['__proto__.isAdmin']).toBe(true);
+  });
+
+  it('groups rows into parent documents with a child array', () => {
+    const rows = [
+      { pedido: 1, cliente: 'Ana', 'lineas.sku': 'A' },
+      { pedido: 2, cliente: 'Bea', 'lineas.sku': 'C' },
+      { pedido: 1, cliente: 'Ana', 'lineas.sku': 'B' },
+    ];
+    const headers = Object.keys(rows[0]);
+    const options = optionsOf({ groupBy: ['pedido'], childColumns: ['lineas.sku'], childrenKey: 'lineas' });
+    expect(nestRows(rows, headers, options)).toEqual([
+      { pedido: 1, cliente: 'Ana', lineas: [{ sku: 'A' }, { sku: 'B' }] },
+      { pedido: 2, cliente: 'Bea', lineas: [{ sku: 'C' }] },
+    ]);
+  });
+});
+
+describe('suggestions', () => {
+  it('suggests the varying columns and their shared prefix', () => {
+    const rows = [
+      { pedido: 1, cliente: 'Ana', 'lineas.sku': 'A', 'lineas.cantidad': 1 },
+      { pedido: 1, cliente: 'Ana', 'lineas.sku': 'B', 'lineas.cantidad': 2 },
+    ];
+    const children = suggestChildColumns(rows, Object.keys(rows[0]), ['pedido']);
+    expect(children).toEqual(['lineas.sku', 'lineas.cantidad']);
+    expect(suggestChildrenKey(children, '.')).toBe('lineas');
+  });
+
+  it('rejects reserved names for the child array', () => {
+    expect(nestingOptionsSchema.safeParse({ childrenKey: '__proto__' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+import { z } from 'zod';
+import type { SheetRow } from '@/lib/workbook';
+
+/** Names that would reach into `Object.prototype` when used as keys. */
+export const RESERVED_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Nested documents for the JSON outputs. Header paths such as
+ * `cliente.direccion.ciudad` become nested objects and `items[0].sku`
+ * arrays; with `groupBy`, rows sharing the key become one document whose
+ * `childColumns` go into an array named `childrenKey`, one item per row.
+ */
+export const nestingOptionsSchema = z.object({
+  enabled: z.boolean().default(false),
+  separator: z.enum(['.', '/']).default('.'),
+  groupBy: z.array(z.string()).default([]),
+  childColumns: z.array(z.string()).default([]),
+  childrenKey: z.string().trim().min(1).refine(key => !RESERVED_SEGMENTS.includes(key)).default('items'),
+});
+export type NestingOptions = z.infer<typeof nestingOptionsSchema>;
+
+export type PathSegment = string | number;
+
+/**
+ * Why headers cannot be nested: two of them need the same level as
+ * different things, one has a reserved name, or a parent column is named
+ * like the child array of the grouping and would be overwritten by it.
+ */
+export type PathConflict =
+  | { kind: 'paths'; headers: [string, string] }
+  | { kind: 'reserved'; header: string }
+  | { kind: 'childrenKey'; header: string; childrenKey: string };
+
+export function describePathConflict(conflict: PathConflict): string {
+  switch (conflict.kind) {
+    case 'paths':
+      return `«${conflict.headers[0]}» y «${conflict.headers[1]}»`;
+    case 'reserved':
+      return `«${conflict.header}» (nombre reservado)`;
+    case 'childrenKey':
+      return `«${conflict.header}» (mismo nombre que la lista «${conflict.childrenKey}»)`;
+  }
+}
+
+type Node = { [key: string]: unknown } | unknown[];
+
+const isEmpty = (value: unknown): boolean => {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.every(isEmpty);
+  if (typeof value === 'object' && !(value instanceof Date)) return Object.values(value).every(isEmpty);
+  return false;
+};
+
+const splitHeader = (header: string, separator: NestingOptions['separator']): PathSegment[] => {
+  const path: PathSegment[] = [];
+  header.split(separator).forEach(part => {
+    const match = /^([^[\]]*)((?:\[\d+\])*)$/.exec(part);
+    if (!match) {
+      if (part) path.push(part);
+      return;
+    }
+    if (match[1]) path.push(match[1]);
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) path.push(Number(index[1]));
+  });
+  return path;
+};
+
+const hasReservedSegment = (path: PathSegment[]) =>
+  path.some(segment => typeof segment === 'string' && RESERVED_SEGMENTS.includes(segment));
+
+/**
+ * Splits a header into its path: `items[0].sku` is `['items', 0, 'sku']`.
+ * Empty parts are dropped, so a header without separators is a path of one.
+ * Headers with a reserved part such as `__proto__` are not split.
+ */
+export function parseHeaderPath(header: string, separator: NestingOptions['separator']): PathSegment[] {
+  const path = splitHeader(header, separator);
+  return path.length && !hasReservedSegment(path) ? path : [header];
+}
+
+const isChildColumn = (header: string, options: NestingOptions) =>
+  options.childColumns.includes(header) && !options.groupBy.includes(header);
+
+/** True when the grouping can be applied to a sheet with these columns. */
+export const canGroup = (headers: string[], options: NestingOptions) =>
+  options.groupBy.length > 0 && options.groupBy.every(key => headers.includes(key));
+
+/**
+ * Headers that cannot be nested: pairs where one is a value and the other
+ * needs an object or array (`a` and `a.b`), or where the same level is used
+ * as both an object and an array (`a.b` and `a[0]`); headers with a
+ * reserved part (`__proto__.isAdmin`); and, when the grouping applies,
+ * parent columns named like the child array, e.g. `items` when the
+ * children go into `items`.
+ */
+export function findPathConflicts(headers: string[], options: NestingOptions): PathConflict[] {
+  const conflicts: PathConflict[] = [];
+  const owners = new Map<string, { header: string; kind: 'value' | 'object' | 'array' }>();
+  headers.forEach(header => {
+    if (hasReservedSegment(splitHeader(header, options.separator))) {
+      conflicts.push({ kind: 'reserved', header });
+      return;
+    }
+    const path = parseHeaderPath(header, options.separator);
+    path.forEach((segment, depth) => {
+      const prefix = JSON.stringify(path.slice(0, depth + 1));
+      const next = path[depth + 1];
+      const kind = next === undefined ? 'value' : typeof next === 'number' ? 'array' : 'object';
+      const owner = owners.get(prefix);
+      if (!owner) owners.set(prefix, { header, kind });
+      else if (owner.kind !== kind || kind === 'value') {
+        if (!conflicts.some(conflict => conflict.kind === 'paths' && conflict.headers[0] === owner.header && conflict.headers[1] === header)) {
+          conflicts.push({ kind: 'paths', headers: [owner.header, header] });
+        }
+      }
+    });
+  });
+  if (canGroup(headers, options)) {
+    headers
+      .filter(header => !isChildColumn(header, options) && parseHeaderPath(header, options.separator)[0] === options.childrenKey)
+      .forEach(header => conflicts.push({ kind: 'childrenKey', header, childrenKey: options.childrenKey }));
+  }
+  return conflicts;
+}
+
+// Empty array items are dropped, e.g. `items[1]` on rows that only have one item.
+function compact(node: unknown): unknown {
+  if (Array.isArray(node)) return node.filter(item => !isEmpty(item)).map(compact);
+  if (node && typeof node === 'object' && !(node instanceof Date)) {
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, compact(value)]));
+  }
+  return node;
+}
+
+type ColumnPath = { header: string; path: PathSegment[] };
+
+const columnPaths = (headers: string[], separator: NestingOptions['separator']): ColumnPath[] =>
+  headers.map(header => ({ header, path: parseHeaderPath(header, separator) }));
+
+// Conflicting headers keep the first value set. Objects are built without a
+// prototype, so no key can reach `Object.prototype`.
+function buildDocument(row: SheetRow, columns: ColumnPath[]): Record<string, unknown> {
+  const root: Record<string, unknown> = Object.create(null);
+  columns.forEach(({ header, path }) => {
+    let node: Node = root;
+    for (let depth = 0; depth < path.length - 1; depth++) {
+      const segment = path[depth];
+      const container: Node = typeof path[depth + 1] === 'number' ? [] : Object.create(null);
+      const current = (node as Record<PathSegment, unknown>)[segment];
+      if (current === undefined) (node as Record<PathSegment, unknown>)[segment] = container;
+      else if (typeof current !== 'object' || current === null || Array.isArray(current) !== Array.isArray(container)) return;
+      node = (node as Record<PathSegment, unknown>)[segment] as Node;
+    }
+    const leaf = path[path.length - 1];
+    if ((node as Record<PathSegment, unknown>)[leaf] === undefined) {
+      (node as Record<PathSegment, unknown>)[leaf] = row[header] ?? null;
+    }
+  });
+  return compact(root) as Record<string, unknown>;
+}
+
+const groupKey = (row: SheetRow, keys: string[]) => JSON.stringify(keys.map(key => row[key] ?? null));
+
+/**
+ * Columns that change between rows with the same key: the natural
+ * candidates for the child array, e.g. the lines of an order.
+ */
+export function suggestChildColumns(rows: SheetRow[], headers: string[], keys: string[]): string[] {
+  if (!keys.length) return [];
+  const first = new Map<string, SheetRow>();
+  const varying = new Set<string>();
+  rows.forEach(row => {
+    const key = groupKey(row, keys);
+    const seen = first.get(key);
+    if (!seen) {
+      first.set(key, row);
+      return;
+    }
+    headers.forEach(header => {
+      if (!keys.includes(header) && String(seen[header] ?? '') !== String(row[header] ?? '')) varying.add(header);
+    });
+  });
+  return headers.filter(header => varying.has(header));
+}
+
+/**
+ * Name for the child array: the first part shared by every child column
+ * (`lineas` for `lineas.sku` and `lineas.cantidad`), or `items`.
+ */
+export function suggestChildrenKey(childColumns: string[], separator: NestingOptions['separator']): string {
+  const [first, ...rest] = childColumns.map(header => parseHeaderPath(header, separator));
+  const prefix = first?.length > 1 ? first[0] : undefined;
+  return typeof prefix === 'string' && rest.every(path => path.length > 1 && path[0] === prefix) ? prefix : 'items';
+}
+
+/**
+ * Turns the rows into nested documents. When grouping applies, the parent
+ * fields come from the first row of each group, groups keep the order of
+ * their first row, and rows whose child columns are all empty add no item.
+ * Child columns under the array's own name lose that part of their path.
+ */
+export function nestRows(rows: SheetRow[], headers: string[], options: NestingOptions): Record<string, unknown>[] {
+  const columns = columnPaths(headers, options.separator);
+  if (!canGroup(headers, options)) return rows.map(row => buildDocument(row, columns));
+
+  const isChild = ({ header }: ColumnPath) => isChildColumn(header, options);
+  const parentColumns = columns.filter(column => !isChild(column));
+  const childColumns = columns
+    .filter(isChild)
+    .map(({ header, path }) => ({ header, path: path.length > 1 && path[0] === options.childrenKey ? path.slice(1) : path }));
+  const groups = new Map<string, { parent: Record<string, unknown>; children: Record<string, unknown>[] }>();
+  rows.forEach(row => {
+    const key = groupKey(row, options.groupBy);
+    let group = groups.get(key);
+    if (!group) {
+      group = { parent: buildDocument(row, parentColumns), children: [] };
+      groups.set(key, group);
+    }
+    const child = buildDocument(row, childColumns);
+    if (!isEmpty(child)) group.children.push(child);
+  });
+  return Array.from(groups.values(), ({ parent, children }) => ({ ...parent, [options.childrenKey]: children }));
+}
@@ -0,0 +1,227 @@
+import { z } from 'zod';
+import * as XLSX from 'xlsx';
+import { SOURCE_SHEET_COLUMN } from '@/lib/merge';
+import { nestingOptionsSchema, nestRows, type NestingOptions } from '@/lib/nested-json';
+import type { GeneratedArtifact } from '@/lib/processing';
+import { buildSqlScript, sqlOptionsSchema } from '@/lib/sql';
+import { safeSheetName } from '@/lib/validation-report';
+import type { SheetRow } from '@/lib/workbook';
+
+export const outputFormatSchema = z.enum(['json', 'ndjson', 'csv', 'xlsx', 'xml', 'markdown', 'html', 'sql']);
+export type OutputFormat = z.infer<typeof outputFormatSchema>;
+
+export const csvOptionsSchema = z.object({
+  delimiter: z.enum([',', ';', '\t', '|']).default(','),
+  /** `minimal` quotes only fields that need it; `nonnumeric` also every text field. */
+  quoting: z.enum(['minimal', 'nonnumeric', 'all']).default('minimal'),
+  /** A UTF-8 byte order mark, so Excel opens accented text correctly. */
+  bom: z.boolean().default(true),
+});
+export type CsvOptions = z.infer<typeof csvOptionsSchema>;
+
+/** Format and file name of the processed output. */
+export const outputOptionsSchema = z.object({
+  format: outputFormatSchema.default('json'),
+  /** File name without extension; the format's extension is added. */
+  fileName: z.string().trim().max(120).optional(),
+  prettyJson: z.boolean().default(true),
+  csv: csvOptionsSchema.default({}),
+  /** Nested documents; only used by the JSON formats. */
+  nesting: nestingOptionsSchema.default({}),
+  sql: sqlOptionsSchema.default({}),
+});
+export type OutputOptions = z.infer<typeof outputOptionsSchema>;
+
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = outputOptionsSchema.parse({});
+
+export const DEFAULT_OUTPUT_FILE_NAME = 'processed_data';
+
+export const OUTPUT_FORMATS: Record<OutputFormat, { label: string; extension: string; contentType: string }> = {
+  json: { label: 'JSON', extension: 'json', contentType: 'application/json' },
+  ndjson: { label: 'JSON Lines (NDJSON)', extension: 'jsonl', contentType: 'application/x-ndjson' },
+  csv: { label: 'CSV', extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  xlsx: { label: 'Excel (XLSX)', extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  xml: { label: 'XML', extension: 'xml', contentType: 'application/xml' },
+  markdown: { label: 'Tabla Markdown', extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  html: { label: 'Tabla HTML', extension: 'html', contentType: 'text/html; charset=utf-8' },
+  sql: { label: 'Script SQL', extension: 'sql', contentType: 'application/sql; charset=utf-8' },
+};
+
+export const CSV_DELIMITER_LABELS: Record<CsvOptions['delimiter'], string> = {
+  ',': 'Coma (,)',
+  ';': 'Punto y coma (;)',
+  '\t': 'Tabulador',
+  '|': 'Barra vertical (|)',
+};
+
+export const CSV_QUOTING_LABELS: Record<CsvOptions['quoting'], string> = {
+  minimal: 'Solo cuando es necesario',
+  nonnumeric: 'Todo salvo números',
+  all: 'Todos los campos',
+};
+
+/** One processed sheet, with its final columns in order. */
+export type OutputSheet = { name: string; headers: string[]; rows: SheetRow[] };
+
+/**
+ * File name of the output: the chosen name without characters file systems
+ * reject and without a repeated extension, or the default name.
+ */
+export function outputFileName(options: Pick<OutputOptions, 'format' | 'fileName'>): string {
+  const { extension } = OUTPUT_FORMATS[options.format];
+  const stem = (options.fileName ?? '')
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_')
+    .replace(new RegExp(`\\.${extension}$`, 'i'), '')
+    .trim();
+  return `${stem || DEFAULT_OUTPUT_FILE_NAME}.${extension}`;
+}
+
+const textOf = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/** Formats whose documents can be nested. */
+export const NESTABLE_FORMATS: OutputFormat[] = ['json', 'ndjson'];
+
+/**
+ * Formats with a single table put the rows of every sheet together: the
+ * columns of all sheets, preceded by the sheet each row comes from.
+ */
+function singleTable(sheets: OutputSheet[]): { headers: string[]; rows: SheetRow[] } {
+  if (sheets.length === 1) return sheets[0];
+  const headers = [SOURCE_SHEET_COLUMN, ...new Set(sheets.flatMap(sheet => sheet.headers))];
+  return {
+    headers,
+    rows: sheets.flatMap(sheet => sheet.rows.map(row => ({ [SOURCE_SHEET_COLUMN]: sheet.name, ...row }))),
+  };
+}
+
+const pick = (row: SheetRow, headers: string[]) => Object.fromEntries(headers.map(header => [header, row[header] ?? null]));
+
+const documentsOf = (sheet: OutputSheet, nesting: NestingOptions): Record<string, unknown>[] =>
+  nesting.enabled ? nestRows(sheet.rows, sheet.headers, nesting) : sheet.rows;
+
+// One sheet is an array of documents; several are grouped by sheet name.
+function toJson(sheets: OutputSheet[], options: OutputOptions) {
+  const output = sheets.length === 1
+    ? documentsOf(sheets[0], options.nesting)
+    : Object.fromEntries(sheets.map(sheet => [sheet.name, documentsOf(sheet, options.nesting)]));
+  return JSON.stringify(output, null, options.prettyJson ? 2 : undefined);
+}
+
+function toNdjson(sheets: OutputSheet[], nesting: NestingOptions) {
+  const lines = sheets.flatMap(sheet => documentsOf(sheet, nesting).map(document =>
+    JSON.stringify(sheets.length > 1 ? { [SOURCE_SHEET_COLUMN]: sheet.name, ...document } : document)
+  ));
+  return lines.join('\n') + (lines.length ? '\n' : '');
+}
+
+function toCsv(sheets: OutputSheet[], options: CsvOptions) {
+  const { headers, rows } = singleTable(sheets);
+  const field = (value: unknown, isHeader = false) => {
+    const text = textOf(value);
+    const quote = options.quoting === 'all' ||
+      (options.quoting === 'nonnumeric' && (isHeader || typeof value !== 'number')) ||
+      text.includes(options.delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+    return quote ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [
+    headers.map(header => field(header, true)).join(options.delimiter),
+    ...rows.map(row => headers.map(header => field(row[header])).join(options.delimiter)),
+  ];
+  return (options.bom ? '\uFEFF' : '') + lines.join('\r\n') + '\r\n';
+}
+
+function toXlsx(sheets: OutputSheet[]) {
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>();
+  sheets.forEach(sheet => {
+    let name = safeSheetName(sheet.name);
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${safeSheetName(sheet.name).slice(0, 27)} (${n})`;
+    used.add(name.toLowerCase());
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows.map(row => pick(row, sheet.headers)), { header: sheet.headers }), name);
+  });
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Uint8Array;
+}
+
+const escapeMarkup = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Column names rarely are valid element names, so they go in an attribute.
+function toXml(sheets: OutputSheet[]) {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<workbook>'];
+  sheets.forEach(sheet => {
+    lines.push(`  <sheet name="${escapeMarkup(sheet.name)}">`);
+    sheet.rows.forEach(row => {
+      lines.push('    <row>');
+      sheet.headers.forEach(header => {
+        const text = textOf(row[header]);
+        lines.push(text
+          ? `      <cell column="${escapeMarkup(header)}">${escapeMarkup(text)}</cell>`
+          : `      <cell column="${escapeMarkup(header)}"/>`);
+      });
+      lines.push('    </row>');
+    });
+    lines.push('  </sheet>');
+  });
+  lines.push('</workbook>', '');
+  return lines.join('\n');
+}
+
+function toMarkdown(sheets: OutputSheet[]) {
+  const cell = (value: unknown) =>
+    textOf(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/</g, '&lt;').replace(/\r?\n/g, '<br>');
+  return sheets.map(sheet => [
+    ...(sheets.length > 1 ? [`## ${sheet.name}`, ''] : []),
+    `| ${sheet.headers.map(cell).join(' | ')} |`,
+    `| ${sheet.headers.map(() => '---').join(' | ')} |`,
+    ...sheet.rows.map(row => `| ${sheet.headers.map(header => cell(row[header])).join(' | ')} |`),
+    '',
+  ].join('\n')).join('\n');
+}
+
+function toHtml(sheets: OutputSheet[], title: string) {
+  const tables = sheets.map(sheet => [
+    '<table>',
+    `  <caption>${escapeMarkup(sheet.name)}</caption>`,
+    `  <thead><tr>${sheet.headers.map(header => `<th>${escapeMarkup(header)}</th>`).join('')}</tr></thead>`,
+    '  <tbody>',
+    ...sheet.rows.map(row => `    <tr>${sheet.headers.map(header => `<td>${escapeMarkup(textOf(row[header]))}</td>`).join('')}</tr>`),
+    '  </tbody>',
+    '</table>',
+  ].join('\n'));
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="es">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeMarkup(title)}</title>`,
+    '<style>table{border-collapse:collapse;margin-bottom:2em}th,td{border:1px solid #ccc;padding:4px 8px;text-align:left}caption{font-weight:bold;text-align:left}</style>',
+    '</head>',
+    '<body>',
+    ...tables,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/** Serializes the processed sheets in the chosen format. */
+export function serializeOutput(sheets: OutputSheet[], options: OutputOptions): GeneratedArtifact {
+  const name = outputFileName(options);
+  const content = (() => {
+    switch (options.format) {
+      case 'json': return toJson(sheets, options);
+      case 'ndjson': return toNdjson(sheets, options.nesting);
+      case 'csv': return toCsv(sheets, options.csv);
+      case 'xlsx': return toXlsx(sheets);
+      case 'xml': return toXml(sheets);
+      case 'markdown': return toMarkdown(sheets);
+      case 'html': return toHtml(sheets, name);
+      case 'sql': return buildSqlScript(sheets, options.sql);
+    }
+  })();
+  return { name, contentType: OUTPUT_FORMATS[options.format].contentType, content };
+}
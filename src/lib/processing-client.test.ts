@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_EDIT_HISTORY, pushEdit } from '@/lib/cell-edits';
+import { buildProcessingInput } from '@/lib/processing-client';
+import type { ParsedSheet, SheetRow } from '@/lib/workbook';
+
+const sheetOf = (name: string, headers: string[], rows: SheetRow[]): ParsedSheet => ({
+  name,
+  headers,
+  rows,
+  rowCount: rows.length,
+  columnCount: headers.length,
+  headerRow: 0,
+  headerRowCount: 1,
+  columnTypes: Object.fromEntries(headers.map(header => [header, 'string'])),
+  valueMode: 'typed',
+});
+
+const file = new File(['x'], 'ventas.xlsx');
+const enero = sheetOf('Enero', ['Cliente'], [{ Cliente: 'Ana' }, { Cliente: 'Bea' }]);
+const febrero = sheetOf('Febrero', ['Cliente'], [{ Cliente: 'Carla' }]);
+
+describe('buildProcessingInput', () => {
+  it('sends the original file when nothing changed locally', () => {
+    const { input, rowCounts } = buildProcessingInput(file, [enero, febrero], ['Enero'], EMPTY_EDIT_HISTORY, {
+      name: 'Enero',
+      headers: enero.headers,
+    });
+    expect(input).toEqual({ file });
+    expect(rowCounts).toEqual({ Enero: 2 });
+  });
+
+  it('sends the exported sheets with their edits once one of them changed', () => {
+    const history = pushEdit(EMPTY_EDIT_HISTORY, { sheetName: 'Febrero', rowIndex: 0, header: 'Cliente', before: 'Carla', after: 'Carmen' });
+    const { input } = buildProcessingInput(file, [enero, febrero], ['Enero', 'Febrero'], history, {
+      name: 'Enero',
+      headers: enero.headers,
+    });
+    expect(input).toEqual({
+      sheets: [
+        { name: 'Enero', headers: ['Cliente'], rows: enero.rows },
+        { name: 'Febrero', headers: ['Cliente'], rows: [{ Cliente: 'Carmen' }] },
+      ],
+    });
+  });
+
+  it('ignores edits of sheets that are not exported', () => {
+    const history = pushEdit(EMPTY_EDIT_HISTORY, { sheetName: 'Febrero', rowIndex: 0, header: 'Cliente', before: 'Carla', after: 'Carmen' });
+    expect(buildProcessingInput(file, [enero, febrero], ['Enero'], history, { name: 'Enero', headers: enero.headers }).input)
+      .toEqual({ file });
+  });
+
+  it('sends the rows and headers chosen for the active sheet', () => {
+    const rows = [{ Cliente: 'Bea', Zona: 'Norte' }];
+    const { input, rowCounts } = buildProcessingInput(file, [enero], ['Enero'], EMPTY_EDIT_HISTORY, {
+      name: 'Enero',
+      headers: ['Cliente', 'Zona'],
+      rows,
+    });
+    expect(input).toEqual({ sheets: [{ name: 'Enero', headers: ['Cliente', 'Zona'], rows }] });
+    expect(rowCounts).toEqual({ Enero: 1 });
+  });
+
+  it('sends the parsed rows when there is no file, as for a combined preview', () => {
+    const { input } = buildProcessingInput(null, [enero], ['Enero'], EMPTY_EDIT_HISTORY, { name: 'Enero', headers: enero.headers });
+    expect(input).toEqual({ sheets: [{ name: 'Enero', headers: ['Cliente'], rows: enero.rows }] });
+  });
+});
@@ -0,0 +1,110 @@
+import { applyChanges, collectChanges, type EditHistory } from '@/lib/cell-edits';
+import type { DatabaseTarget } from '@/lib/database-load';
+import type { ProcessingArtifact, ProcessingJob, ProcessingOptions, SheetInput } from '@/lib/processing';
+import type { ParsedSheet, SheetRow } from '@/lib/workbook';
+
+export type ProcessingInput = { file: File } | { sheets: SheetInput[] };
+
+/**
+ * What an import sends for the sheets in `sheetNames`: the original file,
+ * which the server parses itself, or the parsed sheets with their cell
+ * edits once any of them has local changes. `active` holds the active
+ * sheet's headers with reference columns and, when the join or the
+ * filtered view decides which rows are processed, those rows.
+ */
+export function buildProcessingInput(
+  file: File | null,
+  sheets: ParsedSheet[],
+  sheetNames: string[],
+  editHistory: EditHistory,
+  active: { name: string; headers: string[]; rows?: SheetRow[] }
+): { input: ProcessingInput; rowCounts: { [sheetName: string]: number } } {
+  const rowsBySheet: { [sheetName: string]: SheetRow[] } = {};
+  sheets.forEach(sheet => {
+    const changes = collectChanges(editHistory, sheet.name, sheet.rows);
+    if (changes.size) rowsBySheet[sheet.name] = applyChanges(sheet.rows, changes);
+  });
+  if (active.rows) rowsBySheet[active.name] = active.rows;
+
+  const exported = sheets.filter(sheet => sheetNames.includes(sheet.name));
+  const rowCounts = Object.fromEntries(exported.map(sheet => [sheet.name, rowsBySheet[sheet.name]?.length ?? sheet.rowCount]));
+  if (file && !sheetNames.some(name => rowsBySheet[name])) return { input: { file }, rowCounts };
+  return {
+    input: {
+      sheets: exported.map(sheet => ({
+        name: sheet.name,
+        headers: sheet.name === active.name ? active.headers : sheet.headers,
+        rows: rowsBySheet[sheet.name] ?? sheet.rows,
+      })),
+    },
+    rowCounts,
+  };
+}
+
+export class ProcessingRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ProcessingRequestError';
+  }
+}
+
+async function readJobResponse(response: Response): Promise<ProcessingJob> {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ProcessingRequestError(body?.error ?? `Error del servidor (${response.status}).`, response.status);
+  }
+  return body as ProcessingJob;
+}
+
+/** Queues an import for processing; resolves with the queued job. */
+export async function submitProcessingJob(input: ProcessingInput, options: ProcessingOptions): Promise<ProcessingJob> {
+  let init: RequestInit;
+  if ('file' in input) {
+    const form = new FormData();
+    form.append('file', input.file);
+    form.append('options', JSON.stringify(options));
+    init = { method: 'POST', body: form };
+  } else {
+    init = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...options, sheets: input.sheets }),
+    };
+  }
+  return readJobResponse(await fetch('/api/jobs', init));
+}
+
+export async function fetchJob(jobId: string): Promise<ProcessingJob> {
+  return readJobResponse(await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' }));
+}
+
+export async function cancelProcessingJob(jobId: string): Promise<ProcessingJob> {
+  return readJobResponse(await fetch(`/api/jobs/${jobId}/cancel`, { method: 'POST' }));
+}
+
+/** The databases the server can load into; empty when it cannot be reached. */
+export async function fetchDatabaseTargets(): Promise<DatabaseTarget[]> {
+  const response = await fetch('/api/databases', { cache: 'no-store' }).catch(() => null);
+  if (!response?.ok) return [];
+  return (await response.json()) as DatabaseTarget[];
+}
+
+export function downloadArtifact(artifact: ProcessingArtifact) {
+  const link = document.createElement('a');
+  link.href = artifact.url;
+  link.download = artifact.name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+export function downloadText(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
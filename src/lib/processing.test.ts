@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { processingRequestSchema, ProcessingError, runProcessingPipeline } from '@/lib/processing';
+
+const noLog = () => {};
+
+const request = (steps: unknown, rows: Record<string, unknown>[]) =>
+  processingRequestSchema.parse({
+    sheetNames: ['Hoja1'],
+    sheets: [{ name: 'Hoja1', headers: Object.keys(rows[0]), rows }],
+    steps: { Hoja1: steps },
+  });
+
+describe('runProcessingPipeline', () => {
+  it('leaves out the patterns of schemas sent by the client', async () => {
+    const { sheets, ...options } = request(
+      { schema: { id: 'guardado', name: 'Guardado', columns: [{ header: 'Codigo', required: true, pattern: '^((a+))+$' }] } },
+      [{ Codigo: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!' }]
+    );
+    expect(options.steps.Hoja1.schema?.columns[0]).toEqual({ header: 'Codigo', required: true });
+
+    const started = Date.now();
+    const result = await runProcessingPipeline(sheets, options, noLog);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(result.sheets[0].rows).toHaveLength(1);
+  });
+
+  it('keeps checking the other rules of client schemas', async () => {
+    const { sheets, ...options } = request(
+      { schema: { id: 'guardado', name: 'Guardado', columns: [{ header: 'Codigo', required: true }] } },
+      [{ Codigo: '' }]
+    );
+    await expect(runProcessingPipeline(sheets, options, noLog)).rejects.toBeInstanceOf(ProcessingError);
+  });
+
+  it('still applies the patterns of built-in schemas', async () => {
+    const { sheets, ...options } = request({ schemaId: 'clientes' }, [{ 'Código Cliente': 'A 1', Nombre: 'Ana' }]);
+    await expect(runProcessingPipeline(sheets, options, noLog)).rejects.toThrow(/1 error/);
+  });
+});
@@ -0,0 +1,292 @@
+import { z } from 'zod';
+import * as XLSX from 'xlsx';
+import { applyMapping, columnMappingSchema, findDuplicateTargets, mappedHeaders, targetToSource } from '@/lib/column-mapping';
+import { databaseLoadSchema } from '@/lib/database-load';
+import { applyComputedColumns, computedColumnSchema } from '@/lib/expressions';
+import { columnRuleSchema, IMPORT_SCHEMAS, importSchemaSchema, mapIssueHeaders, validateRows } from '@/lib/import-schemas';
+import type { LogDetails, LogEntry, LogLevel } from '@/lib/logs';
+import { canGroup, describePathConflict, findPathConflicts } from '@/lib/nested-json';
+import { prepareUpsertRows, SQL_DIALECT_LABELS, sqlTableName } from '@/lib/sql';
+import {
+  NESTABLE_FORMATS,
+  OUTPUT_FORMATS,
+  outputOptionsSchema,
+  serializeOutput,
+  type OutputOptions,
+  type OutputSheet,
+} from '@/lib/output-formats';
+import { buildValidationReport } from '@/lib/validation-report';
+import { parseSheet } from '@/lib/workbook';
+
+export const parseOptionsSchema = z.object({
+  headerRow: z.number().int().min(0).optional(),
+  headerRowCount: z.number().int().min(1).max(5).optional(),
+});
+
+/**
+ * A schema saved in the browser, without its rule patterns: a pattern from
+ * the client could backtrack for minutes and block the server, so patterns
+ * are only checked in the browser, which blocks processing on their errors.
+ */
+const clientSchemaSchema = importSchemaSchema.extend({
+  columns: z.array(columnRuleSchema.omit({ pattern: true })),
+});
+
+/** Server-side steps for one sheet, applied in order: computed columns, validation, mapping. */
+export const sheetStepsSchema = z.object({
+  computedColumns: z.array(computedColumnSchema).optional(),
+  schemaId: z.string().optional(),
+  /** A schema saved in the browser, sent whole since the server does not know it. */
+  schema: clientSchemaSchema.optional(),
+  mapping: columnMappingSchema.optional(),
+});
+export type SheetSteps = z.infer<typeof sheetStepsSchema>;
+
+export const processingOptionsSchema = z.object({
+  sheetNames: z.array(z.string().min(1)).min(1),
+  valueMode: z.enum(['typed', 'formatted']).default('typed'),
+  /** Header options per sheet, used when the raw file is sent. */
+  parseOptions: z.record(z.string(), parseOptionsSchema).default({}),
+  steps: z.record(z.string(), sheetStepsSchema).default({}),
+  output: outputOptionsSchema.default({}),
+  /** Also writes the processed rows into a server database. */
+  load: databaseLoadSchema.optional(),
+});
+/** Options as sent by the client, before defaults are applied. */
+export type ProcessingOptions = z.input<typeof processingOptionsSchema>;
+export type ResolvedProcessingOptions = z.infer<typeof processingOptionsSchema>;
+
+export const sheetInputSchema = z.object({
+  name: z.string().min(1),
+  headers: z.array(z.string()),
+  rows: z.array(z.record(z.string(), z.any())),
+});
+export type SheetInput = z.infer<typeof sheetInputSchema>;
+
+/** JSON body for already parsed rows; the raw file goes as multipart instead. */
+export const processingRequestSchema = processingOptionsSchema.extend({
+  sheets: z.array(sheetInputSchema).min(1),
+});
+
+/** Receives the pipeline's log entries; the caller stamps and stores them. */
+export type PipelineLogger = (level: LogLevel, message: string, details?: LogDetails) => void;
+
+export type GeneratedArtifact = {
+  name: string;
+  contentType: string;
+  content: string | Uint8Array;
+};
+
+/** A stored artifact as returned to the client. */
+export type ProcessingArtifact = {
+  name: string;
+  contentType: string;
+  size: number;
+  url: string;
+};
+
+export const jobStatusSchema = z.enum(['queued', 'running', 'succeeded', 'failed', 'cancelled']);
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+export const isTerminalStatus = (status: JobStatus) =>
+  status === 'succeeded' || status === 'failed' || status === 'cancelled';
+
+/** A processing job as stored on the server and returned by the jobs API. */
+export type ProcessingJob = {
+  id: string;
+  status: JobStatus;
+  fileName?: string;
+  sheetNames: string[];
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Name of the artifact with the processed data; older jobs lack it. */
+  outputName?: string;
+  artifacts: ProcessingArtifact[];
+  logs: LogEntry[];
+  error?: string;
+};
+
+// Output name of jobs created before the output format could be chosen.
+const LEGACY_OUTPUT_NAME = 'processed_data.json';
+
+/** The artifact with the processed data, once the job has produced it. */
+export const findOutputArtifact = (job: ProcessingJob) =>
+  job.artifacts.find(artifact => artifact.name === (job.outputName ?? LEGACY_OUTPUT_NAME));
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * The pipeline stopped on bad input (validation errors, invalid expressions
+ * or mappings). Artifacts such as the validation report are still kept.
+ */
+export class ProcessingError extends Error {
+  constructor(message: string, readonly artifacts: GeneratedArtifact[] = []) {
+    super(message);
+    this.name = 'ProcessingError';
+  }
+}
+
+/** Parses the requested sheets of an uploaded workbook with the client's header options. */
+export function sheetsFromWorkbook(workbook: XLSX.WorkBook, options: ResolvedProcessingOptions): SheetInput[] {
+  return options.sheetNames.map(name => {
+    const worksheet = workbook.Sheets[name];
+    if (!worksheet) throw new ProcessingError(`La hoja "${name}" no existe en el archivo.`);
+    const sheet = parseSheet(name, worksheet, { ...options.parseOptions[name], valueMode: options.valueMode });
+    return { name: sheet.name, headers: sheet.headers, rows: sheet.rows };
+  });
+}
+
+function runSheetSteps(sheet: SheetInput, steps: SheetSteps, log: PipelineLogger): OutputSheet {
+  let rows = sheet.rows;
+  let headers = sheet.headers;
+
+  if (steps.computedColumns?.length) {
+    const computed = applyComputedColumns(rows, headers, steps.computedColumns);
+    const [failedName, error] = Object.entries(computed.errors)[0] ?? [];
+    if (failedName !== undefined) {
+      throw new ProcessingError(`Columna calculada "${failedName}" no válida en "${sheet.name}": ${error}`);
+    }
+    rows = computed.rows;
+    headers = [...headers, ...computed.headers];
+    log('info', `Columnas calculadas en "${sheet.name}": ${computed.headers.join(', ')}.`, {
+      step: 'computed',
+      context: { sheet: sheet.name, columns: computed.headers, failedRows: computed.rowErrors },
+    });
+  }
+
+  const schema = steps.schema ?? IMPORT_SCHEMAS.find(candidate => candidate.id === steps.schemaId);
+  if (steps.schemaId && !schema) {
+    throw new ProcessingError(`Esquema de importación desconocido: "${steps.schemaId}".`);
+  }
+  if (schema) {
+    let validation = steps.mapping
+      ? validateRows(applyMapping(rows, steps.mapping), mappedHeaders(steps.mapping), schema)
+      : validateRows(rows, headers, schema);
+    if (steps.mapping) validation = mapIssueHeaders(validation, targetToSource(steps.mapping));
+
+    if (validation.errorCount) {
+      const report = buildValidationReport(rows, headers, validation, sheet.name);
+      throw new ProcessingError(
+        `Validación de "${sheet.name}" con el esquema "${schema.name}": ${validation.errorCount} error(es).`,
+        [{
+          name: 'validation_report.xlsx',
+          contentType: XLSX_CONTENT_TYPE,
+          content: XLSX.write(report, { type: 'buffer', bookType: 'xlsx' }) as Uint8Array,
+        }]
+      );
+    }
+    log(
+      validation.warningCount ? 'warn' : 'info',
+      validation.warningCount
+        ? `Validación de "${sheet.name}" con el esquema "${schema.name}": ${validation.warningCount} advertencia(s).`
+        : `Validación de "${sheet.name}" con el esquema "${schema.name}" superada.`,
+      { step: 'validation', context: { sheet: sheet.name, schema: schema.id, warnings: validation.warningCount } }
+    );
+  }
+
+  if (steps.mapping) {
+    const duplicates = findDuplicateTargets(steps.mapping);
+    if (duplicates.length) {
+      throw new ProcessingError(`El mapeo de "${sheet.name}" repite campos de destino: ${duplicates.join(', ')}.`);
+    }
+    rows = applyMapping(rows, steps.mapping);
+    headers = mappedHeaders(steps.mapping);
+    log('info', `Mapeo de columnas aplicado a "${sheet.name}": ${mappedHeaders(steps.mapping).join(', ')}.`, {
+      step: 'mapping',
+      context: { sheet: sheet.name, fields: mappedHeaders(steps.mapping).length },
+    });
+  }
+
+  return { name: sheet.name, headers, rows };
+}
+
+function checkNesting(sheets: OutputSheet[], output: OutputOptions, log: PipelineLogger) {
+  const { nesting } = output;
+  if (!nesting.enabled || !NESTABLE_FORMATS.includes(output.format)) return;
+  for (const sheet of sheets) {
+    const conflicts = findPathConflicts(sheet.headers, nesting);
+    if (conflicts.length) {
+      throw new ProcessingError(`Los encabezados de "${sheet.name}" no se pueden anidar: ${conflicts.map(describePathConflict).join(', ')}.`);
+    }
+    if (!nesting.groupBy.length) continue;
+    if (canGroup(sheet.headers, nesting)) {
+      log('info', `Filas de "${sheet.name}" agrupadas por ${nesting.groupBy.join(', ')} con ${nesting.childColumns.length} columna(s) en "${nesting.childrenKey}".`, {
+        step: 'output',
+        context: { sheet: sheet.name, ...nesting },
+      });
+    } else {
+      log('warn', `"${sheet.name}" no tiene las columnas de agrupación (${nesting.groupBy.join(', ')}); sus filas no se agrupan.`, {
+        step: 'output',
+        context: { sheet: sheet.name, groupBy: nesting.groupBy },
+      });
+    }
+  }
+}
+
+function checkSqlScript(sheets: OutputSheet[], output: OutputOptions, log: PipelineLogger) {
+  const { sql } = output;
+  if (output.format !== 'sql') return;
+  log('info', `Script SQL para ${SQL_DIALECT_LABELS[sql.dialect]}: ${sheets.map(sheet => sqlTableName(sql, sheet.name, sheets.length, sql.dialect)).join(', ')}.`, {
+    step: 'output',
+    context: { ...sql },
+  });
+  if (!sql.upsertKeys.length) return;
+  for (const sheet of sheets) {
+    if (!sql.upsertKeys.every(key => sheet.headers.includes(key))) {
+      log('warn', `"${sheet.name}" no tiene las columnas clave (${sql.upsertKeys.join(', ')}); se insertan sus filas sin upsert.`, {
+        step: 'output',
+        context: { sheet: sheet.name, upsertKeys: sql.upsertKeys },
+      });
+      continue;
+    }
+    const { missingKey, duplicates } = prepareUpsertRows(sheet.rows, sql.upsertKeys);
+    if (missingKey || duplicates) {
+      log('warn', `"${sheet.name}": ${missingKey} fila(s) sin clave omitidas y ${duplicates} fila(s) con clave repetida reemplazadas por la última.`, {
+        step: 'output',
+        context: { sheet: sheet.name, missingKey, duplicates },
+      });
+    }
+  }
+}
+
+// Lets cancel requests through between steps.
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Runs the server pipeline over the selected sheets and generates the output
+ * artifacts, returned with the processed sheets for loading into a database.
+ * Throws a `ProcessingError` when the input cannot be processed, and the
+ * signal's reason once it is aborted.
+ */
+export async function runProcessingPipeline(
+  sheets: SheetInput[],
+  options: ResolvedProcessingOptions,
+  log: PipelineLogger,
+  signal?: AbortSignal
+): Promise<{ artifacts: GeneratedArtifact[]; sheets: OutputSheet[] }> {
+  const processed: OutputSheet[] = [];
+  for (const name of options.sheetNames) {
+    await yieldToEventLoop();
+    signal?.throwIfAborted();
+    const sheet = sheets.find(candidate => candidate.name === name);
+    if (!sheet) throw new ProcessingError(`No se recibieron datos de la hoja "${name}".`);
+    log('debug', `Procesando la hoja "${name}".`, {
+      step: 'transform',
+      context: { sheet: name, rows: sheet.rows.length, columns: sheet.headers.length, steps: Object.keys(options.steps[name] ?? {}) },
+    });
+    const output = runSheetSteps(sheet, options.steps[name] ?? {}, log);
+    log('info', `Hoja "${name}" procesada: ${output.rows.length} fila(s).`, { step: 'transform', context: { sheet: name, rows: output.rows.length } });
+    processed.push(output);
+  }
+  signal?.throwIfAborted();
+
+  checkNesting(processed, options.output, log);
+  checkSqlScript(processed, options.output, log);
+  const artifact = serializeOutput(processed, options.output);
+  log('info', `Se generó ${artifact.name} (${OUTPUT_FORMATS[options.output.format].label}).`, {
+    step: 'output',
+    context: { format: options.output.format, bytes: artifact.content.length },
+  });
+  return { artifacts: [artifact], sheets: processed };
+}
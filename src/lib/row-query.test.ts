@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyRowQuery, EMPTY_ROW_QUERY, setColumnFilter, splitMatches, toggleSort, type RowQuery } from '@/lib/row-query';
+
+const TZ = process.env.TZ;
+
+afterEach(() => {
+  if (TZ === undefined) delete process.env.TZ;
+  else process.env.TZ = TZ;
+});
+
+const rows = [
+  { Nombre: 'Ana', Importe: 10, Fecha: '2024-01-15' },
+  { Nombre: 'Álvaro', Importe: '2,5', Fecha: '1/16/2024' },
+  { Nombre: 'Bea', Importe: null, Fecha: '' },
+];
+const headers = ['Nombre', 'Importe', 'Fecha'];
+const query = (change: Partial<RowQuery>): RowQuery => ({ ...EMPTY_ROW_QUERY, ...change });
+
+describe('applyRowQuery', () => {
+  it('filters date ranges on the local day of typed and formatted dates', () => {
+    process.env.TZ = 'Europe/Madrid';
+    const filters = { Fecha: { kind: 'dateRange', from: '2024-01-16', to: '2024-01-16' } } as const;
+    expect(applyRowQuery(rows, headers, query({ filters }))).toEqual([1]);
+  });
+
+  it('filters number ranges, reading decimal commas', () => {
+    const filters = { Importe: { kind: 'numberRange', max: 5 } } as const;
+    expect(applyRowQuery(rows, headers, query({ filters }))).toEqual([1]);
+  });
+
+  it('sorts empty values last in both directions', () => {
+    expect(applyRowQuery(rows, headers, query({ sort: [{ header: 'Importe', direction: 'asc' }] }))).toEqual([1, 0, 2]);
+    expect(applyRowQuery(rows, headers, query({ sort: [{ header: 'Importe', direction: 'desc' }] }))).toEqual([0, 1, 2]);
+  });
+
+  it('sorts text with an accent-aware collation and searches every column', () => {
+    expect(applyRowQuery(rows, headers, query({ sort: [{ header: 'Nombre', direction: 'asc' }] }))).toEqual([1, 0, 2]);
+    expect(applyRowQuery(rows, headers, query({ search: ' bE ' }))).toEqual([2]);
+  });
+});
+
+describe('splitMatches', () => {
+  it('splits text around every case-insensitive match', () => {
+    expect(splitMatches('Ana y ana', 'ANA')).toEqual([
+      { text: 'Ana', match: true },
+      { text: ' y ', match: false },
+      { text: 'ana', match: true },
+    ]);
+  });
+});
+
+describe('toggleSort', () => {
+  it('cycles a column through ascending, descending and unsorted', () => {
+    const asc = toggleSort([], 'Nombre', false);
+    expect(asc).toEqual([{ header: 'Nombre', direction: 'asc' }]);
+    const desc = toggleSort(asc, 'Nombre', false);
+    expect(desc).toEqual([{ header: 'Nombre', direction: 'desc' }]);
+    expect(toggleSort(desc, 'Nombre', false)).toEqual([]);
+  });
+
+  it('keeps the other columns only on additive clicks', () => {
+    const sort = [{ header: 'Nombre', direction: 'asc' as const }, { header: 'Importe', direction: 'asc' as const }];
+    expect(toggleSort(sort, 'Nombre', true)).toEqual([
+      { header: 'Nombre', direction: 'desc' },
+      { header: 'Importe', direction: 'asc' },
+    ]);
+    expect(toggleSort(sort, 'Fecha', true)).toEqual([...sort, { header: 'Fecha', direction: 'asc' }]);
+    expect(toggleSort(sort, 'Fecha', false)).toEqual([{ header: 'Fecha', direction: 'asc' }]);
+  });
+});
+
+describe('setColumnFilter', () => {
+  it('replaces and removes the filter of one column', () => {
+    const filters = setColumnFilter({ Nombre: { kind: 'empty' } }, 'Importe', { kind: 'notEmpty' });
+    expect(filters).toEqual({ Nombre: { kind: 'empty' }, Importe: { kind: 'notEmpty' } });
+    expect(setColumnFilter(filters, 'Nombre', undefined)).toEqual({ Importe: { kind: 'notEmpty' } });
+  });
+});
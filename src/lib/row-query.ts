@@ -0,0 +1,149 @@
+import { toDateKey, type SheetRow } from '@/lib/workbook';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type SortRule = {
+  header: string;
+  direction: SortDirection;
+};
+
+export type ColumnFilter =
+  | { kind: 'contains'; text: string }
+  | { kind: 'numberRange'; min?: number; max?: number }
+  | { kind: 'dateRange'; from?: string; to?: string }
+  | { kind: 'empty' }
+  | { kind: 'notEmpty' };
+
+export type RowQuery = {
+  sort: SortRule[];
+  filters: { [header: string]: ColumnFilter };
+  search: string;
+};
+
+export const EMPTY_ROW_QUERY: RowQuery = { sort: [], filters: {}, search: '' };
+
+export const isRowQueryActive = (query: RowQuery) =>
+  query.sort.length > 0 || Object.keys(query.filters).length > 0 || query.search.trim() !== '';
+
+/**
+ * The sort after a click on `header`, whose rule cycles asc -> desc -> none.
+ * An additive click keeps the other columns' rules and changes this one in
+ * place (or adds it last); a plain click sorts by this column alone.
+ */
+export function toggleSort(sort: SortRule[], header: string, additive: boolean): SortRule[] {
+  const existing = sort.find(rule => rule.header === header);
+  const next: SortRule | null = !existing
+    ? { header, direction: 'asc' }
+    : existing.direction === 'asc'
+      ? { header, direction: 'desc' }
+      : null;
+  const others = additive ? sort.filter(rule => rule.header !== header) : [];
+  if (!next) return others;
+  return additive && existing ? sort.map(rule => (rule.header === header ? next : rule)) : [...others, next];
+}
+
+/** The filters with the one of `header` replaced, or removed when `filter` is undefined. */
+export function setColumnFilter(filters: RowQuery['filters'], header: string, filter: ColumnFilter | undefined): RowQuery['filters'] {
+  const { [header]: _removed, ...others } = filters;
+  return filter ? { ...others, [header]: filter } : others;
+}
+
+export const isEmptyValue = (value: any) => value === null || value === undefined || String(value).trim() === '';
+
+const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return value;
+  if (isEmptyValue(value)) return null;
+  const parsed = Number(String(value).replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+};
+
+function matchesFilter(value: any, filter: ColumnFilter): boolean {
+  switch (filter.kind) {
+    case 'contains':
+      return String(value ?? '').toLowerCase().includes(filter.text.toLowerCase());
+    case 'numberRange': {
+      const number = toNumber(value);
+      if (number === null) return false;
+      return (filter.min === undefined || number >= filter.min) && (filter.max === undefined || number <= filter.max);
+    }
+    case 'dateRange': {
+      const date = toDateKey(value);
+      if (date === null) return false;
+      return (!filter.from || date >= filter.from) && (!filter.to || date <= filter.to);
+    }
+    case 'empty':
+      return isEmptyValue(value);
+    case 'notEmpty':
+      return !isEmptyValue(value);
+  }
+}
+
+/**
+ * Empty values always sort last; numbers (or numeric text) compare
+ * numerically and everything else with a natural, accent-aware collation.
+ */
+function compareValues(a: any, b: any): number {
+  const aEmpty = isEmptyValue(a);
+  const bEmpty = isEmptyValue(b);
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  const aNumber = toNumber(a);
+  const bNumber = toNumber(b);
+  if (aNumber !== null && bNumber !== null) return aNumber - bNumber;
+
+  return String(a).localeCompare(String(b), 'es', { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Applies filters, global search and multi-column sort, returning the indices
+ * of the matching rows in display order. Rows themselves are never copied, so
+ * callers can map back to the original data.
+ */
+export function applyRowQuery(rows: SheetRow[], headers: string[], query: RowQuery): number[] {
+  const search = query.search.trim().toLowerCase();
+  const filters = Object.entries(query.filters);
+
+  const indices: number[] = [];
+  rows.forEach((row, index) => {
+    if (!filters.every(([header, filter]) => matchesFilter(row[header], filter))) return;
+    if (search && !headers.some(header => String(row[header] ?? '').toLowerCase().includes(search))) return;
+    indices.push(index);
+  });
+
+  if (query.sort.length) {
+    indices.sort((a, b) => {
+      for (const { header, direction } of query.sort) {
+        const aEmpty = isEmptyValue(rows[a][header]);
+        const bEmpty = isEmptyValue(rows[b][header]);
+        const result = compareValues(rows[a][header], rows[b][header]);
+        if (result !== 0) {
+          // Empty values stay at the bottom whatever the direction.
+          return direction === 'asc' || aEmpty || bEmpty ? result : -result;
+        }
+      }
+      return a - b;
+    });
+  }
+  return indices;
+}
+
+/**
+ * Splits `text` into plain and matching segments for search highlighting.
+ */
+export function splitMatches(text: string, search: string): { text: string; match: boolean }[] {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const segments: { text: string; match: boolean }[] = [];
+  const haystack = text.toLowerCase();
+  let position = 0;
+  let found = haystack.indexOf(needle);
+  while (found !== -1) {
+    if (found > position) segments.push({ text: text.slice(position, found), match: false });
+    segments.push({ text: text.slice(found, found + needle.length), match: true });
+    position = found + needle.length;
+    found = haystack.indexOf(needle, position);
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), match: false });
+  return segments;
+}
@@ -0,0 +1,192 @@
+import { isIsoDate, type ColumnRule, type ColumnValueType, type ImportSchema } from '@/lib/import-schemas';
+import { ISO_DATE, mergeColumnType, normalizeHeader, type ColumnType, type SheetRow, type ValueMode } from '@/lib/workbook';
+
+export type SchemaFileFormat = 'json-schema' | 'typescript' | 'zod';
+
+export const SCHEMA_FILE_FORMATS: Record<SchemaFileFormat, { label: string; extension: string; contentType: string }> = {
+  'json-schema': { label: 'JSON Schema', extension: 'schema.json', contentType: 'application/schema+json' },
+  typescript: { label: 'Interfaz TypeScript', extension: 'd.ts', contentType: 'text/plain;charset=utf-8' },
+  zod: { label: 'Esquema zod', extension: 'zod.ts', contentType: 'text/plain;charset=utf-8' },
+};
+
+const isFilled = (value: unknown) => value !== null && value !== undefined && String(value).trim() !== '';
+
+// Typed values carry dates as ISO strings, so those count as dates here.
+const typeOfValue = (value: unknown): ColumnType => {
+  if (!isFilled(value)) return 'empty';
+  if (value instanceof Date || (typeof value === 'string' && isIsoDate(value))) return 'date';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+};
+
+const isWholeNumber = (value: unknown) =>
+  Number.isInteger(typeof value === 'number' ? value : Number(String(value).trim().replace(',', '.')));
+
+/**
+ * Rules for the given columns: the type from `columnTypes` (the parsed
+ * sheet's, by output column) or else from the values, integer when every
+ * number is whole, and required when no row leaves the column empty.
+ * Columns mixing types get no type, so any value passes.
+ */
+export function inferColumnRules(
+  rows: SheetRow[],
+  headers: string[],
+  columnTypes: { [header: string]: ColumnType | undefined } = {}
+): ColumnRule[] {
+  return headers.map(header => {
+    const filled = rows.map(row => row[header]).filter(isFilled);
+    const columnType = columnTypes[header] ?? filled.reduce<ColumnType>((type, value) => mergeColumnType(type, typeOfValue(value)), 'empty');
+    const types: Partial<Record<ColumnType, ColumnValueType>> = {
+      number: filled.every(isWholeNumber) ? 'integer' : 'number',
+      boolean: 'boolean',
+      date: 'date',
+      string: 'string',
+    };
+    const rule: ColumnRule = { header };
+    if (types[columnType]) rule.type = types[columnType];
+    if (rows.length > 0 && filled.length === rows.length) rule.required = true;
+    return rule;
+  });
+}
+
+/** A new validation schema for future imports of the same kind of sheet. */
+export const inferImportSchema = (
+  name: string,
+  rows: SheetRow[],
+  headers: string[],
+  columnTypes?: { [header: string]: ColumnType | undefined }
+): ImportSchema => ({ id: crypto.randomUUID(), name, columns: inferColumnRules(rows, headers, columnTypes) });
+
+/**
+ * Type name for the generated code: `Ventas 2024` is `Ventas2024`, and a
+ * name that does not start with a letter is prefixed with `Fila`.
+ */
+export function schemaTypeName(name: string): string {
+  const pascal = normalizeHeader(name)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Z]/.test(pascal) ? pascal : `Fila${pascal}`;
+}
+
+const quote = (text: string) =>
+  `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r/g, '\\r').replace(/\n/g, '\\n')}'`;
+
+const propertyKey = (header: string) => (/^[A-Za-z_$][\w$]*$/.test(header) ? header : quote(header));
+
+const literal = (value: string | number) => (typeof value === 'number' ? String(value) : quote(value));
+
+// With `formatted` values every cell is the text Excel shows, whatever its rule.
+const isNumeric = (rule: ColumnRule, valueMode: ValueMode) =>
+  valueMode === 'typed' && (rule.type === 'integer' || rule.type === 'number');
+
+const enumValues = (rule: ColumnRule, valueMode: ValueMode) =>
+  rule.enum?.map(value => (valueMode === 'formatted' ? String(value) : value));
+
+/**
+ * JSON Schema (draft 2020-12) of the exported rows: an array of flat
+ * objects with every column present, null where optional cells are empty.
+ */
+export function toJsonSchema(schema: ImportSchema, valueMode: ValueMode): Record<string, unknown> {
+  const properties = Object.fromEntries(schema.columns.map(rule => {
+    const property: Record<string, unknown> = {};
+    const type = valueMode === 'formatted'
+      ? 'string'
+      : !rule.type ? undefined : rule.type === 'date' || rule.type === 'string' ? 'string' : rule.type;
+    if (type) property.type = rule.required ? type : [type, 'null'];
+    const values = enumValues(rule, valueMode);
+    if (values) property.enum = rule.required ? values : [...values, null];
+    if (rule.type === 'date' && valueMode === 'typed') property.pattern = ISO_DATE.source;
+    if (rule.pattern && type === 'string') property.pattern = rule.pattern;
+    if (isNumeric(rule, valueMode)) {
+      if (typeof rule.min === 'number') property.minimum = rule.min;
+      if (typeof rule.max === 'number') property.maximum = rule.max;
+    } else if (type === 'string' && rule.type === 'string') {
+      if (typeof rule.min === 'number') property.minLength = rule.min;
+      if (typeof rule.max === 'number') property.maxLength = rule.max;
+    }
+    if (rule.unique) property.description = 'Valor único en la columna.';
+    return [rule.header, property];
+  }));
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: schema.name,
+    type: 'array',
+    items: {
+      type: 'object',
+      properties,
+      required: schema.columns.map(rule => rule.header),
+    },
+  };
+}
+
+function typeScriptType(rule: ColumnRule, valueMode: ValueMode): string {
+  if (!rule.type && !rule.enum && valueMode === 'typed') return 'unknown';
+  const values = enumValues(rule, valueMode);
+  const type = values
+    ? values.map(literal).join(' | ')
+    : isNumeric(rule, valueMode) ? 'number' : rule.type === 'boolean' && valueMode === 'typed' ? 'boolean' : 'string';
+  return rule.required ? type : `${type} | null`;
+}
+
+/** A TypeScript interface for one exported row. */
+export function toTypeScriptInterface(schema: ImportSchema, valueMode: ValueMode): string {
+  const lines = schema.columns.map(rule => `  ${propertyKey(rule.header)}: ${typeScriptType(rule, valueMode)};`);
+  return [
+    `/** Fila de «${schema.name}», generada por ExcelFlow. */`,
+    `export interface ${schemaTypeName(schema.name)} {`,
+    ...lines,
+    '}',
+    '',
+  ].join('\n');
+}
+
+function zodExpression(rule: ColumnRule, valueMode: ValueMode): string {
+  if (!rule.type && !rule.enum && valueMode === 'typed') return 'z.unknown()';
+  const values = enumValues(rule, valueMode);
+  let expression: string;
+  if (values) {
+    expression = values.every(value => typeof value === 'string')
+      ? `z.enum([${values.map(literal).join(', ')}])`
+      : values.length === 1
+        ? `z.literal(${literal(values[0])})`
+        : `z.union([${values.map(value => `z.literal(${literal(value)})`).join(', ')}])`;
+  } else if (isNumeric(rule, valueMode)) {
+    expression = rule.type === 'integer' ? 'z.number().int()' : 'z.number()';
+    if (typeof rule.min === 'number') expression += `.min(${rule.min})`;
+    if (typeof rule.max === 'number') expression += `.max(${rule.max})`;
+  } else if (rule.type === 'boolean' && valueMode === 'typed') {
+    expression = 'z.boolean()';
+  } else {
+    expression = 'z.string()';
+    if (rule.type === 'date' && valueMode === 'typed') expression += `.regex(/${ISO_DATE.source}/)`;
+    if (rule.type === 'string' && typeof rule.min === 'number') expression += `.min(${rule.min})`;
+    if (rule.type === 'string' && typeof rule.max === 'number') expression += `.max(${rule.max})`;
+    if (rule.pattern) expression += `.regex(new RegExp(${quote(rule.pattern)}))`;
+  }
+  return rule.required ? expression : `${expression}.nullable()`;
+}
+
+/** A zod schema for one exported row, with its inferred type. */
+export function toZodSchema(schema: ImportSchema, valueMode: ValueMode): string {
+  const typeName = schemaTypeName(schema.name);
+  const schemaName = `${typeName[0].toLowerCase()}${typeName.slice(1)}Schema`;
+  return [
+    "import { z } from 'zod';",
+    '',
+    `/** Fila de «${schema.name}», generada por ExcelFlow. */`,
+    `export const ${schemaName} = z.object({`,
+    ...schema.columns.map(rule => `  ${propertyKey(rule.header)}: ${zodExpression(rule, valueMode)},`),
+    '});',
+    '',
+    `export type ${typeName} = z.infer<typeof ${schemaName}>;`,
+    '',
+  ].join('\n');
+}
+
+export function generateSchemaFile(schema: ImportSchema, format: SchemaFileFormat, valueMode: ValueMode): string {
+  if (format === 'json-schema') return `${JSON.stringify(toJsonSchema(schema, valueMode), null, 2)}\n`;
+  return format === 'typescript' ? toTypeScriptInterface(schema, valueMode) : toZodSchema(schema, valueMode);
+}
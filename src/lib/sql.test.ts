@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildSqlScript,
+  clampIdentifier,
+  inferSqlColumns,
+  insertStatements,
+  prepareUpsertRows,
+  quoteIdentifier,
+  sqlLiteral,
+  sqlOptionsSchema,
+  sqlTableName,
+} from '@/lib/sql';
+
+describe('inferSqlColumns', () => {
+  it('widens numbers and dates and falls back to text', () => {
+    const rows = [
+      { id: 1, precio: 2, alta: '2024-01-01', nota: 'x' },
+      { id: 2 ** 40, precio: 2.5, alta: '2024-01-01T10:00', nota: 3 },
+    ];
+    expect(inferSqlColumns(rows, ['id', 'precio', 'alta', 'nota', 'vacia']).map(column => column.type)).toEqual([
+      'bigint',
+      'double',
+      'timestamp',
+      'text',
+      'text',
+    ]);
+  });
+});
+
+describe('identifiers', () => {
+  it('quotes per dialect', () => {
+    expect(quoteIdentifier('postgresql', 'a"b')).toBe('"a""b"');
+    expect(quoteIdentifier('mysql', 'a`b')).toBe('`a``b`');
+  });
+
+  it('clamps long names to the dialect limit with a hash suffix', () => {
+    const long = 'x'.repeat(70);
+    const clamped = clampIdentifier('postgresql', `${long}_a`);
+    expect(new TextEncoder().encode(clamped).length).toBeLessThanOrEqual(63);
+    expect(clamped).not.toBe(clampIdentifier('postgresql', `${long}_b`));
+    expect(clampIdentifier('mysql', 'ñ'.repeat(64))).toBe('ñ'.repeat(64));
+    expect(clampIdentifier('sqlite', long)).toBe(long);
+  });
+
+  it('names tables after the sheets', () => {
+    expect(sqlTableName({}, 'Ventas 2024', 1, 'postgresql')).toBe('ventas_2024');
+    expect(sqlTableName({ tableName: 'carga' }, 'Hoja 1', 2, 'postgresql')).toBe('carga_hoja_1');
+  });
+});
+
+describe('sqlLiteral', () => {
+  it('escapes quotes, and backslashes for MySQL', () => {
+    expect(sqlLiteral('postgresql', "O'Hara\\", 'text')).toBe("'O''Hara\\'");
+    expect(sqlLiteral('mysql', "O'Hara\\", 'text')).toBe("'O''Hara\\\\'");
+    expect(sqlLiteral('sqlite', true, 'boolean')).toBe('1');
+    expect(sqlLiteral('postgresql', '', 'integer')).toBe('NULL');
+  });
+});
+
+describe('upserts', () => {
+  it('keeps the last row per key and skips rows without a key', () => {
+    const { rows, missingKey, duplicates } = prepareUpsertRows([{ id: 1, v: 'a' }, { id: null, v: 'b' }, { id: 1, v: 'c' }], ['id']);
+    expect(rows).toEqual([{ id: 1, v: 'c' }]);
+    expect({ missingKey, duplicates }).toEqual({ missingKey: 1, duplicates: 1 });
+  });
+
+  it('splits inserts into batches with the upsert clause', () => {
+    const columns = inferSqlColumns([{ id: 1, v: 'a' }], ['id', 'v']);
+    const statements = insertStatements('postgresql', 't', columns, [{ id: 1, v: 'a' }, { id: 2, v: 'b' }, { id: 3, v: 'c' }], 2, ['id']);
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toContain('ON CONFLICT ("id") DO UPDATE SET "v" = excluded."v"');
+  });
+});
+
+describe('buildSqlScript', () => {
+  it('keeps every line break of the sheet name inside the comment', () => {
+    const options = sqlOptionsSchema.parse({});
+    const script = buildSqlScript([{ name: 'a\rDROP TABLE x;\n-- b', headers: ['id'], rows: [{ id: 1 }] }], options);
+    const lines = script.split(/\r\n|\r|\n/);
+    expect(lines.filter(line => line.includes('DROP TABLE'))).toEqual(['-- Hoja "a DROP TABLE x; -- b": 1 fila(s)']);
+  });
+});
@@ -0,0 +1,284 @@
+import { z } from 'zod';
+import { normalizeHeader, type SheetRow } from '@/lib/workbook';
+
+export const sqlDialectSchema = z.enum(['postgresql', 'mysql', 'sqlite']);
+export type SqlDialect = z.infer<typeof sqlDialectSchema>;
+
+export const SQL_DIALECT_LABELS: Record<SqlDialect, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite',
+};
+
+/** Options of the SQL script export. */
+export const sqlOptionsSchema = z.object({
+  dialect: sqlDialectSchema.default('postgresql'),
+  /** Defaults to the sheet name; with several sheets it prefixes each sheet's table. */
+  tableName: z.string().trim().max(60).optional(),
+  createTable: z.boolean().default(true),
+  batchSize: z.number().int().min(1).max(10000).default(500),
+  /** Columns of the key to upsert on; empty for plain inserts. */
+  upsertKeys: z.array(z.string()).default([]),
+});
+export type SqlOptions = z.infer<typeof sqlOptionsSchema>;
+
+export type SqlType = 'integer' | 'bigint' | 'double' | 'boolean' | 'date' | 'timestamp' | 'text';
+
+export type SqlColumn = {
+  name: string;
+  type: SqlType;
+  /** Longest text value, used for MySQL `VARCHAR` columns. */
+  maxLength: number;
+};
+
+const MAX_INT = 2 ** 31 - 1;
+// MySQL cannot index TEXT without a prefix length, so short text becomes VARCHAR.
+const MYSQL_VARCHAR_LENGTH = 255;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+const typeOfValue = (value: unknown): SqlType | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return null;
+    if (!Number.isInteger(value)) return 'double';
+    return Math.abs(value) > MAX_INT ? 'bigint' : 'integer';
+  }
+  if (value instanceof Date) return 'timestamp';
+  if (typeof value === 'string' && DATE_PATTERN.test(value)) return 'date';
+  if (typeof value === 'string' && TIMESTAMP_PATTERN.test(value)) return 'timestamp';
+  return 'text';
+};
+
+// Numbers widen to the larger numeric type and dates to timestamps; any other mix is text.
+const widen = (current: SqlType | null, next: SqlType | null): SqlType | null => {
+  if (!next || current === next) return current;
+  if (!current) return next;
+  const numeric: SqlType[] = ['integer', 'bigint', 'double'];
+  if (numeric.includes(current) && numeric.includes(next)) return numeric[Math.max(numeric.indexOf(current), numeric.indexOf(next))];
+  if ((current === 'date' && next === 'timestamp') || (current === 'timestamp' && next === 'date')) return 'timestamp';
+  return 'text';
+};
+
+const textOf = (value: unknown) =>
+  value instanceof Date ? value.toISOString() : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+/** Infers a SQL type per column from every value; empty columns are text. */
+export function inferSqlColumns(rows: SheetRow[], headers: string[]): SqlColumn[] {
+  return headers.map(name => {
+    let type: SqlType | null = null;
+    let maxLength = 0;
+    for (const row of rows) {
+      const value = row[name];
+      type = widen(type, typeOfValue(value));
+      if (value !== null && value !== undefined) maxLength = Math.max(maxLength, textOf(value).length);
+    }
+    return { name, type: type ?? 'text', maxLength };
+  });
+}
+
+// PostgreSQL silently truncates longer names (in bytes) and MySQL rejects them; SQLite has no limit.
+const IDENTIFIER_LIMITS: Record<SqlDialect, number> = { postgresql: 63, mysql: 64, sqlite: Infinity };
+const HASH_SUFFIX_LENGTH = 9;
+
+const identifierLength = (dialect: SqlDialect, name: string) =>
+  dialect === 'postgresql' ? new TextEncoder().encode(name).length : Array.from(name).length;
+
+// FNV-1a, enough to tell apart names that share their first characters.
+const shortHash = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Fits a name within the dialect's identifier limit. Longer names are cut
+ * and end in `_` plus a hash of the whole name, so two names that only
+ * differ past the limit still get different identifiers.
+ */
+export function clampIdentifier(dialect: SqlDialect, name: string): string {
+  const limit = IDENTIFIER_LIMITS[dialect];
+  if (identifierLength(dialect, name) <= limit) return name;
+  let head = '';
+  for (const character of name) {
+    if (identifierLength(dialect, head + character) > limit - HASH_SUFFIX_LENGTH) break;
+    head += character;
+  }
+  return `${head}_${shortHash(name)}`;
+}
+
+export function quoteIdentifier(dialect: SqlDialect, name: string): string {
+  const clamped = clampIdentifier(dialect, name);
+  return dialect === 'mysql' ? `\`${clamped.replace(/`/g, '``')}\`` : `"${clamped.replace(/"/g, '""')}"`;
+}
+
+/** A lower-case table name from a sheet or file name: `Ventas 2024` is `ventas_2024`. */
+export const tableNameFor = (name: string) =>
+  normalizeHeader(name).replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'datos';
+
+const SQL_TYPES: Record<SqlDialect, Record<SqlType, string>> = {
+  postgresql: {
+    integer: 'INTEGER',
+    bigint: 'BIGINT',
+    double: 'DOUBLE PRECISION',
+    boolean: 'BOOLEAN',
+    date: 'DATE',
+    timestamp: 'TIMESTAMP',
+    text: 'TEXT',
+  },
+  mysql: {
+    integer: 'INT',
+    bigint: 'BIGINT',
+    double: 'DOUBLE',
+    boolean: 'BOOLEAN',
+    date: 'DATE',
+    timestamp: 'DATETIME',
+    text: 'TEXT',
+  },
+  // SQLite has no date or boolean types: dates are ISO-8601 text, booleans 0 and 1.
+  sqlite: {
+    integer: 'INTEGER',
+    bigint: 'INTEGER',
+    double: 'REAL',
+    boolean: 'INTEGER',
+    date: 'TEXT',
+    timestamp: 'TEXT',
+    text: 'TEXT',
+  },
+};
+
+export function columnDefinition(dialect: SqlDialect, column: SqlColumn): string {
+  const type = dialect === 'mysql' && column.type === 'text' && column.maxLength <= MYSQL_VARCHAR_LENGTH
+    ? `VARCHAR(${MYSQL_VARCHAR_LENGTH})`
+    : SQL_TYPES[dialect][column.type];
+  return `${quoteIdentifier(dialect, column.name)} ${type}`;
+}
+
+/** `CREATE TABLE` with the key, if any, as the primary key so upserts can target it. */
+export function createTableStatement(
+  dialect: SqlDialect,
+  table: string,
+  columns: SqlColumn[],
+  primaryKey: string[] = [],
+  ifNotExists = true
+): string {
+  const lines = columns.map(column => `  ${columnDefinition(dialect, column)}${primaryKey.includes(column.name) ? ' NOT NULL' : ''}`);
+  if (primaryKey.length) lines.push(`  PRIMARY KEY (${primaryKey.map(key => quoteIdentifier(dialect, key)).join(', ')})`);
+  return `CREATE TABLE ${ifNotExists ? 'IF NOT EXISTS ' : ''}${quoteIdentifier(dialect, table)} (\n${lines.join(',\n')}\n);`;
+}
+
+/**
+ * A value as a SQL literal for the column's type. MySQL also treats the
+ * backslash as an escape character inside strings, so it is doubled there.
+ */
+export function sqlLiteral(dialect: SqlDialect, value: unknown, type: SqlType): string {
+  if (value === null || value === undefined || value === '') return 'NULL';
+  if (type === 'boolean' && typeof value === 'boolean') {
+    return dialect === 'sqlite' ? (value ? '1' : '0') : value ? 'TRUE' : 'FALSE';
+  }
+  if ((type === 'integer' || type === 'bigint' || type === 'double') && typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'NULL';
+  }
+  let text = textOf(value).replace(/'/g, "''");
+  if (dialect === 'mysql') text = text.replace(/\\/g, '\\\\');
+  return `'${text.replace(/\u0000/g, '')}'`;
+}
+
+/** The clause that turns an insert into an upsert on `keys`. */
+function upsertClause(dialect: SqlDialect, columns: SqlColumn[], keys: string[]): string {
+  const updated = columns.filter(column => !keys.includes(column.name)).map(column => quoteIdentifier(dialect, column.name));
+  if (dialect === 'mysql') {
+    const assignments = (updated.length ? updated : [quoteIdentifier(dialect, keys[0])]).map(column => `${column} = VALUES(${column})`);
+    return `\nON DUPLICATE KEY UPDATE ${assignments.join(', ')}`;
+  }
+  const target = `ON CONFLICT (${keys.map(key => quoteIdentifier(dialect, key)).join(', ')})`;
+  return updated.length
+    ? `\n${target} DO UPDATE SET ${updated.map(column => `${column} = excluded.${column}`).join(', ')}`
+    : `\n${target} DO NOTHING`;
+}
+
+/** One multi-row `INSERT` per batch of rows, as upserts when `upsertKeys` is given. */
+export function insertStatements(
+  dialect: SqlDialect,
+  table: string,
+  columns: SqlColumn[],
+  rows: SheetRow[],
+  batchSize: number,
+  upsertKeys: string[] = []
+): string[] {
+  const head = `INSERT INTO ${quoteIdentifier(dialect, table)} (${columns.map(column => quoteIdentifier(dialect, column.name)).join(', ')}) VALUES`;
+  const tail = upsertKeys.length ? upsertClause(dialect, columns, upsertKeys) : '';
+  const statements: string[] = [];
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const values = rows
+      .slice(start, start + batchSize)
+      .map(row => `  (${columns.map(column => sqlLiteral(dialect, row[column.name], column.type)).join(', ')})`);
+    statements.push(`${head}\n${values.join(',\n')}${tail};`);
+  }
+  return statements;
+}
+
+/**
+ * Rows to upsert: rows with an empty key column are left out, and for a
+ * key repeated in the data only its last row is kept, since one statement
+ * cannot update the same row twice.
+ */
+export function prepareUpsertRows(rows: SheetRow[], keys: string[]) {
+  const byKey = new Map<string, SheetRow>();
+  let missingKey = 0;
+  rows.forEach(row => {
+    if (keys.some(key => row[key] === null || row[key] === undefined || row[key] === '')) {
+      missingKey++;
+      return;
+    }
+    const key = JSON.stringify(keys.map(column => row[column]));
+    byKey.delete(key);
+    byKey.set(key, row);
+  });
+  const kept = Array.from(byKey.values());
+  return { rows: kept, missingKey, duplicates: rows.length - missingKey - kept.length };
+}
+
+/**
+ * A sheet's table name in the script: the chosen name, per sheet when there
+ * are several, within the dialect's identifier limit.
+ */
+export const sqlTableName = (
+  options: Pick<SqlOptions, 'tableName'>,
+  sheetName: string,
+  sheetCount: number,
+  dialect: SqlDialect
+) => {
+  const name = !options.tableName
+    ? tableNameFor(sheetName)
+    : sheetCount > 1 ? `${options.tableName}_${tableNameFor(sheetName)}` : options.tableName;
+  return clampIdentifier(dialect, name);
+};
+
+/**
+ * A script that creates one table per sheet (unless disabled) and fills it
+ * in batches, all in one transaction. The upsert key is ignored for sheets
+ * that lack any of its columns.
+ */
+export function buildSqlScript(sheets: { name: string; headers: string[]; rows: SheetRow[] }[], options: SqlOptions): string {
+  const { dialect } = options;
+  const parts = [
+    `-- Generado por ExcelFlow (${SQL_DIALECT_LABELS[dialect]})`,
+    dialect === 'mysql' ? 'START TRANSACTION;' : 'BEGIN;',
+  ];
+  sheets.forEach(sheet => {
+    const table = sqlTableName(options, sheet.name, sheets.length, dialect);
+    const columns = inferSqlColumns(sheet.rows, sheet.headers);
+    const keys = options.upsertKeys.length && options.upsertKeys.every(key => sheet.headers.includes(key)) ? options.upsertKeys : [];
+    const rows = keys.length ? prepareUpsertRows(sheet.rows, keys).rows : sheet.rows;
+    // The name comes from the client: any line break, `\r` included, would end the comment.
+    parts.push('', `-- Hoja "${sheet.name.replace(/[\u0000-\u001f\u007f]+/g, ' ')}": ${rows.length} fila(s)`);
+    if (options.createTable) parts.push(createTableStatement(dialect, table, columns, keys));
+    parts.push(...insertStatements(dialect, table, columns, rows, options.batchSize, keys));
+  });
+  parts.push('', 'COMMIT;', '');
+  return parts.join('\n');
+}
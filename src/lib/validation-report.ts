@@ -0,0 +1,86 @@
+import * as XLSX from 'xlsx';
+import { RULE_LABELS, type RuleCode, type Severity, type ValidationResult } from '@/lib/import-schemas';
+import type { SheetRow } from '@/lib/workbook';
+
+const ERRORS_HEADER = 'Errores';
+const COMMENT_AUTHOR = 'ExcelFlow';
+// Excel limits sheet names to 31 characters and forbids a few symbols.
+const MAX_SHEET_NAME_LENGTH = 31;
+
+export const safeSheetName = (name: string) =>
+  name.replace(/[\\/?*[\]:]/g, '_').slice(0, MAX_SHEET_NAME_LENGTH) || 'Hoja';
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  error: 'Error',
+  warning: 'Advertencia',
+};
+
+/**
+ * Builds a workbook the sender can fix directly: a copy of the validated
+ * sheet where every invalid cell carries a comment and an extra "Errores"
+ * column explains each row, plus a summary sheet with counts per rule.
+ */
+export function buildValidationReport(
+  rows: SheetRow[],
+  headers: string[],
+  result: ValidationResult,
+  sheetName: string
+): XLSX.WorkBook {
+  const rowErrors = new Map<number, string[]>();
+  for (const issue of result.issues) {
+    if (issue.rowIndex === null) continue;
+    rowErrors.set(issue.rowIndex, [...(rowErrors.get(issue.rowIndex) ?? []), `${issue.header}: ${issue.message}`]);
+  }
+
+  const aoa = [
+    [...headers, ERRORS_HEADER],
+    ...rows.map((row, rowIndex) => [
+      ...headers.map(header => row[header] ?? null),
+      rowErrors.get(rowIndex)?.join('; ') ?? '',
+    ]),
+  ];
+  const dataSheet = XLSX.utils.aoa_to_sheet(aoa);
+
+  const columnIndex = new Map(headers.map((header, C) => [header, C]));
+  result.cellIssues.forEach(cellIssues => {
+    const { rowIndex, header } = cellIssues[0];
+    const C = columnIndex.get(header);
+    if (rowIndex === null || C === undefined) return;
+    const address = XLSX.utils.encode_cell({ r: rowIndex + 1, c: C });
+    const cell: XLSX.CellObject = dataSheet[address] ?? { t: 's', v: '' };
+    const comments = cellIssues.map(issue => ({ a: COMMENT_AUTHOR, t: `${SEVERITY_LABELS[issue.severity]}: ${issue.message}` })) as XLSX.Comments;
+    comments.hidden = true;
+    cell.c = comments;
+    dataSheet[address] = cell;
+  });
+
+  const counts = new Map<string, { rule: RuleCode; severity: Severity; count: number }>();
+  for (const issue of result.issues) {
+    const key = `${issue.rule}:${issue.severity}`;
+    const entry = counts.get(key) ?? { rule: issue.rule, severity: issue.severity, count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+
+  const summary: (string | number)[][] = [
+    ['Regla', 'Severidad', 'Incidencias'],
+    ...Array.from(counts.values()).map(({ rule, severity, count }) => [RULE_LABELS[rule], SEVERITY_LABELS[severity], count]),
+    [],
+    ['Total de errores', '', result.errorCount],
+    ['Total de advertencias', '', result.warningCount],
+    ['Filas con incidencias', '', rowErrors.size],
+    ['Filas analizadas', '', rows.length],
+  ];
+  const columnIssues = result.issues.filter(issue => issue.rowIndex === null);
+  if (columnIssues.length) {
+    summary.push([], ['Incidencias de columna']);
+    columnIssues.forEach(issue => summary.push([issue.header, SEVERITY_LABELS[issue.severity], issue.message]));
+  }
+  const summarySheet = XLSX.utils.aoa_to_sheet(summary);
+
+  const workbook = XLSX.utils.book_new();
+  const dataSheetName = safeSheetName(sheetName);
+  XLSX.utils.book_append_sheet(workbook, dataSheet, dataSheetName);
+  XLSX.utils.book_append_sheet(workbook, summarySheet, dataSheetName === 'Resumen' ? 'Resumen de errores' : 'Resumen');
+  return workbook;
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { detectHeaderRow, mergeColumnType, normalizeHeader, parseSheet, parseWorkbook, toDateKey } from '@/lib/workbook';
+
+const sheetOf = (rows: unknown[][], merges: XLSX.Range[] = []) => {
+  const worksheet = XLSX.utils.aoa_to_sheet(rows, { cellDates: true });
+  worksheet['!merges'] = merges;
+  return worksheet;
+};
+
+describe('normalizeHeader', () => {
+  it('ignores case, accents and spacing', () => {
+    expect(normalizeHeader('  Código   Cliente ')).toBe('codigo cliente');
+  });
+});
+
+describe('detectHeaderRow', () => {
+  it('skips a title block above the table', () => {
+    const rows = [
+      ['Informe de ventas', '', ''],
+      ['', '', ''],
+      ['Fecha', 'Cliente', 'Importe'],
+      ['2024-01-01', 'Ana', 10],
+    ];
+    expect(detectHeaderRow(rows)).toBe(2);
+  });
+
+  it('falls back to the first row when no row looks like a header', () => {
+    expect(detectHeaderRow([[1, 2], [3, 4]])).toBe(0);
+  });
+});
+
+describe('mergeColumnType', () => {
+  it('ignores empty cells and marks mixed columns', () => {
+    expect(mergeColumnType('empty', 'number')).toBe('number');
+    expect(mergeColumnType('number', 'empty')).toBe('number');
+    expect(mergeColumnType('number', 'string')).toBe('mixed');
+  });
+});
+
+describe('parseSheet', () => {
+  it('flattens merged multi-row headers and fills blank and repeated ones', () => {
+    const worksheet = sheetOf(
+      [
+        ['Cliente', 'Ventas', '', '', 'Cliente'],
+        ['', 'Q1', 'Q2', '', ''],
+        ['Ana', 1, 2, 'x', 'b'],
+      ],
+      [{ s: { r: 0, c: 1 }, e: { r: 0, c: 2 } }]
+    );
+    const sheet = parseSheet('Hoja1', worksheet);
+    expect(sheet.headerRowCount).toBe(2);
+    expect(sheet.headers).toEqual(['Cliente', 'Ventas.Q1', 'Ventas.Q2', 'Columna 4', 'Cliente_2']);
+    expect(sheet.rows).toEqual([{ Cliente: 'Ana', 'Ventas.Q1': 1, 'Ventas.Q2': 2, 'Columna 4': 'x', Cliente_2: 'b' }]);
+  });
+
+  it('emits typed values and detects column types', () => {
+    const worksheet = sheetOf([
+      ['Fecha', 'Importe', 'Activo'],
+      [new Date(2024, 0, 15), 10.5, true],
+      [null, 'n/d', false],
+    ]);
+    const sheet = parseSheet('Hoja1', worksheet, { headerRow: 0, headerRowCount: 1 });
+    expect(sheet.rows[0]).toEqual({ Fecha: '2024-01-15', Importe: 10.5, Activo: true });
+    expect(sheet.rows[1].Fecha).toBeNull();
+    expect(sheet.columnTypes).toEqual({ Fecha: 'date', Importe: 'mixed', Activo: 'boolean' });
+  });
+});
+
+describe('parseWorkbook', () => {
+  it('keeps the sheet order and reports progress across sheets', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheetOf([['A'], ['x'], ['y']]), 'Primera');
+    XLSX.utils.book_append_sheet(workbook, sheetOf([['B'], ['z']]), 'Segunda');
+    const progress: number[] = [];
+    const sheets = parseWorkbook(workbook, {}, rows => progress.push(rows));
+    expect(sheets.map(sheet => sheet.name)).toEqual(['Primera', 'Segunda']);
+    expect(progress.at(-1)).toBe(3);
+  });
+});
+
+describe('toDateKey', () => {
+  const TZ = process.env.TZ;
+  afterEach(() => {
+    if (TZ === undefined) delete process.env.TZ;
+    else process.env.TZ = TZ;
+  });
+
+  it('keeps the day of ISO dates and rejects trailing text', () => {
+    expect(toDateKey('2024-01-15T23:30:00')).toBe('2024-01-15');
+    expect(toDateKey('2024-01-01garbage')).toBeNull();
+    expect(toDateKey('')).toBeNull();
+    expect(toDateKey(null)).toBeNull();
+  });
+
+  it('takes the local day of formatted dates, not the UTC one', () => {
+    process.env.TZ = 'Europe/Madrid';
+    expect(toDateKey('1/15/2024')).toBe('2024-01-15');
+  });
+});
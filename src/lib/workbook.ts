@@ -0,0 +1,270 @@
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+
+export type SheetRow = { [key: string]: any };
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'string' | 'empty' | 'mixed';
+
+/**
+ * `typed` emits numbers, booleans, ISO-8601 dates and nulls; `formatted`
+ * keeps the text exactly as Excel displays it.
+ */
+export type ValueMode = 'typed' | 'formatted';
+
+export type ParsedSheet = {
+  name: string;
+  headers: string[];
+  rows: SheetRow[];
+  rowCount: number;
+  columnCount: number;
+  headerRow: number;
+  headerRowCount: number;
+  columnTypes: { [header: string]: ColumnType };
+  valueMode: ValueMode;
+};
+
+export type ParseOptions = {
+  /** Zero-based header row, relative to the sheet range. Detected when omitted. */
+  headerRow?: number;
+  /** Number of stacked header rows to flatten. Detected when omitted. */
+  headerRowCount?: number;
+  valueMode?: ValueMode;
+};
+
+/** Dates as typed values carry them: `yyyy-MM-dd`, optionally with the time. */
+export const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/;
+
+/**
+ * The `yyyy-MM-dd` day of a date cell, for comparing dates by day. Typed
+ * values keep their day; formatted text goes through `Date.parse` and takes
+ * the local day, as Excel shows it, since the UTC one can be the day before.
+ * Null when the text is not a date.
+ */
+export function toDateKey(value: unknown): string | null {
+  const text = String(value).trim();
+  if (ISO_DATE.test(text)) return text.slice(0, 10);
+  const time = Date.parse(text);
+  return isNaN(time) ? null : format(time, 'yyyy-MM-dd');
+}
+
+/**
+ * Canonical form of a header for loose matching: trimmed, lower-cased,
+ * without accents and with inner whitespace collapsed.
+ */
+export const normalizeHeader = (header: string) =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const HEADER_SCAN_ROWS = 20;
+const PROGRESS_ROW_INTERVAL = 5000;
+const MAX_HEADER_ROW_COUNT = 5;
+
+const isFilled = (value: any) => String(value ?? '').trim() !== '';
+
+/**
+ * Finds the first row that looks like a header: wide enough compared to the
+ * widest row near the top of the sheet and made only of non-numeric labels.
+ * Title blocks above the table are skipped this way.
+ */
+export function detectHeaderRow(dataAsArray: any[][]): number {
+  const scanned = dataAsArray.slice(0, HEADER_SCAN_ROWS);
+  const filledCounts = scanned.map(row => row.filter(isFilled).length);
+  const maxFilled = Math.max(0, ...filledCounts);
+  const minFilled = Math.max(1, Math.ceil(maxFilled / 2));
+
+  const headerRow = scanned.findIndex((row, index) =>
+    filledCounts[index] >= minFilled &&
+    row.filter(isFilled).every(value => isNaN(Number(value)))
+  );
+  return headerRow === -1 ? 0 : headerRow;
+}
+
+/**
+ * Detects multi-row headers from merged cells that span several columns on
+ * the header row (e.g. "Ventas" over "Q1" and "Q2").
+ */
+export function detectHeaderRowCount(worksheet: XLSX.WorkSheet, headerRow: number): number {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1');
+  const absoluteHeaderRow = range.s.r + headerRow;
+  const spanning = (worksheet['!merges'] ?? []).filter(merge =>
+    merge.s.r === absoluteHeaderRow && merge.e.c > merge.s.c
+  );
+  if (!spanning.length) return 1;
+
+  const lastMergedRow = Math.max(...spanning.map(merge => merge.e.r));
+  return Math.min(lastMergedRow - absoluteHeaderRow + 2, MAX_HEADER_ROW_COUNT);
+}
+
+/**
+ * Flattens one or more header rows into a single key per column, spreading
+ * merged header cells over the columns they cover and joining the levels
+ * with dots (e.g. "Ventas.Q1"). Blank headers fall back to "Columna N" and
+ * repeated keys get a numeric suffix.
+ */
+function buildHeaders(
+  worksheet: XLSX.WorkSheet,
+  dataAsArray: any[][],
+  headerRow: number,
+  headerRowCount: number
+): string[] {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1');
+  const width = range.e.c - range.s.c + 1;
+  const grid: string[][] = [];
+  for (let R = 0; R < headerRowCount; ++R) {
+    const rowArray = dataAsArray[headerRow + R] ?? [];
+    grid.push(Array.from({ length: width }, (_, C) => String(rowArray[C] ?? '').trim()));
+  }
+
+  for (const merge of worksheet['!merges'] ?? []) {
+    const value = grid[merge.s.r - range.s.r - headerRow]?.[merge.s.c - range.s.c];
+    if (!value) continue;
+    for (let R = merge.s.r; R <= merge.e.r; ++R) {
+      const gridRow = grid[R - range.s.r - headerRow];
+      if (!gridRow) continue;
+      for (let C = merge.s.c; C <= merge.e.c; ++C) {
+        gridRow[C - range.s.c] = value;
+      }
+    }
+  }
+
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, C) => {
+    const parts = grid
+      .map(gridRow => gridRow[C])
+      .filter((part, index, all) => part !== '' && part !== all[index - 1]);
+    const base = parts.length ? parts.join('.') : `Columna ${range.s.c + C + 1}`;
+    const occurrences = (seen.get(base) ?? 0) + 1;
+    seen.set(base, occurrences);
+    return occurrences > 1 ? `${base}_${occurrences}` : base;
+  });
+}
+
+const typeOfValue = (value: any): ColumnType => {
+  if (value === null || value === undefined || value === '') return 'empty';
+  if (value instanceof Date) return 'date';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+};
+
+export const mergeColumnType = (current: ColumnType, next: ColumnType): ColumnType => {
+  if (next === 'empty' || current === next) return current;
+  return current === 'empty' ? next : 'mixed';
+};
+
+/**
+ * Dates without a time part become `yyyy-MM-dd`; the rest keep the time as
+ * local ISO-8601, since Excel dates carry no timezone.
+ */
+const toTypedValue = (value: any): any => {
+  if (value === undefined || value === '') return null;
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    const hasTime = value.getHours() || value.getMinutes() || value.getSeconds();
+    return format(value, hasTime ? "yyyy-MM-dd'T'HH:mm:ss" : 'yyyy-MM-dd');
+  }
+  return value;
+};
+
+/**
+ * Converts a worksheet into header names plus one object per data row.
+ * The header row and the number of stacked header rows are detected unless
+ * given in `options`; rows above the header are skipped. Column types are
+ * always detected from the raw cell values, whatever the value mode.
+ */
+export function parseSheet(
+  name: string,
+  worksheet: XLSX.WorkSheet,
+  options: ParseOptions = {},
+  onRowsParsed?: (rows: number) => void
+): ParsedSheet {
+  const valueMode = options.valueMode ?? 'typed';
+
+  // Using sheet_to_json with header: 1 to get array of arrays
+  const dataAsArray: any[][] = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    defval: '',
+    blankrows: true,
+    raw: false, // Get formatted text for dates
+  });
+  const rawDataAsArray: any[][] = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    defval: null,
+    blankrows: true,
+    raw: true,
+  });
+
+  const headerRow = options.headerRow ?? detectHeaderRow(dataAsArray);
+  const headerRowCount = Math.max(1, options.headerRowCount ?? detectHeaderRowCount(worksheet, headerRow));
+  const headers = buildHeaders(worksheet, dataAsArray, headerRow, headerRowCount);
+  const firstDataRow = headerRow + headerRowCount;
+
+  const columnTypes: { [header: string]: ColumnType } = Object.fromEntries(headers.map(header => [header, 'empty']));
+  const rawRows = rawDataAsArray.slice(firstDataRow);
+  const formattedRows = dataAsArray.slice(firstDataRow);
+
+  const rows = rawRows.map((rawRowArray, rowIndex) => {
+    const rowData: SheetRow = {};
+    headers.forEach((header, index) => {
+      const rawValue = rawRowArray[index];
+      columnTypes[header] = mergeColumnType(columnTypes[header], typeOfValue(rawValue));
+      rowData[header] = valueMode === 'typed'
+        ? toTypedValue(rawValue)
+        : formattedRows[rowIndex]?.[index] ?? '';
+    });
+    if ((rowIndex + 1) % PROGRESS_ROW_INTERVAL === 0) {
+      onRowsParsed?.(rowIndex + 1);
+    }
+    return rowData;
+  });
+  onRowsParsed?.(rows.length);
+
+  return {
+    name,
+    headers,
+    rows,
+    rowCount: rows.length,
+    columnCount: headers.length,
+    headerRow,
+    headerRowCount,
+    columnTypes,
+    valueMode,
+  };
+}
+
+export function readWorkbook(data: ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(data, { type: 'array', cellDates: true });
+}
+
+/**
+ * Counts the rows of every sheet range, used as the total for parse progress.
+ */
+export function countWorkbookRows(workbook: XLSX.WorkBook): number {
+  return workbook.SheetNames.reduce((total, sheetName) => {
+    const ref = workbook.Sheets[sheetName]['!ref'];
+    if (!ref) return total;
+    const range = XLSX.utils.decode_range(ref);
+    return total + range.e.r - range.s.r + 1;
+  }, 0);
+}
+
+/**
+ * Parses every sheet of a workbook, keeping the original sheet order.
+ * `onRowsParsed` receives the running number of data rows across sheets.
+ */
+export function parseWorkbook(
+  workbook: XLSX.WorkBook,
+  options: ParseOptions = {},
+  onRowsParsed?: (rows: number) => void
+): ParsedSheet[] {
+  let parsedBefore = 0;
+  return workbook.SheetNames.map(sheetName => {
+    const sheet = parseSheet(sheetName, workbook.Sheets[sheetName], options, rows => onRowsParsed?.(parsedBefore + rows));
+    parsedBefore += sheet.rowCount;
+    return sheet;
+  });
+}
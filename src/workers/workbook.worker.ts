@@ -0,0 +1,83 @@
+import type { WorkBook } from 'xlsx';
+import { countWorkbookRows, parseSheet, parseWorkbook, readWorkbook, type ParseOptions, type ParsedSheet } from '@/lib/workbook';
+
+export type WorkbookWorkerRequest =
+  | { id: number; type: 'parse'; file: File; options: ParseOptions }
+  | { id: number; type: 'reparse'; sheets: { name: string; options: ParseOptions }[] };
+
+export type WorkbookProgress = {
+  phase: 'read' | 'parse';
+  loaded: number;
+  total: number;
+};
+
+export type WorkbookWorkerResponse =
+  | { id: number; type: 'progress'; progress: WorkbookProgress }
+  | { id: number; type: 'parsed'; sheets: ParsedSheet[] }
+  | { id: number; type: 'error'; phase: WorkbookProgress['phase']; message: string };
+
+// The workbook stays in the worker so header and value-mode changes can be
+// re-parsed without reading the file again.
+let workbook: WorkBook | null = null;
+
+const post = (response: WorkbookWorkerResponse) => self.postMessage(response);
+
+async function readWithProgress(id: number, file: File): Promise<ArrayBuffer> {
+  const buffer = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let loaded = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer.set(value, loaded);
+    loaded += value.length;
+    post({ id, type: 'progress', progress: { phase: 'read', loaded, total: file.size } });
+  }
+  return buffer.buffer;
+}
+
+async function handleParse(id: number, file: File, options: ParseOptions) {
+  let data: ArrayBuffer;
+  try {
+    data = await readWithProgress(id, file);
+  } catch (error) {
+    post({ id, type: 'error', phase: 'read', message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  try {
+    workbook = readWorkbook(data);
+    const total = countWorkbookRows(workbook);
+    post({ id, type: 'progress', progress: { phase: 'parse', loaded: 0, total } });
+    const sheets = parseWorkbook(workbook, options, loaded => {
+      post({ id, type: 'progress', progress: { phase: 'parse', loaded, total } });
+    });
+    post({ id, type: 'parsed', sheets });
+  } catch (error) {
+    workbook = null;
+    post({ id, type: 'error', phase: 'parse', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+function handleReparse(id: number, requests: { name: string; options: ParseOptions }[]) {
+  const current = workbook;
+  if (!current) {
+    post({ id, type: 'error', phase: 'parse', message: 'No hay ningún libro cargado.' });
+    return;
+  }
+  try {
+    const sheets = requests.map(({ name, options }) => parseSheet(name, current.Sheets[name], options));
+    post({ id, type: 'parsed', sheets });
+  } catch (error) {
+    post({ id, type: 'error', phase: 'parse', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkbookWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'parse') {
+    handleParse(request.id, request.file, request.options);
+  } else {
+    handleReparse(request.id, request.sheets);
+  }
+};